@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet, FolderOpen, Play, Pause, Trash2, Loader2, CheckCircle, AlertCircle, Clock, Ban, RotateCcw } from 'lucide-react';
+import { CatalogItem, CatalogItemStatus, CatalogRow, parseCatalogManifest, resolveCatalogFiles } from '../services/catalogImport';
+import { t } from '../services/i18n';
+
+export type CatalogRunState = 'idle' | 'running' | 'pausing' | 'paused';
+
+interface CatalogPanelProps {
+  items: CatalogItem[];
+  runState: CatalogRunState;
+  progress: Record<string, { done: number, total: number }>; // Keyed by SKU
+  onLoad: (items: CatalogItem[]) => void;
+  onStart: () => void;
+  onPause: () => void;
+  onRetry: (sku: string) => void;
+  onClear: () => void;
+}
+
+const STATUS_ICON: Record<CatalogItemStatus, React.ReactNode> = {
+  pending: <Clock size={12} className="text-gray-500" />,
+  running: <Loader2 size={12} className="text-gold-400 animate-spin" />,
+  done: <CheckCircle size={12} className="text-green-500" />,
+  failed: <AlertCircle size={12} className="text-red-400" />,
+  invalid: <Ban size={12} className="text-red-400" />,
+};
+
+// React's typings don't include the directory-picker attributes
+const folderInputProps = { webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
+export const CatalogPanel: React.FC<CatalogPanelProps> = ({ items, runState, progress, onLoad, onStart, onPause, onRetry, onClear }) => {
+  const [rows, setRows] = useState<CatalogRow[] | null>(null);
+  const [manifestName, setManifestName] = useState('');
+  const [folder, setFolder] = useState<File[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const isBusy = runState === 'running' || runState === 'pausing';
+  const counts: Record<CatalogItemStatus, number> = { pending: 0, running: 0, done: 0, failed: 0, invalid: 0 };
+  items.forEach(item => { counts[item.status]++; });
+
+  const load = (nextRows: CatalogRow[] | null, nextFolder: File[]) => {
+    if (nextRows && nextFolder.length > 0) onLoad(resolveCatalogFiles(nextRows, nextFolder));
+  };
+
+  const handleManifest = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseCatalogManifest(await file.text(), file.name);
+      setRows(parsed);
+      setManifestName(file.name);
+      setError(null);
+      load(parsed, folder);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('catalog.readFailed'));
+    }
+  };
+
+  const handleFolder = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? (Array.from(e.target.files) as File[]).filter(f => f.type.startsWith('image/')) : [];
+    e.target.value = '';
+    setFolder(files);
+    load(rows, files);
+  };
+
+  return (
+    <div className="bg-luxury-charcoal rounded-2xl border border-gray-800 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-sm font-serif text-white flex items-center gap-2">
+          <FileSpreadsheet size={16} className="text-gold-400" />
+          {t('catalog.title')}
+          {items.length > 0 && (
+            <span className="text-xs font-sans text-gray-500">
+              {t('catalog.counts', { done: counts.done, failed: counts.failed, pending: counts.pending + counts.running })}{counts.invalid > 0 && ` · ${t('catalog.invalidCount', { count: counts.invalid })}`}
+            </span>
+          )}
+        </h3>
+        <div className="flex items-center gap-2">
+          {runState === 'running' ? (
+            <button onClick={onPause} className="px-3 py-1.5 rounded-lg text-xs bg-white/10 text-white hover:bg-white/20 flex items-center gap-1.5">
+              <Pause size={12} />
+              {t('catalog.pause')}
+            </button>
+          ) : (
+            <button
+              onClick={onStart}
+              disabled={isBusy || counts.pending === 0}
+              className="px-3 py-1.5 rounded-lg text-xs bg-gold-600 text-black font-bold hover:bg-gold-500 disabled:bg-gray-800 disabled:text-gray-500 flex items-center gap-1.5"
+            >
+              {runState === 'pausing' ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+              {runState === 'pausing' ? t('catalog.pausing') : runState === 'paused' ? t('catalog.resume') : t('catalog.start')}
+            </button>
+          )}
+          {items.length > 0 && !isBusy && (
+            <button onClick={onClear} className="p-1.5 rounded-md text-gray-500 hover:text-red-400 hover:bg-white/5" title={t('catalog.clear')}>
+              <Trash2 size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!isBusy && (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="relative flex items-center gap-2 text-xs text-gray-300 border border-dashed border-gray-700 hover:border-gray-500 rounded-lg px-3 py-2 cursor-pointer">
+            <FileSpreadsheet size={14} className="text-gray-500 shrink-0" />
+            <span className="truncate">{manifestName ? `${manifestName} (${t('product.count', { count: rows?.length ?? 0 })})` : t('catalog.chooseManifest')}</span>
+            <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleManifest} className="absolute inset-0 opacity-0 cursor-pointer" />
+          </label>
+          <label className="relative flex items-center gap-2 text-xs text-gray-300 border border-dashed border-gray-700 hover:border-gray-500 rounded-lg px-3 py-2 cursor-pointer">
+            <FolderOpen size={14} className="text-gray-500 shrink-0" />
+            <span className="truncate">{folder.length > 0 ? t('catalog.folder', { count: folder.length }) : t('catalog.chooseFolder')}</span>
+            <input type="file" multiple {...folderInputProps} onChange={handleFolder} className="absolute inset-0 opacity-0 cursor-pointer" />
+          </label>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {runState === 'pausing' && <p className="text-[10px] text-gray-500">{t('catalog.pausingHint')}</p>}
+
+      {items.length > 0 && (
+        <div className="grid grid-cols-3 sm:grid-cols-4 xl:grid-cols-6 gap-2 max-h-72 overflow-y-auto">
+          {items.map(item => {
+            const itemProgress = progress[item.row.sku];
+            return (
+              <div
+                key={item.row.sku}
+                className={`relative rounded-lg border bg-black/20 p-1.5 space-y-1 ${item.status === 'running' ? 'border-gold-500/60' : item.status === 'failed' || item.status === 'invalid' ? 'border-red-500/40' : 'border-gray-800'}`}
+                title={item.error}
+              >
+                <div className="aspect-square rounded overflow-hidden bg-black/40">
+                  {item.previewUrl && <img src={item.previewUrl} alt={item.row.sku} className="w-full h-full object-cover" />}
+                </div>
+                <div className="flex items-center gap-1 text-[10px] text-gray-300">
+                  {STATUS_ICON[item.status]}
+                  <span className="flex-1 truncate">{item.row.sku}</span>
+                  {item.status === 'failed' && !isBusy && (
+                    <button onClick={() => onRetry(item.row.sku)} className="text-gray-500 hover:text-gold-400" title={t('catalog.retry')}>
+                      <RotateCcw size={10} />
+                    </button>
+                  )}
+                </div>
+                {itemProgress && (
+                  <div className="h-1 bg-gray-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-gold-500 transition-all" style={{ width: `${(itemProgress.done / itemProgress.total) * 100}%` }} />
+                  </div>
+                )}
+                {item.error && <p className="text-[9px] text-red-400 truncate">{item.error}</p>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Columns2, SplitSquareHorizontal, Flame, ZoomIn, Loader2, AlertCircle } from 'lucide-react';
+import { computeDiffHeatmap, DiffResult } from '../services/imageDiff';
+import { MessageKey, t } from '../services/i18n';
+
+export interface CompareImage {
+  key: string;
+  url: string;
+  label: string;
+}
+
+export interface CompareCandidateGroup {
+  label: string;
+  images: CompareImage[];
+}
+
+type CompareMode = 'slider' | 'side-by-side' | 'diff';
+
+interface CompareViewProps {
+  left: CompareImage;
+  right: CompareImage;
+  candidates: CompareCandidateGroup[];
+  onChangeLeft: (image: CompareImage) => void;
+  onChangeRight: (image: CompareImage) => void;
+  onClose: () => void;
+}
+
+interface ViewTransform {
+  scale: number;
+  x: number; // px
+  y: number; // px
+}
+
+const IDENTITY: ViewTransform = { scale: 1, x: 0, y: 0 };
+const MIN_SCALE = 1;
+const MAX_SCALE = 8;
+
+const MODES: { id: CompareMode, label: MessageKey, icon: React.ReactNode }[] = [
+  { id: 'slider', label: 'compare.mode.slider', icon: <SplitSquareHorizontal size={14} /> },
+  { id: 'side-by-side', label: 'compare.mode.side-by-side', icon: <Columns2 size={14} /> },
+  { id: 'diff', label: 'compare.mode.diff', icon: <Flame size={14} /> },
+];
+
+const ImagePicker: React.FC<{ value: CompareImage, candidates: CompareCandidateGroup[], onChange: (image: CompareImage) => void, tag: string }> = ({ value, candidates, onChange, tag }) => {
+  const all = candidates.flatMap(g => g.images);
+  return (
+    <label className="flex items-center gap-2 text-xs text-gray-400 min-w-0">
+      <span className="font-bold text-gold-400">{tag}</span>
+      <select
+        value={value.key}
+        onChange={(e) => {
+          const image = all.find(i => i.key === e.target.value);
+          if (image) onChange(image);
+        }}
+        className="min-w-0 max-w-[16rem] bg-black/60 border border-gray-700 rounded px-2 py-1 text-white focus:border-gold-500 outline-none"
+      >
+        {candidates.map(group => (
+          <optgroup key={group.label} label={group.label}>
+            {group.images.map(image => <option key={image.key} value={image.key}>{image.label}</option>)}
+          </optgroup>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export const CompareView: React.FC<CompareViewProps> = ({ left, right, candidates, onChangeLeft, onChangeRight, onClose }) => {
+  const [mode, setMode] = useState<CompareMode>('slider');
+  const [split, setSplit] = useState(50); // percent
+  const [transform, setTransform] = useState<ViewTransform>(IDENTITY);
+  const [diff, setDiff] = useState<DiffResult | null>(null);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const [diffFailed, setDiffFailed] = useState(false);
+  const [heatmapOpacity, setHeatmapOpacity] = useState(0.8);
+  const dragRef = useRef<{ kind: 'pan' | 'split', startX: number, startY: number, origin: ViewTransform, rect: DOMRect } | null>(null);
+
+  useEffect(() => {
+    if (mode !== 'diff') return;
+    let cancelled = false;
+    // The previous pair's heatmap must not stand in for this one while it computes
+    setDiff(null);
+    setDiffFailed(false);
+    setIsDiffLoading(true);
+    computeDiffHeatmap(left.url, right.url)
+      .then(result => { if (!cancelled) setDiff(result); })
+      .catch(e => {
+        console.error("Diff failed", e);
+        if (!cancelled) {
+          setDiff(null);
+          setDiffFailed(true);
+        }
+      })
+      .finally(() => { if (!cancelled) setIsDiffLoading(false); });
+    return () => { cancelled = true; };
+  }, [mode, left.url, right.url]);
+
+  // One transform drives every pane, which keeps zoom and pan synchronized
+  const handleWheel = (e: React.WheelEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const cx = e.clientX - rect.left - rect.width / 2;
+    const cy = e.clientY - rect.top - rect.height / 2;
+    setTransform(prev => {
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, prev.scale * (e.deltaY < 0 ? 1.15 : 1 / 1.15)));
+      if (scale === MIN_SCALE) return IDENTITY;
+      // Zoom around the cursor
+      const k = scale / prev.scale;
+      return { scale, x: cx - (cx - prev.x) * k, y: cy - (cy - prev.y) * k };
+    });
+  };
+
+  // Split drags are measured against the pane, not the handle
+  const handlePointerDown = (e: React.PointerEvent<HTMLElement>, kind: 'pan' | 'split') => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const frame = kind === 'split' ? e.currentTarget.parentElement! : e.currentTarget;
+    dragRef.current = { kind, startX: e.clientX, startY: e.clientY, origin: transform, rect: frame.getBoundingClientRect() };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.kind === 'split') {
+      setSplit(Math.min(100, Math.max(0, ((e.clientX - drag.rect.left) / drag.rect.width) * 100)));
+    } else if (transform.scale > 1) {
+      setTransform({ ...drag.origin, x: drag.origin.x + e.clientX - drag.startX, y: drag.origin.y + e.clientY - drag.startY });
+    }
+  };
+
+  const handlePointerUp = () => { dragRef.current = null; };
+
+  const imageStyle: React.CSSProperties = {
+    transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+    transformOrigin: 'center center',
+  };
+
+  const paneProps = {
+    onWheel: handleWheel,
+    onPointerDown: (e: React.PointerEvent<HTMLDivElement>) => handlePointerDown(e, 'pan'),
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    className: `relative flex-1 h-full overflow-hidden touch-none ${transform.scale > 1 ? 'cursor-grab' : ''}`,
+  };
+
+  const renderImage = (image: CompareImage, extraStyle?: React.CSSProperties) => (
+    <img src={image.url} alt={image.label} draggable={false} className="absolute inset-0 w-full h-full object-contain select-none" style={{ ...imageStyle, ...extraStyle }} />
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/95 flex flex-col backdrop-blur-sm" onClick={(e) => e.stopPropagation()}>
+      {/* Top Bar */}
+      <div className="flex flex-wrap items-center gap-3 px-4 py-3 border-b border-gray-800">
+        <div className="flex gap-1">
+          {MODES.map(m => (
+            <button
+              key={m.id}
+              onClick={() => setMode(m.id)}
+              className={`px-3 py-1.5 rounded-lg text-xs flex items-center gap-1.5 transition-colors ${mode === m.id ? 'bg-gold-600 text-black font-bold' : 'bg-white/5 text-gray-300 hover:bg-white/10'}`}
+            >
+              {m.icon}
+              {t(m.label)}
+            </button>
+          ))}
+        </div>
+        <ImagePicker tag="A" value={left} candidates={candidates} onChange={onChangeLeft} />
+        <ImagePicker tag="B" value={right} candidates={candidates} onChange={onChangeRight} />
+        <button
+          onClick={() => setTransform(IDENTITY)}
+          className="text-xs text-gray-400 hover:text-white flex items-center gap-1"
+          title={t('compare.zoomHint')}
+        >
+          <ZoomIn size={14} />
+          {Math.round(transform.scale * 100)}%
+        </button>
+        {mode === 'diff' && (
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            {t('compare.heatmapOpacity')}
+            <input type="range" min={0} max={1} step={0.05} value={heatmapOpacity} onChange={(e) => setHeatmapOpacity(Number(e.target.value))} className="accent-gold-500" />
+            {diff && <span className="text-gold-400">{t('compare.changedPixels', { percent: (diff.changedRatio * 100).toFixed(1) })}</span>}
+          </label>
+        )}
+        <button onClick={onClose} className="ml-auto text-white/70 hover:text-white p-1 rounded-full hover:bg-white/10">
+          <X size={24} />
+        </button>
+      </div>
+
+      {/* Stage */}
+      <div className="flex-1 flex gap-2 p-4 min-h-0">
+        {mode === 'side-by-side' && (
+          <>
+            <div {...paneProps}>{renderImage(left)}<span className="absolute top-2 left-2 text-xs bg-black/70 text-gold-400 px-2 py-0.5 rounded">A · {left.label}</span></div>
+            <div {...paneProps}>{renderImage(right)}<span className="absolute top-2 left-2 text-xs bg-black/70 text-gold-400 px-2 py-0.5 rounded">B · {right.label}</span></div>
+          </>
+        )}
+
+        {mode === 'slider' && (
+          <div {...paneProps}>
+            {renderImage(left)}
+            {renderImage(right, { clipPath: `inset(0 0 0 ${split}%)` })}
+            <div
+              className="absolute top-0 bottom-0 w-6 -ml-3 cursor-ew-resize flex justify-center z-10"
+              style={{ left: `${split}%` }}
+              onPointerDown={(e) => handlePointerDown(e, 'split')}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <div className="w-0.5 h-full bg-gold-400 shadow-[0_0_6px_rgba(0,0,0,0.8)]" />
+            </div>
+            <span className="absolute top-2 left-2 text-xs bg-black/70 text-gold-400 px-2 py-0.5 rounded">A · {left.label}</span>
+            <span className="absolute top-2 right-2 text-xs bg-black/70 text-gold-400 px-2 py-0.5 rounded">B · {right.label}</span>
+          </div>
+        )}
+
+        {mode === 'diff' && (
+          <div {...paneProps}>
+            {renderImage(left)}
+            {diff && renderImage({ key: 'heatmap', url: diff.heatmapUrl, label: 'diff' }, { opacity: heatmapOpacity, mixBlendMode: 'screen' })}
+            {isDiffLoading && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <Loader2 className="w-8 h-8 text-gold-400 animate-spin" />
+              </div>
+            )}
+            {diffFailed && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <span className="flex items-center gap-2 text-sm text-red-300 bg-black/70 px-3 py-2 rounded-lg">
+                  <AlertCircle size={16} />
+                  {t('compare.diffFailed')}
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
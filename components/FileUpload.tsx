@@ -1,6 +1,8 @@
-import React, { useCallback } from 'react';
-import { Upload, X, Plus } from 'lucide-react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Upload, X, Plus, SplitSquareHorizontal, Star } from 'lucide-react';
 import { UploadedFile } from '../types';
+import { loadUploadLimits, readUploadedFiles, getDroppedFiles, setDraggedImage } from '../services/imageFiles';
+import { t } from '../services/i18n';
 
 interface FileUploadProps {
   label: string;
@@ -9,49 +11,96 @@ interface FileUploadProps {
   onChange: (file: any) => void; // Using any to handle both single and array types based on usage
   accept?: string;
   multiple?: boolean;
+  onCompare?: (index: number) => void; // Shown on files that have a processed version
+  markPrimary?: boolean; // Multiple mode: the first file is the primary view and any file can be made primary
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ 
-  label, 
-  subLabel, 
-  value, 
-  onChange, 
-  accept = "image/*", 
-  multiple = false 
+export const FileUpload: React.FC<FileUploadProps> = ({
+  label,
+  subLabel,
+  value,
+  onChange,
+  accept = "image/*,.heic,.heif", // Not every platform files HEIC under image/*
+  multiple = false,
+  onCompare,
+  markPrimary = false
 }) => {
-  
-  const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (files && files.length > 0) {
-      const newFiles: UploadedFile[] = [];
-      let processedCount = 0;
-
-      Array.from(files).forEach((file: File) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          newFiles.push({
-            file,
-            previewUrl: URL.createObjectURL(file),
-            base64: reader.result as string,
-          });
-          processedCount++;
-          
-          if (processedCount === files.length) {
-            if (multiple) {
-              // Append to existing files if array, or create new array
-              const currentFiles = Array.isArray(value) ? value : [];
-              onChange([...currentFiles, ...newFiles]);
-            } else {
-              // Single file mode
-              onChange(newFiles[0]);
-            }
-          }
-        };
-        reader.readAsDataURL(file);
-      });
+  const inputRef = useRef<HTMLInputElement>(null);
+  const zoneRef = useRef<HTMLDivElement>(null);
+  const dragIndexRef = useRef<number | null>(null); // Thumbnail being reordered
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const addFiles = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+
+    // Single mode replaces the current file, so only multiple mode dedupes against it
+    const currentFiles = multiple && Array.isArray(value) ? value : [];
+    const { files: newFiles, duplicates, errors } = await readUploadedFiles(multiple ? files : files.slice(0, 1), loadUploadLimits(), currentFiles);
+    setNotice([...errors, ...(duplicates > 0 ? [t('upload.duplicatesSkipped', { count: duplicates })] : [])].join(t('common.listSeparator')) || null);
+    if (newFiles.length === 0) return;
+
+    if (multiple) {
+      onChange([...currentFiles, ...newFiles]);
+    } else {
+      onChange(newFiles[0]);
     }
   }, [onChange, multiple, value]);
 
+  const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []) as File[];
+    event.target.value = ''; // Lets the same file be picked again after removing it
+    addFiles(files);
+  }, [addFiles]);
+
+  // Ctrl+V goes to the upload under the pointer, or the focused one
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const zone = zoneRef.current;
+      if (!zone || !(zone.matches(':hover') || zone.contains(document.activeElement))) return;
+      const files = (Array.from(e.clipboardData?.files ?? []) as File[]).filter(f => f.type.startsWith('image/'));
+      if (files.length === 0) return;
+      e.preventDefault();
+      addFiles(files);
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [addFiles]);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!zoneRef.current?.contains(e.relatedTarget as Node)) setIsDragOver(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    if (dragIndexRef.current !== null) return; // A reorder released outside the thumbnails
+    addFiles(getDroppedFiles(e.dataTransfer));
+  };
+
+  const moveFile = useCallback((from: number, to: number) => {
+    if (!Array.isArray(value) || from === to) return;
+    const newFiles = [...value];
+    const [moved] = newFiles.splice(from, 1);
+    newFiles.splice(to, 0, moved);
+    onChange(newFiles);
+  }, [onChange, value]);
+
+  const handleThumbnailDrop = (e: React.DragEvent, index: number) => {
+    const from = dragIndexRef.current;
+    if (from === null) return; // Not a reorder: let the zone add the dropped files
+    e.preventDefault();
+    e.stopPropagation();
+    dragIndexRef.current = null;
+    setIsDragOver(false);
+    moveFile(from, index);
+  };
+
   const handleClear = useCallback((e: React.MouseEvent, index?: number) => {
     e.stopPropagation();
     e.preventDefault();
@@ -74,43 +123,87 @@ export const FileUpload: React.FC<FileUploadProps> = ({
         {label}
         {subLabel && <span className="text-xs text-gray-500 font-normal">({subLabel})</span>}
       </span>
-      
-      <div className={`
-        relative group cursor-pointer
+
+      <div
+        ref={zoneRef}
+        tabIndex={0}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') inputRef.current?.click(); }}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        className={`
+        relative group cursor-pointer outline-none
         border-2 border-dashed rounded-xl transition-all duration-200
-        ${!isValueEmpty ? 'border-gold-500/50 bg-luxury-charcoal' : 'border-gray-700 hover:border-gray-500 hover:bg-white/5'}
+        ${isDragOver ? 'border-gold-400 bg-gold-500/10' : !isValueEmpty ? 'border-gold-500/50 bg-luxury-charcoal focus:border-gold-400' : 'border-gray-700 hover:border-gray-500 hover:bg-white/5 focus:border-gray-500'}
         min-h-[12rem] flex flex-col items-center justify-center overflow-hidden p-2
       `}>
-        <input 
-          type="file" 
-          accept={accept} 
+        <input
+          ref={inputRef}
+          type="file"
+          accept={accept}
           multiple={multiple}
           onChange={handleFileChange}
-          className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+          className="hidden"
         />
 
         {!isValueEmpty ? (
           multiple && Array.isArray(value) ? (
-            <div className="grid grid-cols-2 gap-2 w-full h-full relative z-20 pointer-events-none">
-               {/* Display Grid for Multiple Files */}
+            <div className="grid grid-cols-2 gap-2 w-full h-full relative">
+               {/* Display Grid for Multiple Files; thumbnails drag to reorder */}
                {value.map((file, idx) => (
-                 <div key={idx} className="relative aspect-square bg-black/20 rounded-lg overflow-hidden border border-gray-700">
-                    <img src={file.previewUrl} alt={`preview ${idx}`} className="w-full h-full object-cover" />
-                    <button 
-                      onClick={(e) => {
-                        // We need to re-enable pointer events for this button since container has pointer-events-none
-                        // But actually input covers it. We need a way to click delete.
-                        // The input covers everything. To support delete, we need the input to NOT cover the delete buttons.
-                        // Simplified approach: Render delete buttons with higher z-index and pointer-events-auto
-                        handleClear(e, idx);
-                      }}
-                      className="absolute top-1 right-1 bg-red-500/80 hover:bg-red-600 text-white p-1 rounded-full pointer-events-auto z-30"
+                 <div
+                   key={file.hash}
+                   draggable
+                   onDragStart={(e) => {
+                     dragIndexRef.current = idx;
+                     setDraggedImage(e.dataTransfer, file.base64, file.file.name); // Also lets it be copied to another upload
+                   }}
+                   onDragEnd={() => { dragIndexRef.current = null; }}
+                   onDrop={(e) => handleThumbnailDrop(e, idx)}
+                   onClick={(e) => e.stopPropagation()}
+                   className="relative aspect-square bg-black/20 rounded-lg overflow-hidden border border-gray-700 cursor-grab active:cursor-grabbing"
+                 >
+                    <img src={file.processed ?? file.previewUrl} alt={`preview ${idx}`} draggable={false} className={`w-full h-full ${file.processed ? 'object-contain bg-white' : 'object-cover'}`} />
+                    {onCompare && file.processed && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          e.preventDefault();
+                          onCompare(idx);
+                        }}
+                        className="absolute top-1 left-1 bg-black/60 hover:bg-gold-600 text-white p-1 rounded-full z-30"
+                        title={t('upload.compare')}
+                      >
+                        <SplitSquareHorizontal size={12} />
+                      </button>
+                    )}
+                    {markPrimary && (idx === 0 ? (
+                      <span className="absolute bottom-1 left-1 flex items-center gap-0.5 bg-gold-500 text-black text-[10px] font-medium px-1.5 py-0.5 rounded">
+                        <Star size={10} fill="currentColor" />
+                        {t('upload.primary')}
+                      </span>
+                    ) : (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          moveFile(idx, 0);
+                        }}
+                        className="absolute bottom-1 left-1 bg-black/60 hover:bg-gold-600 text-white p-1 rounded-full z-30"
+                        title={t('upload.makePrimary')}
+                      >
+                        <Star size={12} />
+                      </button>
+                    ))}
+                    <button
+                      onClick={(e) => handleClear(e, idx)}
+                      className="absolute top-1 right-1 bg-red-500/80 hover:bg-red-600 text-white p-1 rounded-full z-30"
                     >
                       <X size={12} />
                     </button>
                  </div>
                ))}
-               {/* Add More Placeholder (visual only, clicking anywhere triggers input) */}
+               {/* Add More Placeholder: clicks fall through to the zone */}
                <div className="flex items-center justify-center aspect-square bg-white/5 rounded-lg border border-gray-700">
                  <Plus className="text-gray-500" />
                </div>
@@ -118,13 +211,14 @@ export const FileUpload: React.FC<FileUploadProps> = ({
           ) : (
             // Single File Display
             <>
-              <img 
-                src={(value as UploadedFile).previewUrl} 
-                alt="Preview" 
+              <img
+                src={(value as UploadedFile).previewUrl}
+                alt="Preview"
+                draggable={false}
                 className="absolute inset-0 w-full h-full object-contain p-2 z-0"
               />
               <div className="absolute top-2 right-2 z-20">
-                <button 
+                <button
                   onClick={(e) => handleClear(e)}
                   className="bg-black/50 hover:bg-red-500/80 text-white p-1.5 rounded-full backdrop-blur-sm transition-colors"
                 >
@@ -140,13 +234,17 @@ export const FileUpload: React.FC<FileUploadProps> = ({
             </div>
             <div className="space-y-1">
               <p className="text-sm font-medium text-gray-300">
-                {multiple ? "点击上传多张图片" : "点击或拖拽上传图片"}
+                {multiple ? t('upload.promptMultiple') : t('upload.prompt')}
               </p>
-              <p className="text-xs text-gray-500">支持 JPG, PNG 格式</p>
+              <p className="text-xs text-gray-500">{t('upload.formats')}</p>
             </div>
           </div>
         )}
       </div>
+      {multiple && Array.isArray(value) && value.length > 1 && (
+        <p className="text-xs text-gray-500">{markPrimary ? t('upload.reorderPrimaryHint') : t('upload.reorderHint')}</p>
+      )}
+      {notice && <p className="text-xs text-amber-300">{notice}</p>}
     </div>
   );
-};
\ No newline at end of file
+};
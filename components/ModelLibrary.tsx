@@ -0,0 +1,231 @@
+import React, { useRef, useState } from 'react';
+import { X, Plus, Trash2, Pencil, Search, Users, CheckCircle, Images } from 'lucide-react';
+import { GenerationBatch, LibraryModel, ModelFraming, ModelProfile, UploadedFile } from '../types';
+import { EMPTY_MODEL_FILTER, MODEL_FRAMINGS, RIGHTS_LABELS, RightsStatus, filterModels, getBatchesUsingModel, getModelTags, getRightsStatus, parseTags } from '../services/modelLibrary';
+import { loadUploadLimits, readUploadedFiles } from '../services/imageFiles';
+import { t } from '../services/i18n';
+
+interface ModelLibraryProps {
+  models: LibraryModel[];
+  history: GenerationBatch[]; // For per-model usage counts
+  selectedHash?: string; // Hash of the form's current model image
+  editId?: string; // Opens with this entry's attributes in edit mode
+  onAdd: (images: UploadedFile[]) => void;
+  onUpdate: (profile: ModelProfile) => void;
+  onDelete: (modelId: string) => void;
+  onSelect: (model: LibraryModel) => void;
+  onShowUsage: (modelId: string) => void; // Filters the gallery to batches using the model
+  onClose: () => void;
+}
+
+const inputClass = 'bg-black/50 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-white focus:border-gold-500 outline-none';
+
+const RIGHTS_TONE: Record<RightsStatus, string> = {
+  none: 'text-gray-500 border-gray-700',
+  valid: 'text-green-400 border-green-500/30',
+  expiring: 'text-amber-300 border-amber-500/40',
+  expired: 'text-red-400 border-red-500/40',
+};
+
+const ProfileEditor: React.FC<{ profile: ModelProfile, onSave: (profile: ModelProfile) => void, onCancel: () => void }> = ({ profile, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(profile);
+  const [tagText, setTagText] = useState(profile.tags.join(', '));
+  const update = (updates: Partial<ModelProfile>) => setDraft({ ...draft, ...updates });
+
+  return (
+    <div className="space-y-2 text-xs">
+      <input value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder={t('model.field.name')} className={`${inputClass} w-full`} />
+      <div className="grid grid-cols-2 gap-2">
+        <input value={draft.skinTone} onChange={(e) => update({ skinTone: e.target.value })} placeholder={t('model.field.skinTone')} className={inputClass} />
+        <input value={draft.hair} onChange={(e) => update({ hair: e.target.value })} placeholder={t('model.field.hair')} className={inputClass} />
+        <input value={draft.pose} onChange={(e) => update({ pose: e.target.value })} placeholder={t('model.field.pose')} className={inputClass} />
+        <select value={draft.framing} onChange={(e) => update({ framing: e.target.value as ModelFraming })} className={inputClass}>
+          {Object.entries(MODEL_FRAMINGS).map(([id, label]) => <option key={id} value={id}>{t(label)}</option>)}
+        </select>
+      </div>
+      <label className="flex items-center gap-2 text-gray-400">
+        {t('model.field.rightsExpiry')}
+        <input type="date" value={draft.rightsExpiry ?? ''} onChange={(e) => update({ rightsExpiry: e.target.value || undefined })} className={`${inputClass} flex-1`} />
+      </label>
+      <input value={tagText} onChange={(e) => setTagText(e.target.value)} placeholder={t('model.field.tags')} className={`${inputClass} w-full`} />
+      <div className="flex justify-end gap-2 pt-1">
+        <button onClick={onCancel} className="px-2 py-1 text-gray-400 hover:text-white">{t('common.cancel')}</button>
+        <button
+          onClick={() => onSave({ ...draft, name: draft.name.trim() || profile.name, tags: parseTags(tagText) })}
+          className="px-3 py-1 rounded bg-gold-600 hover:bg-gold-500 text-white"
+        >
+          {t('common.save')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const ModelLibrary: React.FC<ModelLibraryProps> = ({ models, history, selectedHash, editId, onAdd, onUpdate, onDelete, onSelect, onShowUsage, onClose }) => {
+  const [filter, setFilter] = useState(EMPTY_MODEL_FILTER);
+  const [editingId, setEditingId] = useState<string | null>(editId ?? null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const visible = filterModels(models, filter);
+  const tags = getModelTags(models);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []) as File[];
+    e.target.value = '';
+    if (files.length === 0) return;
+    const { files: uploaded, duplicates, errors } = await readUploadedFiles(files, loadUploadLimits(), models.map(m => m.image));
+    setNotice([...errors, ...(duplicates > 0 ? [t('model.duplicates', { count: duplicates })] : [])].join(t('common.listSeparator')) || null);
+    if (uploaded.length > 0) onAdd(uploaded);
+  };
+
+  const handleDelete = (model: LibraryModel) => {
+    const used = getBatchesUsingModel(history, model.profile.id).length;
+    const message = used > 0
+      ? t('model.deleteConfirmUsed', { name: model.profile.name, count: used })
+      : t('model.deleteConfirm', { name: model.profile.name });
+    if (window.confirm(message)) onDelete(model.profile.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 flex items-center justify-center p-4 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-luxury-charcoal border border-gray-800 rounded-2xl w-full max-w-5xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-800">
+          <h2 className="text-lg font-serif text-white flex items-center gap-2">
+            <Users size={18} className="text-gold-400" />
+            {t('model.title')}
+            <span className="text-xs font-sans text-gray-500">{t('model.count', { count: models.length })}</span>
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs bg-gold-600 hover:bg-gold-500 text-white"
+            >
+              <Plus size={14} />
+              {t('model.add')}
+            </button>
+            <input ref={fileInputRef} type="file" accept="image/*,.heic,.heif" multiple className="hidden" onChange={handleFiles} />
+            <button onClick={onClose} className="p-1.5 text-gray-500 hover:text-white">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-6 py-3 border-b border-gray-800 flex flex-wrap items-center gap-2">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-500" />
+            <input
+              value={filter.query}
+              onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+              placeholder={t('model.searchPlaceholder')}
+              className={`${inputClass} w-full pl-7`}
+            />
+          </div>
+          <select value={filter.framing} onChange={(e) => setFilter({ ...filter, framing: e.target.value as ModelFraming | 'all' })} className={inputClass}>
+            <option value="all">{t('model.filter.allFramings')}</option>
+            {Object.entries(MODEL_FRAMINGS).map(([id, label]) => <option key={id} value={id}>{t(label)}</option>)}
+          </select>
+          <select value={filter.rights} onChange={(e) => setFilter({ ...filter, rights: e.target.value as RightsStatus | 'all' })} className={inputClass}>
+            <option value="all">{t('model.filter.allRights')}</option>
+            {Object.entries(RIGHTS_LABELS).map(([id, label]) => <option key={id} value={id}>{t(label)}</option>)}
+          </select>
+          {tags.length > 0 && (
+            <select value={filter.tag} onChange={(e) => setFilter({ ...filter, tag: e.target.value })} className={inputClass}>
+              <option value="">{t('model.filter.allTags')}</option>
+              {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+            </select>
+          )}
+        </div>
+        {notice && <p className="px-6 pt-3 text-xs text-amber-300">{notice}</p>}
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {models.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-12">{t('model.empty')}</p>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-12">{t('model.noMatches')}</p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+              {visible.map(model => {
+                const { profile } = model;
+                const rights = getRightsStatus(profile);
+                const usage = getBatchesUsingModel(history, profile.id).length;
+                const isSelected = model.image.hash === selectedHash;
+                return (
+                  <div key={profile.id} className={`rounded-xl border bg-black/20 overflow-hidden flex flex-col ${isSelected ? 'border-gold-500' : 'border-gray-800'}`}>
+                    <div className="relative aspect-[3/4] bg-black/40">
+                      <img src={model.image.previewUrl} alt={profile.name} className="w-full h-full object-cover" />
+                      {isSelected && (
+                        <span className="absolute top-2 left-2 flex items-center gap-1 bg-gold-500 text-black text-[10px] font-medium px-1.5 py-0.5 rounded">
+                          <CheckCircle size={10} />
+                          {t('model.inUse')}
+                        </span>
+                      )}
+                    </div>
+                    <div className="p-3 space-y-2 flex-1 flex flex-col">
+                      {editingId === profile.id ? (
+                        <ProfileEditor
+                          profile={profile}
+                          onSave={(next) => { onUpdate(next); setEditingId(null); }}
+                          onCancel={() => setEditingId(null)}
+                        />
+                      ) : (
+                        <>
+                          <div className="flex items-start justify-between gap-2">
+                            <p className="text-sm text-white truncate" title={profile.name}>{profile.name}</p>
+                            <div className="flex shrink-0">
+                              <button onClick={() => setEditingId(profile.id)} className="p-1 text-gray-500 hover:text-gold-400" title={t('model.edit')}>
+                                <Pencil size={12} />
+                              </button>
+                              <button onClick={() => handleDelete(model)} className="p-1 text-gray-500 hover:text-red-400" title={t('common.delete')}>
+                                <Trash2 size={12} />
+                              </button>
+                            </div>
+                          </div>
+                          <p className="text-[10px] text-gray-400">
+                            {[t(MODEL_FRAMINGS[profile.framing]), profile.skinTone, profile.hair, profile.pose].filter(Boolean).join(' · ')}
+                          </p>
+                          <span className={`self-start text-[10px] px-1.5 py-0.5 rounded border ${RIGHTS_TONE[rights]}`}>
+                            {t(RIGHTS_LABELS[rights])}{profile.rightsExpiry && ` · ${profile.rightsExpiry}`}
+                          </span>
+                          {profile.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {profile.tags.map(tag => (
+                                <button
+                                  key={tag}
+                                  onClick={() => setFilter({ ...filter, tag })}
+                                  className="text-[10px] px-1.5 py-0.5 rounded bg-gray-800 text-gray-400 hover:text-gold-400"
+                                >
+                                  {tag}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                          <div className="flex items-center gap-2 pt-1 mt-auto">
+                            <button
+                              onClick={() => onShowUsage(profile.id)}
+                              disabled={usage === 0}
+                              className="flex items-center gap-1 text-[10px] text-gray-500 hover:text-gold-400 disabled:hover:text-gray-500"
+                              title={t('model.showUsage')}
+                            >
+                              <Images size={12} />
+                              {t('model.usage', { count: usage })}
+                            </button>
+                            <button
+                              onClick={() => onSelect(model)}
+                              className="ml-auto px-2 py-1 rounded text-[10px] border border-gold-500/50 text-gold-400 hover:bg-gold-500/10"
+                            >
+                              {t('model.use')}
+                            </button>
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
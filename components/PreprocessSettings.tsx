@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Wand2, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { PreprocessBackground, PreprocessOptions } from '../services/imagePreprocess';
+import { MessageKey, t } from '../services/i18n';
+
+interface PreprocessSettingsProps {
+  options: PreprocessOptions;
+  isProcessing: boolean;
+  onChange: (options: PreprocessOptions) => void;
+}
+
+const BACKGROUNDS: { id: PreprocessBackground, label: MessageKey }[] = [
+  { id: 'white', label: 'preprocess.background.white' },
+  { id: 'transparent', label: 'preprocess.background.transparent' },
+  { id: 'keep', label: 'preprocess.background.keep' },
+];
+
+const LONG_EDGES = [1024, 1536, 2048, 0];
+
+const selectClass = 'bg-black/50 border border-gray-700 rounded px-2 py-1 text-xs text-white focus:border-gold-500 outline-none';
+
+export const PreprocessSettings: React.FC<PreprocessSettingsProps> = ({ options, isProcessing, onChange }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const update = (updates: Partial<PreprocessOptions>) => onChange({ ...options, ...updates });
+
+  return (
+    <div className="-mt-3 rounded-lg border border-gray-800 bg-black/20 text-xs text-gray-400">
+      <div className="flex items-center gap-2 px-3 py-2">
+        <label className="flex items-center gap-2 flex-1 text-gray-300 cursor-pointer">
+          <input type="checkbox" checked={options.enabled} onChange={(e) => update({ enabled: e.target.checked })} className="accent-gold-500" />
+          <Wand2 size={12} className="text-gold-400" />
+          {t('preprocess.title')}
+        </label>
+        {isProcessing && <Loader2 size={12} className="animate-spin text-gold-400" />}
+        {options.enabled && (
+          <button onClick={() => setIsExpanded(!isExpanded)} className="p-0.5 text-gray-500 hover:text-white" title={t('preprocess.settings')}>
+            {isExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+          </button>
+        )}
+      </div>
+      {options.enabled && isExpanded && (
+        <div className="px-3 pb-3 grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2">
+          <span>{t('preprocess.background')}</span>
+          <select value={options.background} onChange={(e) => update({ background: e.target.value as PreprocessBackground })} className={selectClass}>
+            {BACKGROUNDS.map(b => <option key={b.id} value={b.id}>{t(b.label)}</option>)}
+          </select>
+          <span>{t('preprocess.tolerance')}</span>
+          <input
+            type="range"
+            min={10}
+            max={80}
+            value={options.tolerance}
+            onChange={(e) => update({ tolerance: Number(e.target.value) })}
+            className="accent-gold-500"
+          />
+          <span>{t('preprocess.autoCrop')}</span>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={options.autoCrop} onChange={(e) => update({ autoCrop: e.target.checked })} className="accent-gold-500" />
+            {t('preprocess.padding')}
+            <select value={options.padding} onChange={(e) => update({ padding: Number(e.target.value) })} disabled={!options.autoCrop} className={selectClass}>
+              {[0.04, 0.08, 0.15].map(p => <option key={p} value={p}>{Math.round(p * 100)}%</option>)}
+            </select>
+          </label>
+          <span>{t('preprocess.longEdge')}</span>
+          <select value={options.longEdge} onChange={(e) => update({ longEdge: Number(e.target.value) })} className={selectClass}>
+            {LONG_EDGES.map(edge => <option key={edge} value={edge}>{edge > 0 ? `${edge}px` : t('preprocess.originalSize')}</option>)}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,229 @@
+import React, { useRef, useState } from 'react';
+import { X, Plus, Trash2, Copy, ChevronUp, ChevronDown, Download, Import, Lock, ListChecks } from 'lucide-react';
+import { AppMode, AspectRatio, ImageResolution, JewelryCategory, ShotDefinition, ShotPreset } from '../types';
+import { MODE_LABELS, SCENE_PLACEHOLDER, createPreset, createShot, duplicatePreset, getEnabledShots, getPresetName, getPresetShots, parsePreset, serializePreset } from '../services/shotPresets';
+import { downloadBlob } from '../services/batchExport';
+import { MAX_CANDIDATES } from '../services/candidates';
+import { getCategoryLabel } from '../services/categories';
+import { t } from '../services/i18n';
+
+interface PresetEditorProps {
+  presets: ShotPreset[];
+  mode: AppMode;
+  category: JewelryCategory; // Resolves category-following presets
+  selectedId: string;
+  onSelect: (presetId: string) => void;
+  onChange: (presets: ShotPreset[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-black/50 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-white focus:border-gold-500 outline-none';
+
+export const PresetEditor: React.FC<PresetEditorProps> = ({ presets, mode, category, selectedId, onSelect, onChange, onClose }) => {
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const modePresets = presets.filter(p => p.mode === mode);
+  const preset = modePresets.find(p => p.id === selectedId) ?? modePresets[0];
+  const readOnly = !!preset.builtIn;
+  const shots = getPresetShots(preset, category);
+
+  const updatePreset = (updates: Partial<ShotPreset>) => {
+    onChange(presets.map(p => p.id === preset.id ? { ...p, ...updates } : p));
+  };
+
+  const updateShot = (shotId: string, updates: Partial<ShotDefinition>) => {
+    updatePreset({ shots: preset.shots.map(s => s.id === shotId ? { ...s, ...updates } : s) });
+  };
+
+  const moveShot = (index: number, offset: number) => {
+    const shots = [...preset.shots];
+    const [shot] = shots.splice(index, 1);
+    shots.splice(index + offset, 0, shot);
+    updatePreset({ shots });
+  };
+
+  const addPreset = (next: ShotPreset) => {
+    onChange([...presets, next]);
+    onSelect(next.id);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(t('presetEditor.deleteConfirm', { name: getPresetName(preset) }))) return;
+    onChange(presets.filter(p => p.id !== preset.id));
+    onSelect(modePresets.find(p => p.id !== preset.id)!.id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePreset(await file.text());
+      if (imported.mode !== mode) {
+        setError(t('presetEditor.wrongMode', { mode: t(MODE_LABELS[imported.mode]) }));
+        return;
+      }
+      setError(null);
+      addPreset(imported);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('presetEditor.importFailed'));
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([serializePreset(preset, category)], { type: 'application/json' }), `${getPresetName(preset)}.preset.json`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 flex items-center justify-center p-4 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-luxury-charcoal border border-gray-800 rounded-2xl w-full max-w-4xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-800">
+          <h2 className="text-lg font-serif text-white flex items-center gap-2">
+            <ListChecks size={18} className="text-gold-400" />
+            {t('presetEditor.title')} · {t(MODE_LABELS[mode])}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white p-1 rounded-full hover:bg-white/10">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Preset list */}
+          <aside className="w-56 border-r border-gray-800 p-3 space-y-1 overflow-y-auto">
+            {modePresets.map(p => (
+              <button
+                key={p.id}
+                onClick={() => onSelect(p.id)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-xs flex items-center gap-2 ${p.id === preset.id ? 'bg-gold-500/10 text-gold-400 border border-gold-500/40' : 'text-gray-300 hover:bg-white/5 border border-transparent'}`}
+              >
+                {p.builtIn && <Lock size={10} className="shrink-0" />}
+                <span className="flex-1 truncate">{getPresetName(p)}</span>
+                <span className="text-gray-500">{getEnabledShots(p, category).length}</span>
+              </button>
+            ))}
+            <div className="pt-2 space-y-1 border-t border-gray-800">
+              <button onClick={() => addPreset(createPreset(mode, t('presetEditor.newPresetName')))} className="w-full flex items-center gap-1.5 px-3 py-1.5 text-xs text-gold-400 hover:text-gold-300">
+                <Plus size={12} />
+                {t('presetEditor.newPreset')}
+              </button>
+              <button onClick={() => importInputRef.current?.click()} className="w-full flex items-center gap-1.5 px-3 py-1.5 text-xs text-gray-400 hover:text-white">
+                <Import size={12} />
+                {t('presetEditor.importJson')}
+              </button>
+              <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+            </div>
+          </aside>
+
+          {/* Preset detail */}
+          <section className="flex-1 p-4 space-y-3 overflow-y-auto">
+            <div className="flex items-center gap-2">
+              <input
+                value={getPresetName(preset)}
+                onChange={(e) => updatePreset({ name: e.target.value })}
+                disabled={readOnly}
+                className={`${inputClass} flex-1 text-sm disabled:opacity-60`}
+              />
+              <button onClick={() => addPreset(duplicatePreset(preset, category))} className="p-2 rounded-lg text-gray-400 hover:text-gold-400 hover:bg-white/5" title={t('presetEditor.duplicate')}>
+                <Copy size={14} />
+              </button>
+              <button onClick={handleExport} className="p-2 rounded-lg text-gray-400 hover:text-gold-400 hover:bg-white/5" title={t('presetEditor.exportJson')}>
+                <Download size={14} />
+              </button>
+              {!readOnly && (
+                <button onClick={handleDelete} className="p-2 rounded-lg text-gray-400 hover:text-red-400 hover:bg-white/5" title={t('presetEditor.delete')}>
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+            {readOnly && <p className="text-[10px] text-gray-500">{t('presetEditor.readOnlyHint')}</p>}
+            {preset.followsCategory && <p className="text-[10px] text-gray-500">{t('presetEditor.followsCategoryHint', { category: getCategoryLabel(category) })}</p>}
+            {mode === 'scene' && <p className="text-[10px] text-gray-500">{t('presetEditor.sceneHint', { placeholder: SCENE_PLACEHOLDER })}</p>}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+
+            <ol className="space-y-2">
+              {shots.map((shot, index) => (
+                <li key={shot.id} className={`rounded-lg border p-2 space-y-2 ${shot.enabled ? 'border-gray-700 bg-black/20' : 'border-gray-800 opacity-50'}`}>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={shot.enabled}
+                      disabled={readOnly}
+                      onChange={(e) => updateShot(shot.id, { enabled: e.target.checked })}
+                      className="accent-gold-500"
+                      title={t('presetEditor.enabled')}
+                    />
+                    <span className="text-[10px] text-gray-500 w-4">{index + 1}</span>
+                    <input
+                      value={shot.label}
+                      disabled={readOnly}
+                      onChange={(e) => updateShot(shot.id, { label: e.target.value })}
+                      placeholder={t('presetEditor.shotName')}
+                      className={`${inputClass} flex-1`}
+                    />
+                    <select
+                      value={shot.aspectRatio ?? ''}
+                      disabled={readOnly}
+                      onChange={(e) => updateShot(shot.id, { aspectRatio: (e.target.value || undefined) as AspectRatio | undefined })}
+                      className={inputClass}
+                      title={t('presetEditor.aspectRatio')}
+                    >
+                      <option value="">{t('presetEditor.aspectFromForm')}</option>
+                      {(['3:4', '9:16', '1:1'] as AspectRatio[]).map(r => <option key={r} value={r}>{r}</option>)}
+                    </select>
+                    <select
+                      value={shot.resolution ?? '2K'}
+                      disabled={readOnly}
+                      onChange={(e) => updateShot(shot.id, { resolution: e.target.value as ImageResolution })}
+                      className={inputClass}
+                      title={t('presetEditor.resolution')}
+                    >
+                      <option value="2K">2K</option>
+                      <option value="4K">4K</option>
+                    </select>
+                    <select
+                      value={shot.candidates ?? 1}
+                      disabled={readOnly}
+                      onChange={(e) => updateShot(shot.id, { candidates: Number(e.target.value) > 1 ? Number(e.target.value) : undefined })}
+                      className={inputClass}
+                      title={t('presetEditor.candidates')}
+                    >
+                      {Array.from({ length: MAX_CANDIDATES }, (_, i) => i + 1).map(count => (
+                        <option key={count} value={count}>{count === 1 ? t('presetEditor.singleCandidate') : t('presetEditor.candidateCount', { count })}</option>
+                      ))}
+                    </select>
+                    {!readOnly && (
+                      <div className="flex items-center">
+                        <button onClick={() => moveShot(index, -1)} disabled={index === 0} className="p-1 text-gray-500 hover:text-white disabled:opacity-30" title={t('common.moveUp')}>
+                          <ChevronUp size={14} />
+                        </button>
+                        <button onClick={() => moveShot(index, 1)} disabled={index === shots.length - 1} className="p-1 text-gray-500 hover:text-white disabled:opacity-30" title={t('common.moveDown')}>
+                          <ChevronDown size={14} />
+                        </button>
+                        <button onClick={() => updatePreset({ shots: preset.shots.filter(s => s.id !== shot.id) })} className="p-1 text-gray-500 hover:text-red-400" title={t('presetEditor.deleteShot')}>
+                          <Trash2 size={12} />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  <textarea
+                    value={shot.prompt}
+                    disabled={readOnly}
+                    onChange={(e) => updateShot(shot.id, { prompt: e.target.value })}
+                    placeholder={mode === 'try-on' ? t('presetEditor.shotPromptPlaceholder') : `${SCENE_PLACEHOLDER} (Variation in angle)`}
+                    className={`${inputClass} w-full h-14 resize-none leading-relaxed`}
+                  />
+                </li>
+              ))}
+            </ol>
+            {!readOnly && (
+              <button onClick={() => updatePreset({ shots: [...preset.shots, createShot()] })} className="flex items-center gap-1.5 text-xs text-gold-400 hover:text-gold-300">
+                <Plus size={12} />
+                {t('presetEditor.addShot')}
+              </button>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { X, Trash2, Pencil, Search, Package, Save, Upload, Images, CheckCircle, RefreshCw } from 'lucide-react';
+import { Dimensions, GenerationBatch, JewelryCategory, LibraryProduct, ProductProfile } from '../types';
+import { JEWELRY_CATEGORIES, getCategoryLabel } from '../services/categories';
+import { filterProducts } from '../services/productLibrary';
+import { t } from '../services/i18n';
+
+interface ProductLibraryProps {
+  products: LibraryProduct[];
+  history: GenerationBatch[]; // For per-SKU usage counts
+  activeSku?: string; // SKU currently loaded in the form
+  canSaveForm: boolean; // The form has product images
+  onSaveForm: (sku: string, name: string, materialNotes: string) => void; // Creates or overwrites the SKU
+  onUpdate: (profile: ProductProfile) => void;
+  onReplaceImages: (sku: string) => void; // Takes the form's current photos
+  onDelete: (sku: string) => void;
+  onLoad: (product: LibraryProduct) => void;
+  onShowUsage: (sku: string) => void; // Filters the gallery to the SKU's batches
+  onClose: () => void;
+}
+
+const inputClass = 'bg-black/50 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-white focus:border-gold-500 outline-none';
+
+const formatDimensions = (d: Dimensions) => d.width && d.height ? `${d.width} x ${d.height} ${d.unit}` : t('product.noDimensions');
+
+const ProfileEditor: React.FC<{ profile: ProductProfile, onSave: (profile: ProductProfile) => void, onCancel: () => void }> = ({ profile, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(profile);
+  const update = (updates: Partial<ProductProfile>) => setDraft({ ...draft, ...updates });
+  const updateDimensions = (updates: Partial<Dimensions>) => update({ dimensions: { ...draft.dimensions, ...updates } });
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="grid grid-cols-2 gap-2">
+        <input value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder={t('product.field.name')} className={inputClass} />
+        <select value={draft.category} onChange={(e) => update({ category: e.target.value as JewelryCategory })} className={inputClass}>
+          {JEWELRY_CATEGORIES.map(c => <option key={c} value={c}>{getCategoryLabel(c)}</option>)}
+        </select>
+      </div>
+      <div className="flex gap-2">
+        <input type="number" placeholder={t('dimensions.width')} value={draft.dimensions.width} onChange={(e) => updateDimensions({ width: e.target.value })} className={`${inputClass} w-1/3`} />
+        <input type="number" placeholder={t('dimensions.height')} value={draft.dimensions.height} onChange={(e) => updateDimensions({ height: e.target.value })} className={`${inputClass} w-1/3`} />
+        <select value={draft.dimensions.unit} onChange={(e) => updateDimensions({ unit: e.target.value as Dimensions['unit'] })} className={`${inputClass} w-1/3`}>
+          <option value="mm">mm</option>
+          <option value="cm">cm</option>
+        </select>
+      </div>
+      <textarea value={draft.instructions} onChange={(e) => update({ instructions: e.target.value })} placeholder={t('product.field.instructions')} className={`${inputClass} w-full h-14 resize-none`} />
+      <textarea value={draft.materialNotes} onChange={(e) => update({ materialNotes: e.target.value })} placeholder={t('product.field.materialNotes')} className={`${inputClass} w-full h-14 resize-none`} />
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-2 py-1 text-gray-400 hover:text-white">{t('common.cancel')}</button>
+        <button
+          onClick={() => onSave({ ...draft, name: draft.name.trim(), updatedAt: Date.now() })}
+          className="px-3 py-1 rounded bg-gold-600 hover:bg-gold-500 text-white"
+        >
+          {t('common.save')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const ProductLibrary: React.FC<ProductLibraryProps> = ({ products, history, activeSku, canSaveForm, onSaveForm, onUpdate, onReplaceImages, onDelete, onLoad, onShowUsage, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<JewelryCategory | 'all'>('all');
+  const [editingSku, setEditingSku] = useState<string | null>(null);
+  const [newSku, setNewSku] = useState(activeSku ?? '');
+  const [newName, setNewName] = useState('');
+  const [newNotes, setNewNotes] = useState('');
+  const visible = filterProducts(products, query, category);
+
+  const handleSaveForm = () => {
+    const sku = newSku.trim();
+    if (!sku) return;
+    if (products.some(p => p.profile.sku === sku) && !window.confirm(t('product.overwriteConfirm', { sku }))) return;
+    onSaveForm(sku, newName.trim(), newNotes.trim());
+    setNewName('');
+    setNewNotes('');
+  };
+
+  const handleDelete = (sku: string) => {
+    if (window.confirm(t('product.deleteConfirm', { sku }))) onDelete(sku);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 flex items-center justify-center p-4 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-luxury-charcoal border border-gray-800 rounded-2xl w-full max-w-4xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-800">
+          <h2 className="text-lg font-serif text-white flex items-center gap-2">
+            <Package size={18} className="text-gold-400" />
+            {t('product.title')}
+            <span className="text-xs font-sans text-gray-500">{t('product.count', { count: products.length })}</span>
+          </h2>
+          <button onClick={onClose} className="p-1.5 text-gray-500 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Save the form as a SKU */}
+        <div className="px-6 py-3 border-b border-gray-800 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <input value={newSku} onChange={(e) => setNewSku(e.target.value)} placeholder={t('product.field.sku')} className={`${inputClass} w-32`} />
+            <input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder={t('product.field.nameOptional')} className={`${inputClass} flex-1 min-w-[8rem]`} />
+            <input value={newNotes} onChange={(e) => setNewNotes(e.target.value)} placeholder={t('product.field.materialNotesOptional')} className={`${inputClass} flex-1 min-w-[8rem]`} />
+            <button
+              onClick={handleSaveForm}
+              disabled={!canSaveForm || !newSku.trim()}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs bg-gold-600 hover:bg-gold-500 text-white disabled:opacity-40 disabled:hover:bg-gold-600"
+            >
+              <Save size={14} />
+              {t('product.saveForm')}
+            </button>
+          </div>
+          <p className="text-[10px] text-gray-500">
+            {canSaveForm ? t('product.saveFormHint') : t('product.saveFormDisabled')}
+          </p>
+        </div>
+
+        <div className="px-6 py-3 border-b border-gray-800 flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-500" />
+            <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder={t('product.searchPlaceholder')} className={`${inputClass} w-full pl-7`} />
+          </div>
+          <select value={category} onChange={(e) => setCategory(e.target.value as JewelryCategory | 'all')} className={inputClass}>
+            <option value="all">{t('product.filter.allCategories')}</option>
+            {JEWELRY_CATEGORIES.map(c => <option key={c} value={c}>{getCategoryLabel(c)}</option>)}
+          </select>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {products.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-12">{t('product.empty')}</p>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-12">{t('product.noMatches')}</p>
+          ) : visible.map(product => {
+            const { profile } = product;
+            const usage = history.filter(b => b.sku === profile.sku).length;
+            const isActive = profile.sku === activeSku;
+            return (
+              <div key={profile.sku} className={`flex gap-4 rounded-xl border bg-black/20 p-3 ${isActive ? 'border-gold-500' : 'border-gray-800'}`}>
+                <img src={product.productImages[0]?.previewUrl} alt={profile.sku} className="w-20 h-20 shrink-0 object-contain bg-white rounded-lg" />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-white font-medium">{profile.sku}</span>
+                    {profile.name && <span className="text-xs text-gray-400 truncate">{profile.name}</span>}
+                    {isActive && (
+                      <span className="flex items-center gap-1 text-[10px] text-gold-400">
+                        <CheckCircle size={10} />
+                        {t('product.loaded')}
+                      </span>
+                    )}
+                  </div>
+                  {editingSku === profile.sku ? (
+                    <ProfileEditor
+                      profile={profile}
+                      onSave={(next) => { onUpdate(next); setEditingSku(null); }}
+                      onCancel={() => setEditingSku(null)}
+                    />
+                  ) : (
+                    <>
+                      <p className="text-[10px] text-gray-400">
+                        {getCategoryLabel(profile.category)} · {formatDimensions(profile.dimensions)} · {t('product.imageCounts', { product: product.productImages.length, reference: product.referenceImages.length })}
+                      </p>
+                      {profile.materialNotes && <p className="text-[10px] text-gray-500 truncate">{t('product.materialNotes', { notes: profile.materialNotes })}</p>}
+                      {profile.instructions && <p className="text-[10px] text-gray-500 truncate">{t('product.instructions', { instructions: profile.instructions })}</p>}
+                      <div className="flex items-center gap-3 pt-1">
+                        <button
+                          onClick={() => onShowUsage(profile.sku)}
+                          disabled={usage === 0}
+                          className="flex items-center gap-1 text-[10px] text-gray-500 hover:text-gold-400 disabled:hover:text-gray-500"
+                          title={t('product.showUsage')}
+                        >
+                          <Images size={12} />
+                          {t('model.usage', { count: usage })}
+                        </button>
+                        <button onClick={() => setEditingSku(profile.sku)} className="flex items-center gap-1 text-[10px] text-gray-500 hover:text-gold-400">
+                          <Pencil size={12} />
+                          {t('common.edit')}
+                        </button>
+                        <button
+                          onClick={() => onReplaceImages(profile.sku)}
+                          disabled={!canSaveForm}
+                          className="flex items-center gap-1 text-[10px] text-gray-500 hover:text-gold-400 disabled:opacity-40 disabled:hover:text-gray-500"
+                          title={t('product.replaceImagesHint')}
+                        >
+                          <RefreshCw size={12} />
+                          {t('product.replaceImages')}
+                        </button>
+                        <button onClick={() => handleDelete(profile.sku)} className="flex items-center gap-1 text-[10px] text-gray-500 hover:text-red-400">
+                          <Trash2 size={12} />
+                          {t('common.delete')}
+                        </button>
+                        <button
+                          onClick={() => onLoad(product)}
+                          className="ml-auto flex items-center gap-1 px-2 py-1 rounded text-[10px] border border-gold-500/50 text-gold-400 hover:bg-gold-500/10"
+                        >
+                          <Upload size={12} />
+                          {t('product.load')}
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
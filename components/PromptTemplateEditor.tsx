@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { X, ScrollText, Save, CheckCircle, AlertTriangle } from 'lucide-react';
+import {
+  DEFAULT_PROMPT_TEMPLATES, PromptTemplateId, TemplateValues, formatTemplateVersion, getActiveTemplateVersion,
+  getTemplateDefinition, listTemplateVersions, renderTemplate, saveTemplateVersion, setActiveTemplateVersion, validateTemplate,
+} from '../services/promptTemplates';
+import { formatDateTime, t } from '../services/i18n';
+
+interface PromptTemplateEditorProps {
+  onClose: () => void;
+}
+
+const inputClass = 'bg-black/50 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-white focus:border-gold-500 outline-none';
+
+const formatDate = (ts: number) => formatDateTime(ts, { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ onClose }) => {
+  const [templateId, setTemplateId] = useState<PromptTemplateId>(DEFAULT_PROMPT_TEMPLATES[0].id);
+  const [viewedVersion, setViewedVersion] = useState(() => getActiveTemplateVersion(templateId).version);
+  const [draft, setDraft] = useState(() => getActiveTemplateVersion(templateId).body);
+  const [note, setNote] = useState('');
+  const [samples, setSamples] = useState<TemplateValues>({});
+  const [, setRevision] = useState(0); // Bumped when the module-level active version changes
+
+  const definition = getTemplateDefinition(templateId);
+  const versions = listTemplateVersions(templateId);
+  const active = getActiveTemplateVersion(templateId);
+  const viewed = versions.find(v => v.version === viewedVersion) ?? active;
+  const isDirty = draft !== viewed.body;
+  const problems = validateTemplate(draft, definition);
+  const values: TemplateValues = Object.fromEntries(definition.variables.map(v => [v.name, samples[v.name] ?? v.sample]));
+
+  const selectTemplate = (id: PromptTemplateId) => {
+    if (isDirty && !window.confirm(t('templateEditor.discardConfirm'))) return;
+    const version = getActiveTemplateVersion(id);
+    setTemplateId(id);
+    setViewedVersion(version.version);
+    setDraft(version.body);
+    setSamples({});
+    setNote('');
+  };
+
+  const selectVersion = (version: number) => {
+    if (isDirty && !window.confirm(t('templateEditor.discardConfirm'))) return;
+    setViewedVersion(version);
+    setDraft(versions.find(v => v.version === version)!.body);
+  };
+
+  const handleActivate = () => {
+    setActiveTemplateVersion(templateId, viewed.version);
+    setRevision(r => r + 1);
+  };
+
+  const handleSave = () => {
+    const saved = saveTemplateVersion(templateId, draft, note.trim());
+    setViewedVersion(saved.version);
+    setNote('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 flex items-center justify-center p-4 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-luxury-charcoal border border-gray-800 rounded-2xl w-full max-w-6xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-800">
+          <h2 className="text-lg font-serif text-white flex items-center gap-2">
+            <ScrollText size={18} className="text-gold-400" />
+            {t('templateEditor.title')}
+          </h2>
+          <button onClick={onClose} className="p-1.5 text-gray-500 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <ul className="w-44 shrink-0 border-r border-gray-800 p-3 space-y-1 overflow-y-auto">
+            {DEFAULT_PROMPT_TEMPLATES.map(template => (
+              <li key={template.id}>
+                <button
+                  onClick={() => selectTemplate(template.id)}
+                  className={`w-full text-left px-2 py-1.5 rounded-lg text-xs ${template.id === templateId ? 'bg-gold-500/20 text-gold-400' : 'text-gray-300 hover:bg-white/5'}`}
+                >
+                  {t(template.label)}
+                  <span className="block text-[10px] text-gray-500 font-mono">{formatTemplateVersion(template.id, getActiveTemplateVersion(template.id).version)}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex-1 min-w-0 overflow-y-auto p-6 space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <select value={viewed.version} onChange={(e) => selectVersion(Number(e.target.value))} className={inputClass}>
+                {versions.map(v => (
+                  <option key={v.version} value={v.version}>
+                    v{v.version}{v.createdAt === 0 ? ` · ${t('templateEditor.builtIn')}` : v.note && ` · ${v.note}`}{v.createdAt > 0 && ` · ${formatDate(v.createdAt)}`}
+                  </option>
+                ))}
+              </select>
+              {viewed.version === active.version ? (
+                <span className="flex items-center gap-1 text-[10px] text-gold-400">
+                  <CheckCircle size={12} />
+                  {t('templateEditor.active')}
+                </span>
+              ) : (
+                <button onClick={handleActivate} className="px-2 py-1 rounded text-[10px] border border-gold-500/50 text-gold-400 hover:bg-gold-500/10">
+                  {t('templateEditor.activate')}
+                </button>
+              )}
+              <span className="ml-auto text-[10px] text-gray-500">{t('templateEditor.recordHint', { version: formatTemplateVersion(templateId, active.version) })}</span>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  spellCheck={false}
+                  className={`${inputClass} w-full h-96 font-mono leading-relaxed resize-y`}
+                />
+                <p className="text-[10px] text-gray-500">
+                  {t('templateEditor.syntaxHint')}
+                </p>
+                {problems.length > 0 && (
+                  <div className="flex items-start gap-1 text-[10px] text-amber-300">
+                    <AlertTriangle size={12} className="shrink-0 mt-px" />
+                    {problems.join(t('common.listSeparator'))}
+                  </div>
+                )}
+                <div className="flex items-center gap-2">
+                  <input value={note} onChange={(e) => setNote(e.target.value)} placeholder={t('templateEditor.notePlaceholder')} className={`${inputClass} flex-1`} />
+                  <button
+                    onClick={handleSave}
+                    disabled={!isDirty || problems.length > 0}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs bg-gold-600 hover:bg-gold-500 text-white disabled:opacity-40 disabled:hover:bg-gold-600"
+                  >
+                    <Save size={14} />
+                    {t('templateEditor.save')}
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <span className="block text-xs text-gray-400">{t('templateEditor.preview')}</span>
+                <pre className="h-96 overflow-y-auto whitespace-pre-wrap break-words bg-black/40 border border-gray-800 rounded-lg p-3 text-[11px] text-gray-300 font-mono">
+                  {renderTemplate(draft, values)}
+                </pre>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <span className="block text-xs text-gray-400">{t('templateEditor.variables')}</span>
+              {definition.variables.map(variable => (
+                <div key={variable.name} className="grid grid-cols-[10rem_8rem_1fr] items-start gap-2 text-[10px]">
+                  <code className="text-gold-400 pt-1.5">{`{{${variable.name}}}`}</code>
+                  <span className="text-gray-500 pt-1.5">{t(variable.description)}</span>
+                  <textarea
+                    value={String(values[variable.name] ?? '')}
+                    onChange={(e) => setSamples({ ...samples, [variable.name]: e.target.value })}
+                    placeholder={t('templateEditor.samplePlaceholder')}
+                    rows={1}
+                    className={`${inputClass} resize-y`}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Loader2, X, ListOrdered, CheckCircle, AlertCircle, Ban, Zap } from 'lucide-react';
+import { QueueSnapshot, QueueJob } from '../services/generationQueue';
+import { t } from '../services/i18n';
+
+interface QueuePanelProps {
+  queue: QueueSnapshot;
+  onCancelJob: (jobId: string) => void;
+  onCancelBatch: (batchId: string) => void;
+  onConcurrencyChange: (value: number) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_ICON: Record<QueueJob['status'], React.ReactNode> = {
+  queued: <ListOrdered size={12} className="text-gray-500" />,
+  running: <Loader2 size={12} className="text-gold-400 animate-spin" />,
+  done: <CheckCircle size={12} className="text-green-500" />,
+  failed: <AlertCircle size={12} className="text-red-400" />,
+  cancelled: <Ban size={12} className="text-gray-600" />,
+};
+
+const isActive = (job: QueueJob) => job.status === 'queued' || job.status === 'running';
+
+export const QueuePanel: React.FC<QueuePanelProps> = ({ queue, onCancelJob, onCancelBatch, onConcurrencyChange, onClearFinished }) => {
+  const activeJobs = queue.jobs.filter(isActive);
+  const finishedJobs = queue.jobs.filter(j => !isActive(j));
+
+  // Progress per batch, for batches that still have work outstanding
+  const batchIds = Array.from(new Set(activeJobs.map(j => j.batchId)));
+  const batchProgress = batchIds.map(batchId => {
+    const jobs = queue.jobs.filter(j => j.batchId === batchId);
+    return { batchId, total: jobs.length, done: jobs.filter(j => !isActive(j)).length };
+  });
+
+  return (
+    <div className="bg-luxury-charcoal rounded-2xl border border-gray-800 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-serif text-white flex items-center gap-2">
+          <ListOrdered size={16} className="text-gold-400" />
+          {t('queue.title')}
+          <span className="text-xs font-sans text-gray-500">
+            {t('queue.counts', { running: activeJobs.filter(j => j.status === 'running').length, queued: activeJobs.filter(j => j.status === 'queued').length })}
+          </span>
+        </h3>
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          {t('queue.concurrency')}
+          <select
+            value={queue.concurrency}
+            onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+            className="bg-black/50 border border-gray-700 rounded px-2 py-1 text-white focus:border-gold-500 outline-none"
+          >
+            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {batchProgress.map(({ batchId, total, done }) => (
+        <div key={batchId} className="flex items-center gap-3">
+          <div className="flex-1 h-1.5 bg-gray-800 rounded-full overflow-hidden">
+            <div className="h-full bg-gold-500 transition-all" style={{ width: `${(done / total) * 100}%` }} />
+          </div>
+          <span className="text-[10px] text-gray-500 w-10 text-right">{done}/{total}</span>
+          <button
+            onClick={() => onCancelBatch(batchId)}
+            className="text-[10px] text-gray-500 hover:text-red-400 transition-colors"
+          >
+            {t('queue.cancelBatch')}
+          </button>
+        </div>
+      ))}
+
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {[...activeJobs, ...finishedJobs].map(job => (
+          <li key={job.id} className="flex items-center gap-2 text-xs text-gray-300 bg-black/20 rounded px-2 py-1.5">
+            {STATUS_ICON[job.status]}
+            <span className={`flex-1 truncate ${isActive(job) ? '' : 'text-gray-500'}`}>{job.label}</span>
+            {job.priority === 'interactive' && (
+              <span title={t('queue.priority')}><Zap size={12} className="text-gold-500" /></span>
+            )}
+            {isActive(job) && (
+              <button onClick={() => onCancelJob(job.id)} className="text-gray-500 hover:text-red-400" title={t('common.cancel')}>
+                <X size={12} />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {finishedJobs.length > 0 && (
+        <button onClick={onClearFinished} className="text-[10px] text-gray-500 hover:text-gray-300">
+          {t('queue.clearFinished')}
+        </button>
+      )}
+    </div>
+  );
+};
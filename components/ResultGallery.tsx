@@ -1,48 +1,249 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { GeneratedAsset, GenerationBatch, AppMode, ImageResolution, Region } from '../types';
-import { Download, Loader2, AlertCircle, Maximize2, X, RefreshCw, Send, Clock, CheckCircle, SlidersHorizontal, ArrowRight, ImagePlus, Trash2, Scan, MousePointer2 } from 'lucide-react';
+import { AssetCandidate, GeneratedAsset, GenerationBatch, GenerationInputSnapshot, AppMode, FidelityDefectKind, FidelityReport, ImageResolution, ScaleMeasurement, SelectionRegion, SelectionShape, SelectionTool } from '../types';
+import { SelectionOverlay, SelectionToolbar } from './SelectionTools.tsx';
+import { VersionHistory } from './VersionHistory.tsx';
+import { CompareView, CompareImage, CompareCandidateGroup } from './CompareView.tsx';
+import { hasSelection } from '../services/imageMask';
+import { flattenVersionTree } from '../services/versionHistory';
+import { setDraggedImage, readUploadedFiles, loadUploadLimits } from '../services/imageFiles';
+import { getCategoryLabel } from '../services/categories';
+import { MODE_LABELS } from '../services/shotPresets';
+import { MessageKey, formatDateTime, t } from '../services/i18n';
+import { Download, Loader2, AlertCircle, Maximize2, X, RefreshCw, Send, Clock, CheckCircle, SlidersHorizontal, ArrowRight, ImagePlus, Trash2, Scan, MousePointer2, Info, History, SplitSquareHorizontal, FileArchive, Import, Square, SquareCheck, Ruler, ShieldCheck } from 'lucide-react';
 
 interface ResultGalleryProps {
   history: GenerationBatch[];
   onRegenerate: (assetId: string, feedback: string) => void;
-  onVerifyIntent: (assetId: string, feedback: string, files: string[], region?: Region) => void;
+  onVerifyIntent: (assetId: string, feedback: string, files: string[], regions?: SelectionRegion[], pieceId?: string) => void;
   onDownloadHighRes: (assetId: string, resolution: ImageResolution) => void; 
+  onCancelAsset: (assetId: string) => void;
+  onRestoreVersion: (assetId: string, versionId: string) => void;
+  onPickCandidate: (assetId: string, candidateId: string) => void;
+  onDeleteBatch: (batchId: string) => void;
+  onClearHistory: () => void;
+  onExportBatch: (batchId: string) => void;
+  onExportAssets: (assetIds: string[]) => void;
+  onImport: (file: File) => void;
+  onFilterSku?: (sku: string) => void; // Shows only this SKU's batches
 }
 
+// Read-only view of the snapshot a card was generated from
+const InputSnapshotPanel: React.FC<{ inputs?: GenerationInputSnapshot, mode: AppMode, shotPrompt?: string, templateVersion?: string }> = ({ inputs, mode, shotPrompt, templateVersion }) => {
+  if (!inputs) {
+    return <p className="text-[10px] text-gray-500">{t('inputs.noSnapshot')}</p>;
+  }
+
+  const pieces = inputs.pieces ?? [];
+  const thumbGroups: { label: string, images: readonly string[] }[] = pieces.length > 1
+    ? [
+        ...pieces.flatMap((piece, i) => [
+          { label: `${t('set.piece', { index: i + 1 })} · ${getCategoryLabel(piece.category)}`, images: piece.productImages },
+          { label: t('inputs.pieceReference', { index: i + 1 }), images: piece.referenceImages },
+        ]),
+        { label: t('inputs.model'), images: inputs.modelImage ? [inputs.modelImage] : [] },
+      ]
+    : [
+        { label: t('inputs.productImages'), images: inputs.productImages },
+        { label: t('inputs.referenceImages'), images: inputs.referenceImages },
+        { label: t('inputs.model'), images: inputs.modelImage ? [inputs.modelImage] : [] },
+      ];
+
+  return (
+    <div className="space-y-2 text-[10px] text-gray-400">
+      {thumbGroups.filter(g => g.images.length > 0).map(group => (
+        <div key={group.label}>
+          <span className="block mb-1 text-gray-500">{group.label}</span>
+          <div className="flex gap-1 overflow-x-auto">
+            {group.images.map((img, idx) => (
+              <img key={idx} src={img} className="w-8 h-8 shrink-0 object-cover rounded border border-gray-700" />
+            ))}
+          </div>
+        </div>
+      ))}
+      <dl className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5">
+        <dt className="text-gray-500">{t('inputs.category')}</dt><dd>{pieces.length > 1 ? pieces.map(p => getCategoryLabel(p.category)).join(' + ') : getCategoryLabel(inputs.category)}</dd>
+        <dt className="text-gray-500">{t('inputs.aspectRatio')}</dt><dd>{inputs.aspectRatio}</dd>
+        {mode === 'try-on' && <><dt className="text-gray-500">{t('inputs.dimensions')}</dt><dd>{pieces.length > 1 ? pieces.map(p => p.dimensionsText).join(' / ') : inputs.dimensionsText}</dd></>}
+        {inputs.modelName && <><dt className="text-gray-500">{t('inputs.model')}</dt><dd>{inputs.modelName}</dd></>}
+        {inputs.calibration && <><dt className="text-gray-500">{t('inputs.calibration')}</dt><dd>{inputs.calibration.featureLabel} {inputs.calibration.lengthMm}mm · {inputs.calibration.pxPerMm.toFixed(1)} px/mm</dd></>}
+        {inputs.instructions && <><dt className="text-gray-500">{t('inputs.instructions')}</dt><dd className="break-words">{inputs.instructions}</dd></>}
+        {shotPrompt && <><dt className="text-gray-500">{mode === 'try-on' ? t('inputs.shot') : t('inputs.scene')}</dt><dd className="break-words">{shotPrompt}</dd></>}
+        {templateVersion && <><dt className="text-gray-500">{t('inputs.template')}</dt><dd className="font-mono">{templateVersion}</dd></>}
+      </dl>
+    </div>
+  );
+};
+
+// Rendered size check of the current version against the batch's scale calibration
+const ScaleBadge: React.FC<{ scale: ScaleMeasurement }> = ({ scale }) => {
+  const expected = t('scale.badge.expected', { mm: Math.round(scale.expectedMm * 10) / 10 });
+  if (scale.measuredMm === undefined) {
+    return (
+      <span className="flex items-center gap-1 text-[10px] text-gray-500" title={t('scale.badge.unmeasuredHint', { expected })}>
+        <Ruler size={10} />
+        {t('scale.badge.unmeasured')}
+      </span>
+    );
+  }
+  const percent = Math.round(scale.deviation! * 100);
+  return (
+    <span
+      className={`flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded ${scale.withinTolerance ? 'text-emerald-400 bg-emerald-500/10' : 'text-red-300 bg-red-500/15'}`}
+      title={t('scale.badge.measuredHint', { expected, mm: Math.round(scale.measuredMm * 10) / 10, tolerance: Math.round(scale.tolerance * 100) })}
+    >
+      <Ruler size={10} />
+      {scale.withinTolerance ? t('scale.badge.ok') : t('scale.badge.deviation', { percent: `${percent > 0 ? '+' : ''}${percent}` })}
+    </span>
+  );
+};
+
+const DEFECT_LABELS: Record<FidelityDefectKind, MessageKey> = {
+  'metal-color': 'fidelity.defect.metal-color',
+  'stone-count': 'fidelity.defect.stone-count',
+  'stone-shape': 'fidelity.defect.stone-shape',
+  'proportions': 'fidelity.defect.proportions',
+  'extra-jewelry': 'fidelity.defect.extra-jewelry',
+  'missing-part': 'fidelity.defect.missing-part',
+  'deformed-hands': 'fidelity.defect.deformed-hands',
+  'other': 'fidelity.defect.other',
+};
+
+const fidelityTone = (score: number) =>
+  score >= 85 ? 'text-emerald-400 bg-emerald-500/10' : score >= 70 ? 'text-amber-300 bg-amber-500/10' : 'text-red-300 bg-red-500/15';
+
+// Product-fidelity QA result of the current version
+const FidelityPanel: React.FC<{ report: FidelityReport, attempts?: number }> = ({ report, attempts }) => (
+  <div className="space-y-1.5 text-[10px] text-gray-400">
+    <p className="flex items-center gap-1.5">
+      <span className={`px-1.5 py-0.5 rounded font-bold ${fidelityTone(report.score)}`}>{report.score}</span>
+      <span className="flex-1">{report.summary}</span>
+    </p>
+    {report.defects.length > 0 ? (
+      <ul className="space-y-0.5">
+        {report.defects.map((defect, i) => (
+          <li key={i} className="flex gap-1.5">
+            <span className="shrink-0 text-red-300">{t(DEFECT_LABELS[defect.kind])}</span>
+            <span>{defect.detail}</span>
+          </li>
+        ))}
+      </ul>
+    ) : (
+      <p className="text-gray-500">{t('fidelity.noDefects')}</p>
+    )}
+    {attempts && attempts > 1 && <p className="text-gray-500">{t('fidelity.attempts', { count: attempts })}</p>}
+  </div>
+);
+
+// Pick-the-best strip: clicking a finished candidate makes it the asset's image
+const CandidateStrip: React.FC<{
+  candidates: AssetCandidate[],
+  chosenId?: string,
+  disabled: boolean,
+  onPick: (candidateId: string) => void,
+  onView: (url: string) => void
+}> = ({ candidates, chosenId, disabled, onPick, onView }) => (
+  <div className="space-y-1">
+    <span className="block text-[10px] text-gray-500">{t('candidates.title', { count: candidates.length })}</span>
+    <div className="grid grid-cols-4 gap-1.5">
+      {candidates.map((candidate, i) => {
+        const isChosen = candidate.id === chosenId;
+        return (
+          <div
+            key={candidate.id}
+            className={`group/candidate relative aspect-square rounded overflow-hidden border bg-black ${isChosen ? 'border-gold-500' : 'border-gray-700'}`}
+          >
+            {candidate.isLoading ? (
+              <div className="w-full h-full flex items-center justify-center">
+                <Loader2 size={14} className="text-gold-400 animate-spin" />
+              </div>
+            ) : candidate.imageUrl ? (
+              <button
+                onClick={() => onPick(candidate.id)}
+                disabled={disabled || isChosen}
+                className="w-full h-full"
+                title={`${t(isChosen ? 'candidates.chosen' : 'candidates.pick', { index: i + 1 })}${candidate.seed !== undefined ? ` · ${t('version.seed', { seed: candidate.seed })}` : ''}`}
+              >
+                <img src={candidate.imageUrl} className={`w-full h-full object-cover ${isChosen ? '' : 'opacity-70 hover:opacity-100'}`} />
+              </button>
+            ) : (
+              <div className="w-full h-full flex items-center justify-center" title={candidate.error}>
+                <AlertCircle size={14} className="text-red-400" />
+              </div>
+            )}
+            {candidate.fidelity && (
+              <span className={`absolute bottom-0.5 left-0.5 px-1 rounded text-[9px] font-bold pointer-events-none ${fidelityTone(candidate.fidelity.score)}`}>
+                {candidate.fidelity.score}
+              </span>
+            )}
+            {isChosen && <CheckCircle size={12} className="absolute top-0.5 right-0.5 text-gold-400 pointer-events-none" />}
+            {candidate.imageUrl && (
+              <button
+                onClick={() => onView(candidate.imageUrl!)}
+                className="absolute top-0.5 left-0.5 p-0.5 rounded bg-black/60 text-white opacity-0 group-hover/candidate:opacity-100 transition-opacity"
+                title={t('card.viewLarge')}
+              >
+                <Maximize2 size={10} />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
 // Individual card component
 const ResultCard: React.FC<{ 
   asset: GeneratedAsset, 
+  batch: GenerationBatch, 
   onRegenerate: (assetId: string, feedback: string) => void,
-  onVerifyIntent: (assetId: string, feedback: string, files: string[], region?: Region) => void,
+  onVerifyIntent: (assetId: string, feedback: string, files: string[], regions?: SelectionRegion[], pieceId?: string) => void,
   onDownloadHighRes: (assetId: string, resolution: ImageResolution) => void,
-  onImageClick: (url: string) => void
-}> = ({ asset, onRegenerate, onVerifyIntent, onDownloadHighRes, onImageClick }) => {
+  onCancel: (assetId: string) => void,
+  onRestoreVersion: (assetId: string, versionId: string) => void,
+  onPickCandidate: (assetId: string, candidateId: string) => void,
+  onImageClick: (url: string) => void,
+  isSelected: boolean,
+  onToggleSelect: (assetId: string) => void
+}> = ({ asset, batch, onRegenerate, onVerifyIntent, onDownloadHighRes, onCancel, onRestoreVersion, onPickCandidate, onImageClick, isSelected, onToggleSelect }) => {
   
   const [showFeedbackInput, setShowFeedbackInput] = useState(false);
+  const [showInputs, setShowInputs] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
+  const [previewVersionId, setPreviewVersionId] = useState<string | null>(null);
+  const previewVersion = asset.versions?.find(v => v.id === previewVersionId);
+  const displayedImageUrl = previewVersion?.imageUrl ?? asset.imageUrl;
   const [feedbackText, setFeedbackText] = useState('');
+  const [targetPieceId, setTargetPieceId] = useState(''); // Empty targets the whole set
+  const setPieces = batch.inputs?.pieces ?? [];
+  const currentVersion = asset.versions?.find(v => v.id === asset.currentVersionId);
+  const scale = currentVersion?.scale;
+  const fidelity = currentVersion?.fidelity;
+  const [showFidelity, setShowFidelity] = useState(false);
   const [showDownloadOptions, setShowDownloadOptions] = useState(false);
   
   // Local state for feedback images
   const [feedbackImages, setFeedbackImages] = useState<string[]>([]);
+  const [uploadNotice, setUploadNotice] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Region Selection State
   const [isSelecting, setIsSelecting] = useState(false);
-  const [selection, setSelection] = useState<Region | null>(null);
-  const [isDragging, setIsDragging] = useState(false);
-  const [startPos, setStartPos] = useState({ x: 0, y: 0 });
-  const imageContainerRef = useRef<HTMLDivElement>(null);
-
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      Array.from(e.target.files).forEach((file: File) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          setFeedbackImages(prev => [...prev, reader.result as string]);
-        };
-        reader.readAsDataURL(file);
-      });
-    }
+  const [regions, setRegions] = useState<SelectionRegion[]>([]);
+  const [activeRegionId, setActiveRegionId] = useState<string | null>(null);
+  const [tool, setTool] = useState<SelectionTool>('rect');
+  const [brushSize, setBrushSize] = useState(4);
+  const hasRegions = hasSelection(regions);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []) as File[];
+    e.target.value = '';
+    if (files.length === 0) return;
+    // Same pipeline as the form uploads: upright, within the size limits, model-supported format
+    const { files: uploaded, duplicates, errors } = await readUploadedFiles(files, loadUploadLimits());
+    setUploadNotice([...errors, ...(duplicates > 0 ? [t('upload.duplicatesSkipped', { count: duplicates })] : [])].join(t('common.listSeparator')) || null);
+    uploaded.forEach(f => URL.revokeObjectURL(f.previewUrl));
+    setFeedbackImages(prev => [...prev, ...uploaded.map(f => f.base64)]);
   };
 
   const removeFeedbackImage = (index: number) => {
@@ -51,8 +252,8 @@ const ResultCard: React.FC<{
 
   // Step 1: User types feedback and clicks "Verify"
   const handleVerifyClick = () => {
-    if (!feedbackText.trim() && feedbackImages.length === 0 && !selection) return;
-    onVerifyIntent(asset.id, feedbackText, feedbackImages, selection || undefined);
+    if (!feedbackText.trim() && feedbackImages.length === 0 && !hasRegions) return;
+    onVerifyIntent(asset.id, feedbackText, feedbackImages, hasRegions ? regions : undefined, targetPieceId || undefined);
   };
 
   // Step 2: User confirms the AI interpretation
@@ -61,7 +262,9 @@ const ResultCard: React.FC<{
     setShowFeedbackInput(false);
     setFeedbackText('');
     setFeedbackImages([]);
-    setSelection(null);
+    setTargetPieceId('');
+    setRegions([]);
+    setActiveRegionId(null);
     setIsSelecting(false);
   };
 
@@ -81,90 +284,113 @@ const ResultCard: React.FC<{
   };
 
   // Selection Logic
-  const handleMouseDown = (e: React.MouseEvent) => {
-    if (!isSelecting || !imageContainerRef.current) return;
-    e.preventDefault();
-    e.stopPropagation();
-    const rect = imageContainerRef.current.getBoundingClientRect();
-    const x = ((e.clientX - rect.left) / rect.width) * 100;
-    const y = ((e.clientY - rect.top) / rect.height) * 100;
-    setStartPos({ x, y });
-    setSelection({ x, y, width: 0, height: 0 });
-    setIsDragging(true);
+  const createRegion = (): SelectionRegion => ({ id: `${Date.now()}-${Math.random().toString(36).slice(2, 6)}`, shapes: [], instruction: '' });
+
+  // New shapes go into the active region; the first shape creates one
+  const handleAddShape = (shape: SelectionShape) => {
+    if (shape.type === 'brush' && shape.erase && !activeRegionId) return;
+    const targetId = activeRegionId && regions.some(r => r.id === activeRegionId) ? activeRegionId : null;
+    if (targetId) {
+      setRegions(prev => prev.map(r => r.id === targetId ? { ...r, shapes: [...r.shapes, shape] } : r));
+    } else {
+      const region = { ...createRegion(), shapes: [shape] };
+      setRegions(prev => [...prev, region]);
+      setActiveRegionId(region.id);
+    }
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging || !imageContainerRef.current) return;
-    e.preventDefault();
-    e.stopPropagation();
-    const rect = imageContainerRef.current.getBoundingClientRect();
-    const currentX = ((e.clientX - rect.left) / rect.width) * 100;
-    const currentY = ((e.clientY - rect.top) / rect.height) * 100;
+  const handleAddRegion = () => {
+    const region = createRegion();
+    setRegions(prev => [...prev, region]);
+    setActiveRegionId(region.id);
+    setIsSelecting(true);
+  };
 
-    const width = Math.abs(currentX - startPos.x);
-    const height = Math.abs(currentY - startPos.y);
-    const x = Math.min(currentX, startPos.x);
-    const y = Math.min(currentY, startPos.y);
+  const handleRemoveRegion = (id: string) => {
+    setRegions(prev => prev.filter(r => r.id !== id));
+    if (activeRegionId === id) setActiveRegionId(null);
+  };
 
-    setSelection({ x, y, width, height });
+  const handleInstructionChange = (id: string, instruction: string) => {
+    setRegions(prev => prev.map(r => r.id === id ? { ...r, instruction } : r));
   };
 
-  const handleMouseUp = () => {
-    setIsDragging(false);
+  const handleUndoShape = () => {
+    setRegions(prev => prev.map(r => r.id === activeRegionId ? { ...r, shapes: r.shapes.slice(0, -1) } : r));
   };
 
   const toggleSelectionMode = () => {
     setIsSelecting(!isSelecting);
-    if (isSelecting) {
-      setSelection(null); // Clear on exit? or keep? let's clear for now to restart
-    }
+  };
+
+  // Regions were drawn on the old image, so they are dropped when continuing from another version
+  const handleBranchFrom = (versionId: string) => {
+    onRestoreVersion(asset.id, versionId);
+    setPreviewVersionId(null);
+    setRegions([]);
+    setActiveRegionId(null);
+    setShowFeedbackInput(true);
   };
 
   return (
-    <div className="group relative bg-luxury-charcoal rounded-xl overflow-hidden border border-gray-800 hover:border-gold-500/30 transition-all duration-300 flex flex-col h-full">
+    <div className={`group relative bg-luxury-charcoal rounded-xl overflow-hidden border transition-all duration-300 flex flex-col h-full ${isSelected ? 'border-gold-500/70' : 'border-gray-800 hover:border-gold-500/30'}`}>
       
       {/* Visual Section */}
       <div 
-        ref={imageContainerRef}
         className={`relative w-full ${getAspectRatioClass(asset.aspectRatio)} bg-black overflow-hidden select-none`}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
       >
         {asset.isImageLoading ? (
           <div className="absolute inset-0 flex flex-col items-center justify-center space-y-3 z-20 bg-luxury-charcoal">
             <Loader2 className="w-8 h-8 text-gold-400 animate-spin" />
             <span className="text-xs text-gold-100/70 tracking-widest uppercase">
-              {asset.imageUrl ? 'AI 正在调整...' : '渲染中 (2K)'}
+              {asset.imageUrl
+                ? t('card.adjusting')
+                : asset.candidates
+                  ? t('card.renderingCandidates', { done: asset.candidates.filter(c => !c.isLoading).length, total: asset.candidates.length })
+                  : t('card.rendering', { resolution: asset.resolution })}
             </span>
+            <button
+              onClick={() => onCancel(asset.id)}
+              className="text-[10px] text-gray-500 hover:text-red-400 transition-colors"
+            >
+              {t('common.cancel')}
+            </button>
           </div>
         ) : asset.imageUrl ? (
           <div 
             className={`w-full h-full relative ${isSelecting ? 'cursor-crosshair' : 'cursor-pointer'}`}
-            onClick={!isSelecting ? () => onImageClick(asset.imageUrl!) : undefined}
+            onClick={!isSelecting ? () => onImageClick(displayedImageUrl!) : undefined}
           >
             <img 
-              src={asset.imageUrl} 
+              src={displayedImageUrl} 
               alt="Generated Result" 
-              className={`w-full h-full object-cover transition-transform duration-700 ${!isSelecting && 'group-hover:scale-105'}`} 
+              draggable={!isSelecting}
+              onDragStart={(e) => setDraggedImage(e.dataTransfer, displayedImageUrl!, `result-${asset.id}`)}
+              title={!isSelecting ? t('card.dragHint') : undefined}
+              className={`w-full h-full object-cover transition-transform duration-700 ${!isSelecting && regions.length === 0 && 'group-hover:scale-105'}`} 
             />
             
             {/* Selection Overlay */}
-            {selection && (
-              <div 
-                className="absolute border-2 border-gold-400 bg-gold-400/20 z-10"
-                style={{
-                  left: `${selection.x}%`,
-                  top: `${selection.y}%`,
-                  width: `${selection.width}%`,
-                  height: `${selection.height}%`
-                }}
+            {(isSelecting || regions.length > 0) && (
+              <SelectionOverlay
+                regions={regions}
+                aspectRatio={asset.aspectRatio}
+                tool={tool}
+                brushSize={brushSize}
+                isEditing={isSelecting}
+                onAddShape={handleAddShape}
+              />
+            )}
+
+            {/* Export selection checkbox */}
+            {!isSelecting && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onToggleSelect(asset.id); }}
+                className={`absolute top-2 left-2 p-1.5 rounded-md bg-black/60 backdrop-blur-sm z-20 transition-opacity ${isSelected ? 'text-gold-400 opacity-100' : 'text-white/80 opacity-0 group-hover:opacity-100'}`}
+                title={isSelected ? t('card.deselect') : t('card.selectForExport')}
               >
-                <div className="absolute -top-6 left-0 bg-gold-400 text-black text-[10px] px-1 font-bold rounded-t">
-                  修改区域
-                </div>
-              </div>
+                {isSelected ? <SquareCheck size={16} /> : <Square size={16} />}
+              </button>
             )}
 
             {/* Hover Actions (Hide during selection to prevent interference) */}
@@ -173,7 +399,7 @@ const ResultCard: React.FC<{
                  <button 
                   onClick={() => onImageClick(asset.imageUrl!)}
                   className="p-2 bg-black/60 hover:bg-gold-500 text-white rounded-full backdrop-blur-sm transition-colors"
-                  title="查看大图"
+                  title={t('card.viewLarge')}
                 >
                   <Maximize2 size={16} />
                 </button>
@@ -182,17 +408,17 @@ const ResultCard: React.FC<{
                   <button 
                     onClick={() => setShowDownloadOptions(!showDownloadOptions)}
                     className="p-2 bg-black/60 hover:bg-gold-500 text-white rounded-full backdrop-blur-sm transition-colors"
-                    title="下载图片"
+                    title={t('card.download')}
                   >
                     <Download size={16} />
                   </button>
                   {showDownloadOptions && (
                     <div className="absolute right-0 top-10 w-32 bg-luxury-charcoal border border-gray-700 rounded-lg shadow-xl z-30 overflow-hidden">
                       <button onClick={() => handleDownload('2K')} className="w-full text-left px-4 py-2 text-xs text-gray-200 hover:bg-gold-600 hover:text-black">
-                        下载 2K (原图)
+                        {t('card.download2k')}
                       </button>
                       <button onClick={() => handleDownload('4K')} className="w-full text-left px-4 py-2 text-xs text-gray-200 hover:bg-gold-600 hover:text-black">
-                        下载 4K (超清)
+                        {t('card.download4k')}
                       </button>
                     </div>
                   )}
@@ -200,27 +426,30 @@ const ResultCard: React.FC<{
               </div>
             )}
 
-            {asset.resolution === '4K' && (
+            {(previewVersion?.resolution ?? asset.resolution) === '4K' && (
                <div className="absolute bottom-2 left-2 px-2 py-0.5 bg-gold-600 text-black text-[10px] font-bold rounded">4K</div>
             )}
+            {previewVersion && previewVersion.id !== asset.currentVersionId && (
+               <div className="absolute top-2 left-2 px-2 py-0.5 bg-black/70 text-gold-400 text-[10px] font-bold rounded z-20">{t('card.previewingVersion')}</div>
+            )}
             
             {/* Selecting Hint Overlay */}
-            {isSelecting && !selection && (
-               <div className="absolute inset-0 flex items-center justify-center bg-black/20 pointer-events-none">
-                  <p className="text-white bg-black/50 px-2 py-1 rounded text-xs">请框选需要修改的区域</p>
+            {isSelecting && !hasRegions && (
+               <div className="absolute inset-0 flex items-center justify-center bg-black/20 pointer-events-none z-20">
+                  <p className="text-white bg-black/50 px-2 py-1 rounded text-xs">{t('card.selectionHint')}</p>
                </div>
             )}
           </div>
         ) : (
             <div className="absolute inset-0 flex flex-col items-center justify-center p-4 text-center">
               <AlertCircle className="w-8 h-8 text-red-400 mb-2" />
-              <span className="text-xs text-red-300">生成失败</span>
+              <span className="text-xs text-red-300">{t('card.failed')}</span>
               {asset.error && <p className="text-[10px] text-gray-500 mt-1 max-w-[80%]">{asset.error}</p>}
               <button 
                  onClick={() => setShowFeedbackInput(true)}
                  className="mt-2 text-xs text-gold-400 underline hover:text-gold-300"
               >
-                尝试重绘
+                {t('card.retry')}
               </button>
             </div>
         )}
@@ -229,31 +458,98 @@ const ResultCard: React.FC<{
       {/* Control Section */}
       <div className="p-4 bg-luxury-charcoal border-t border-gray-800 space-y-3 flex-1 flex flex-col justify-end">
         <div className="flex items-center justify-between">
-          <span className="text-xs font-medium text-gray-400 uppercase tracking-wide truncate pr-2" title={asset.imagePrompt}>
-            {asset.imagePrompt.split(':')[0]}
-          </span>
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="text-xs font-medium text-gray-400 uppercase tracking-wide truncate" title={asset.imagePrompt}>
+              {asset.imagePrompt.split(':')[0]}
+            </span>
+            {fidelity && !asset.isImageLoading && (
+              <button
+                onClick={() => setShowFidelity(!showFidelity)}
+                className={`flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded ${fidelityTone(fidelity.score)}`}
+                title={t('card.fidelity')}
+              >
+                <ShieldCheck size={10} />
+                {fidelity.score}
+              </button>
+            )}
+            {scale && !asset.isImageLoading && <ScaleBadge scale={scale} />}
+          </div>
           
-          {!asset.isImageLoading && (
-            <button 
-              onClick={() => {
-                setShowFeedbackInput(!showFeedbackInput);
-                setIsSelecting(false); // Reset selection mode if toggling panel
-              }}
-              className={`p-1.5 rounded-md transition-colors ${showFeedbackInput ? 'bg-gold-500/20 text-gold-400' : 'text-gray-500 hover:text-gold-400 hover:bg-white/5'}`}
-              title="调整"
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setShowInputs(!showInputs)}
+              className={`p-1.5 rounded-md transition-colors ${showInputs ? 'bg-gold-500/20 text-gold-400' : 'text-gray-500 hover:text-gold-400 hover:bg-white/5'}`}
+              title={t('card.inputs')}
             >
-              <RefreshCw size={14} />
+              <Info size={14} />
             </button>
-          )}
+            {(asset.versions?.length ?? 0) > 1 && (
+              <button
+                onClick={() => setShowVersions(!showVersions)}
+                className={`p-1.5 rounded-md transition-colors flex items-center gap-0.5 text-[10px] ${showVersions ? 'bg-gold-500/20 text-gold-400' : 'text-gray-500 hover:text-gold-400 hover:bg-white/5'}`}
+                title={t('card.versions')}
+              >
+                <History size={14} />
+                {asset.versions!.length}
+              </button>
+            )}
+            {!asset.isImageLoading && (
+              <button 
+                onClick={() => {
+                  setShowFeedbackInput(!showFeedbackInput);
+                  setIsSelecting(false); // Reset selection mode if toggling panel
+                }}
+                className={`p-1.5 rounded-md transition-colors ${showFeedbackInput ? 'bg-gold-500/20 text-gold-400' : 'text-gray-500 hover:text-gold-400 hover:bg-white/5'}`}
+                title={t('card.adjust')}
+              >
+                <RefreshCw size={14} />
+              </button>
+            )}
+          </div>
         </div>
 
+        {asset.candidates && (
+          <CandidateStrip
+            candidates={asset.candidates}
+            chosenId={asset.chosenCandidateId}
+            disabled={asset.isImageLoading}
+            onPick={(candidateId) => onPickCandidate(asset.id, candidateId)}
+            onView={onImageClick}
+          />
+        )}
+
+        {showVersions && asset.versions && (
+          <div className="bg-black/20 p-2 rounded-lg border border-gray-800">
+            <VersionHistory
+              versions={asset.versions}
+              currentVersionId={asset.currentVersionId}
+              previewVersionId={previewVersionId}
+              onPreview={setPreviewVersionId}
+              onRestore={(versionId) => onRestoreVersion(asset.id, versionId)}
+              onBranch={handleBranchFrom}
+            />
+          </div>
+        )}
+
+        {showFidelity && fidelity && (
+          <div className="bg-black/20 p-2 rounded-lg border border-gray-800">
+            <FidelityPanel report={fidelity} attempts={currentVersion?.attempts} />
+          </div>
+        )}
+
+        {showInputs && (
+          <div className="bg-black/20 p-2 rounded-lg border border-gray-800">
+            <InputSnapshotPanel inputs={batch.inputs} mode={batch.mode} shotPrompt={asset.shotPrompt} templateVersion={asset.templateVersion} />
+          </div>
+        )}
+
         {/* Feedback Input Mode */}
         {showFeedbackInput && (
           <div className="animate-fade-in space-y-2 bg-black/20 p-2 rounded-lg border border-gray-800 relative">
             {asset.isVerifyingFeedback ? (
                <div className="flex items-center justify-center py-4 text-gold-400 gap-2 text-xs">
                  <Loader2 size={14} className="animate-spin"/>
-                 AI 正在比对并确认...
+                 {t('card.verifying')}
                </div>
             ) : asset.feedbackInterpretation ? (
               // Verification UI
@@ -267,23 +563,36 @@ const ResultCard: React.FC<{
                     onClick={() => onVerifyIntent(asset.id, "", [], undefined)} // Clear verification state
                     className="flex-1 py-1 text-[10px] text-gray-400 hover:bg-white/10 rounded"
                   >
-                    修改
+                    {t('card.editIntent')}
                   </button>
                   <button 
                     onClick={handleConfirmRegenerate}
                     className="flex-1 py-1.5 bg-gold-600 text-black text-xs font-bold rounded hover:bg-gold-500"
                   >
-                    确认并生成
+                    {t('card.confirmAndGenerate')}
                   </button>
                 </div>
               </div>
             ) : (
               // Input UI
               <>
+                {setPieces.length > 1 && asset.imageUrl && (
+                  <select
+                    value={targetPieceId}
+                    onChange={(e) => setTargetPieceId(e.target.value)}
+                    className="w-full text-xs bg-black/40 border border-gray-700 rounded-lg px-2 py-1.5 text-gray-200 focus:border-gold-500 focus:outline-none"
+                    title={t('card.target')}
+                  >
+                    <option value="">{t('card.targetWholeSet')}</option>
+                    {setPieces.map((piece, i) => (
+                      <option key={piece.id} value={piece.id}>{t('card.targetPiece', { index: i + 1, category: getCategoryLabel(piece.category) })}</option>
+                    ))}
+                  </select>
+                )}
                 <textarea
                   value={feedbackText}
                   onChange={(e) => setFeedbackText(e.target.value)}
-                  placeholder="请输入修改意见..."
+                  placeholder={t('card.feedbackPlaceholder')}
                   className="w-full text-xs bg-black/40 border border-gray-700 rounded-lg p-2 text-gray-200 placeholder-gray-600 focus:border-gold-500 focus:outline-none resize-none h-16"
                 />
                 
@@ -293,17 +602,32 @@ const ResultCard: React.FC<{
                    <button
                      onClick={toggleSelectionMode}
                      className={`p-1.5 rounded transition-colors flex items-center gap-1 text-[10px] ${isSelecting ? 'bg-gold-600 text-black' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
-                     title="框选修改区域"
+                     title={t('card.selectRegions')}
                    >
                      <Scan size={14} />
-                     {isSelecting ? '正在框选' : '框选区域'}
+                     {isSelecting ? t('card.finishSelection') : t('card.selectRegion')}
                    </button>
-                   {selection && (
+                   {regions.length > 0 && (
                      <span className="text-[10px] text-gold-400">
-                       已选: {Math.round(selection.width)}% x {Math.round(selection.height)}%
+                       {t('card.regionCount', { count: regions.length })}
                      </span>
                    )}
                 </div>
+                {(isSelecting || regions.length > 0) && (
+                  <SelectionToolbar
+                    tool={tool}
+                    onToolChange={(next) => { setTool(next); setIsSelecting(true); }}
+                    brushSize={brushSize}
+                    onBrushSizeChange={setBrushSize}
+                    regions={regions}
+                    activeRegionId={activeRegionId}
+                    onSelectRegion={setActiveRegionId}
+                    onAddRegion={handleAddRegion}
+                    onRemoveRegion={handleRemoveRegion}
+                    onInstructionChange={handleInstructionChange}
+                    onUndo={handleUndoShape}
+                  />
+                )}
                 
                 {/* Image Upload Area for Feedback */}
                 <div className="flex gap-2 overflow-x-auto py-1">
@@ -321,7 +645,7 @@ const ResultCard: React.FC<{
                    <button 
                       onClick={() => fileInputRef.current?.click()}
                       className="w-10 h-10 shrink-0 border border-dashed border-gray-600 rounded flex items-center justify-center hover:border-gold-500 hover:text-gold-400 text-gray-500 transition-colors"
-                      title="上传参考图供对比"
+                      title={t('card.uploadReference')}
                    >
                      <ImagePlus size={14} />
                    </button>
@@ -329,11 +653,12 @@ const ResultCard: React.FC<{
                       type="file" 
                       ref={fileInputRef} 
                       className="hidden" 
-                      accept="image/*" 
+                      accept="image/*,.heic,.heif" 
                       multiple 
                       onChange={handleFileSelect}
                    />
                 </div>
+                {uploadNotice && <p className="text-xs text-amber-300">{uploadNotice}</p>}
 
                 <div className="flex gap-2">
                   <button 
@@ -343,15 +668,15 @@ const ResultCard: React.FC<{
                     }}
                     className="flex-1 py-1.5 text-xs text-gray-400 hover:bg-white/5 rounded-lg transition-colors"
                   >
-                    取消
+                    {t('common.cancel')}
                   </button>
                   <button 
                     onClick={handleVerifyClick}
-                    disabled={!feedbackText.trim() && feedbackImages.length === 0 && !selection}
+                    disabled={!feedbackText.trim() && feedbackImages.length === 0 && !hasRegions}
                     className="flex-1 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white text-xs font-medium rounded-lg transition-colors flex items-center justify-center gap-1"
                   >
                     <ArrowRight size={12} />
-                    确认意图
+                    {t('card.verifyIntent')}
                   </button>
                 </div>
               </>
@@ -363,17 +688,136 @@ const ResultCard: React.FC<{
   );
 };
 
-export const ResultGallery: React.FC<ResultGalleryProps> = ({ history, onRegenerate, onVerifyIntent, onDownloadHighRes }) => {
+// Everything the lightbox can compare against: the opened asset's versions, the batch's
+// product photos, then every other finished asset in history.
+const buildCompareCandidates = (history: GenerationBatch[], batchId?: string, assetId?: string): CompareCandidateGroup[] => {
+  const groups: CompareCandidateGroup[] = [];
+  const batch = history.find(b => b.id === batchId);
+  const asset = batch?.assets.find(a => a.id === assetId);
+
+  if (asset) {
+    const versions: CompareImage[] = asset.versions && asset.versions.length > 0
+      ? flattenVersionTree(asset.versions).map(({ version, label }) => ({ key: `version:${version.id}`, url: version.imageUrl, label: `${label} · ${version.resolution}` }))
+      : asset.imageUrl ? [{ key: `asset:${asset.id}`, url: asset.imageUrl, label: t('compare.currentVersion') }] : [];
+    if (versions.length > 0) groups.push({ label: t('compare.group.versions'), images: versions });
+    const candidates = (asset.candidates ?? [])
+      .map((c, i) => ({ candidate: c, index: i + 1 }))
+      .filter(({ candidate }) => candidate.imageUrl)
+      .map(({ candidate, index }): CompareImage => ({ key: `candidate:${candidate.id}`, url: candidate.imageUrl!, label: t('candidates.label', { index }) }));
+    if (candidates.length > 0) groups.push({ label: t('compare.group.candidates'), images: candidates });
+  }
+
+  const products = batch?.inputs?.productImages ?? [];
+  if (products.length > 0) {
+    groups.push({
+      label: t('compare.group.products'),
+      images: products.map((url, i) => ({ key: `product:${batch!.id}:${i}`, url, label: t('compare.productImage', { index: i + 1 }) })),
+    });
+  }
+
+  history.forEach(other => {
+    const images = other.assets
+      .filter(a => a.imageUrl && a.id !== assetId)
+      .map(a => ({ key: `asset:${a.id}`, url: a.imageUrl!, label: a.imagePrompt }));
+    if (images.length > 0) {
+      groups.push({ label: `${formatDateTime(other.timestamp)}${other.id === batchId ? ` (${t('compare.sameBatch')})` : ''}`, images });
+    }
+  });
+
+  return groups;
+};
+
+export const ResultGallery: React.FC<ResultGalleryProps> = ({ history, onRegenerate, onVerifyIntent, onDownloadHighRes, onCancelAsset, onRestoreVersion, onPickCandidate, onDeleteBatch, onClearHistory, onExportBatch, onExportAssets, onImport, onFilterSku }) => {
   const [lightbox, setLightbox] = useState<{
     isOpen: boolean;
     url: string;
+    batchId?: string;
+    assetId?: string;
   }>({ isOpen: false, url: '' });
+  const [compare, setCompare] = useState<{ left: CompareImage, right: CompareImage } | null>(null);
+  const [selectedAssetIds, setSelectedAssetIds] = useState<Set<string>>(new Set());
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   if (!history || history.length === 0) return null;
 
+  const compareCandidates = lightbox.isOpen ? buildCompareCandidates(history, lightbox.batchId, lightbox.assetId) : [];
+
+  const openCompare = () => {
+    const all = compareCandidates.flatMap(g => g.images);
+    const left = all.find(i => i.url === lightbox.url) ?? { key: 'lightbox', url: lightbox.url, label: t('compare.currentImage') };
+    // Default to the parent version, falling back to the first product photo
+    const asset = history.find(b => b.id === lightbox.batchId)?.assets.find(a => a.id === lightbox.assetId);
+    const parentId = asset?.versions?.find(v => `version:${v.id}` === left.key)?.parentId;
+    const right = all.find(i => i.key === `version:${parentId}`)
+      ?? all.find(i => i.key.startsWith('product:'))
+      ?? all.find(i => i.key !== left.key);
+    if (right) setCompare({ left, right });
+  };
+
+  // Drop ids of assets that were deleted since they were selected
+  const selectedIds = history.flatMap(b => b.assets).filter(a => selectedAssetIds.has(a.id)).map(a => a.id);
+
+  const toggleSelect = (assetId: string) => {
+    setSelectedAssetIds(prev => {
+      const next = new Set(prev);
+      if (next.has(assetId)) next.delete(assetId);
+      else next.add(assetId);
+      return next;
+    });
+  };
+
+  const closeLightbox = () => {
+    setCompare(null);
+    setLightbox({ isOpen: false, url: '' });
+  };
+
   return (
     <>
       <div className="space-y-12 animate-fade-in">
+        <div className="flex justify-end items-center gap-4 -mb-8">
+          {selectedIds.length > 0 && (
+            <>
+              <button
+                onClick={() => onExportAssets(selectedIds)}
+                className="flex items-center gap-1.5 text-xs text-gold-400 hover:text-gold-300 transition-colors"
+              >
+                <FileArchive size={14} />
+                {t('gallery.exportSelected', { count: selectedIds.length })}
+              </button>
+              <button
+                onClick={() => setSelectedAssetIds(new Set())}
+                className="text-xs text-gray-500 hover:text-white transition-colors"
+              >
+                {t('gallery.clearSelection')}
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-gold-400 transition-colors"
+          >
+            <Import size={14} />
+            {t('gallery.importZip')}
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onImport(file);
+            }}
+          />
+          <button
+            onClick={onClearHistory}
+            className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-red-400 transition-colors"
+          >
+            <Trash2 size={14} />
+            {t('gallery.clearHistory')}
+          </button>
+        </div>
         {history.map((batch, index) => (
           <div key={batch.id} className="space-y-4">
              {/* Batch Header */}
@@ -381,15 +825,46 @@ export const ResultGallery: React.FC<ResultGalleryProps> = ({ history, onRegener
                 <div className="flex items-center gap-3">
                   <Clock size={16} className="text-gold-500" />
                   <h3 className="text-lg font-serif text-white">
-                    {index === 0 ? "最新生成" : "历史记录"} 
+                    {index === 0 ? t('gallery.latest') : t('gallery.history')} 
                     <span className="text-sm font-sans text-gray-500 ml-3">
-                      {new Date(batch.timestamp).toLocaleString()}
+                      {formatDateTime(batch.timestamp)}
                     </span>
                     <span className="ml-2 text-xs px-2 py-0.5 bg-gray-800 rounded text-gray-400 border border-gray-700">
-                       {batch.mode === 'try-on' ? '模特试戴' : '场景展示'}
+                       {t(MODE_LABELS[batch.mode])}
                     </span>
+                    {batch.sku && (
+                      <button
+                        onClick={() => onFilterSku?.(batch.sku!)}
+                        disabled={!onFilterSku}
+                        className="ml-2 text-xs px-2 py-0.5 bg-gold-500/10 rounded text-gold-400 border border-gold-500/30 hover:bg-gold-500/20 disabled:hover:bg-gold-500/10"
+                        title={t('gallery.filterSku')}
+                      >
+                        SKU {batch.sku}
+                      </button>
+                    )}
+                    {batch.inputs?.modelName && (
+                      <span className="ml-2 text-xs px-2 py-0.5 bg-gray-800 rounded text-gray-400 border border-gray-700">
+                        {t('gallery.model', { name: batch.inputs.modelName })}
+                      </span>
+                    )}
                   </h3>
                 </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => onExportBatch(batch.id)}
+                    className="p-1.5 rounded-md text-gray-500 hover:text-gold-400 hover:bg-white/5 transition-colors"
+                    title={t('gallery.exportBatch')}
+                  >
+                    <FileArchive size={16} />
+                  </button>
+                  <button
+                    onClick={() => onDeleteBatch(batch.id)}
+                    className="p-1.5 rounded-md text-gray-500 hover:text-red-400 hover:bg-white/5 transition-colors"
+                    title={t('gallery.deleteBatch')}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
              </div>
 
              {/* Grid */}
@@ -398,10 +873,16 @@ export const ResultGallery: React.FC<ResultGalleryProps> = ({ history, onRegener
                 <ResultCard 
                   key={asset.id} 
                   asset={asset} 
+                  batch={batch}
                   onRegenerate={onRegenerate}
                   onVerifyIntent={onVerifyIntent}
                   onDownloadHighRes={onDownloadHighRes}
-                  onImageClick={(url) => setLightbox({ isOpen: true, url })}
+                  onCancel={onCancelAsset}
+                  onRestoreVersion={onRestoreVersion}
+                  onPickCandidate={onPickCandidate}
+                  onImageClick={(url) => setLightbox({ isOpen: true, url, batchId: batch.id, assetId: asset.id })}
+                  isSelected={selectedAssetIds.has(asset.id)}
+                  onToggleSelect={toggleSelect}
                 />
               ))}
             </div>
@@ -410,17 +891,38 @@ export const ResultGallery: React.FC<ResultGalleryProps> = ({ history, onRegener
       </div>
 
       {/* Lightbox Modal */}
-      {lightbox.isOpen && (
+      {lightbox.isOpen && compare && (
+        <CompareView
+          left={compare.left}
+          right={compare.right}
+          candidates={compareCandidates}
+          onChangeLeft={(left) => setCompare({ ...compare, left })}
+          onChangeRight={(right) => setCompare({ ...compare, right })}
+          onClose={closeLightbox}
+        />
+      )}
+      {lightbox.isOpen && !compare && (
         <div 
           className="fixed inset-0 z-[100] bg-black/95 flex items-center justify-center p-4 backdrop-blur-sm"
-          onClick={() => setLightbox({ isOpen: false, url: '' })}
+          onClick={closeLightbox}
         >
-          <button 
-            className="absolute top-4 right-4 text-white/70 hover:text-white p-2 rounded-full hover:bg-white/10 transition-colors z-[110]"
-            onClick={() => setLightbox({ isOpen: false, url: '' })}
-          >
-            <X size={32} />
-          </button>
+          <div className="absolute top-4 right-4 flex items-center gap-2 z-[110]">
+            {compareCandidates.flatMap(g => g.images).length > 1 && (
+              <button
+                className="flex items-center gap-1.5 px-3 py-2 text-sm text-white/80 hover:text-white rounded-full hover:bg-white/10 transition-colors"
+                onClick={(e) => { e.stopPropagation(); openCompare(); }}
+              >
+                <SplitSquareHorizontal size={18} />
+                {t('compare.open')}
+              </button>
+            )}
+            <button 
+              className="text-white/70 hover:text-white p-2 rounded-full hover:bg-white/10 transition-colors"
+              onClick={closeLightbox}
+            >
+              <X size={32} />
+            </button>
+          </div>
 
           <img 
             src={lightbox.url} 
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { RefreshCw, ChevronDown, ChevronUp, RotateCcw } from 'lucide-react';
+import { RETRY_OPERATIONS, RetryOperationName, RetryPolicy, configureRetryPolicy, getRetryPolicy, resetRetryPolicy } from '../services/geminiService';
+import { MessageKey, t } from '../services/i18n';
+
+const OPERATION_LABELS: Record<RetryOperationName, MessageKey> = {
+  image: 'retry.operation.image',
+  intent: 'retry.operation.intent',
+};
+
+const inputClass = 'w-14 bg-black/50 border border-gray-700 rounded px-1.5 py-0.5 text-white focus:border-gold-500 outline-none';
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Per-operation retry policy; changes apply to the next call and are kept across sessions
+export const RetrySettings: React.FC = () => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [policies, setPolicies] = useState(() => Object.fromEntries(RETRY_OPERATIONS.map(op => [op, getRetryPolicy(op)])) as Record<RetryOperationName, RetryPolicy>);
+
+  const update = (operation: RetryOperationName, overrides: Partial<RetryPolicy>) => {
+    configureRetryPolicy(operation, overrides);
+    setPolicies({ ...policies, [operation]: getRetryPolicy(operation) });
+  };
+
+  const reset = (operation: RetryOperationName) => {
+    resetRetryPolicy(operation);
+    setPolicies({ ...policies, [operation]: getRetryPolicy(operation) });
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-800 bg-black/20 text-xs text-gray-400">
+      <button onClick={() => setIsExpanded(!isExpanded)} className="w-full flex items-center gap-2 px-3 py-2 text-gray-300">
+        <RefreshCw size={12} className="text-gold-400" />
+        <span className="flex-1 text-left">{t('retry.title')}</span>
+        {isExpanded ? <ChevronUp size={14} className="text-gray-500" /> : <ChevronDown size={14} className="text-gray-500" />}
+      </button>
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-3">
+          {RETRY_OPERATIONS.map(operation => {
+            const policy = policies[operation];
+            return (
+              <div key={operation} className="space-y-1.5">
+                <div className="flex items-center justify-between text-gray-300">
+                  {t(OPERATION_LABELS[operation])}
+                  <button onClick={() => reset(operation)} className="p-0.5 text-gray-500 hover:text-white" title={t('retry.reset')}>
+                    <RotateCcw size={12} />
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-x-3 gap-y-1.5">
+                  <label className="flex items-center justify-between gap-2">
+                    {t('retry.attempts')}
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={policy.attempts}
+                      onChange={(e) => update(operation, { attempts: clamp(Math.round(Number(e.target.value)) || 1, 1, 10) })}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="flex items-center justify-between gap-2">
+                    {t('retry.jitter')}
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={Math.round(policy.jitter * 100)}
+                      onChange={(e) => update(operation, { jitter: clamp(Number(e.target.value) || 0, 0, 100) / 100 })}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="flex items-center justify-between gap-2">
+                    {t('retry.baseDelay')}
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={policy.baseDelayMs / 1000}
+                      onChange={(e) => update(operation, { baseDelayMs: Math.max(0, Number(e.target.value) || 0) * 1000 })}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="flex items-center justify-between gap-2">
+                    {t('retry.maxDelay')}
+                    <input
+                      type="number"
+                      min={0}
+                      value={policy.maxDelayMs / 1000}
+                      onChange={(e) => update(operation, { maxDelayMs: Math.max(0, Number(e.target.value) || 0) * 1000 })}
+                      className={inputClass}
+                    />
+                  </label>
+                </div>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={policy.honorRetryAfter}
+                    onChange={(e) => update(operation, { honorRetryAfter: e.target.checked })}
+                    className="accent-gold-500"
+                  />
+                  {t('retry.honorRetryAfter')}
+                </label>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
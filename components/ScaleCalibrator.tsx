@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { X, Ruler } from 'lucide-react';
+import { Dimensions, Point, ScaleCalibration } from '../types';
+import { SCALE_FEATURES, DEFAULT_SCALE_TOLERANCE, computePxPerMm, getLongestSideMm } from '../services/scaleCalibration';
+import { t } from '../services/i18n';
+
+export interface CalibrationImage {
+  source: ScaleCalibration['source'];
+  imageIndex: number;
+  label: string;
+  url: string;
+}
+
+interface ScaleCalibratorProps {
+  images: CalibrationImage[];
+  dimensions: Dimensions;
+  calibration: ScaleCalibration | null;
+  onSave: (calibration: ScaleCalibration) => void;
+  onClose: () => void;
+}
+
+const TOLERANCES = [0.1, 0.2, 0.3, 0.5];
+
+const inputClass = 'w-full bg-black/50 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-white focus:border-gold-500 outline-none';
+
+export const ScaleCalibrator: React.FC<ScaleCalibratorProps> = ({ images, dimensions, calibration, onSave, onClose }) => {
+  const initialImage = images.findIndex(img => img.source === calibration?.source && img.imageIndex === calibration?.imageIndex);
+  const [imageIndex, setImageIndex] = useState(Math.max(0, initialImage));
+  const [start, setStart] = useState<Point | null>(initialImage >= 0 ? calibration!.start : null);
+  const [end, setEnd] = useState<Point | null>(initialImage >= 0 ? calibration!.end : null);
+  const [featureIndex, setFeatureIndex] = useState(() => Math.max(0, SCALE_FEATURES.findIndex(f => f.prompt === calibration?.featurePrompt)));
+  const [lengthMm, setLengthMm] = useState(String(calibration?.lengthMm ?? SCALE_FEATURES[0].lengthMm));
+  const [tolerance, setTolerance] = useState(calibration?.tolerance ?? DEFAULT_SCALE_TOLERANCE);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+
+  const image = images[imageIndex];
+  const feature = SCALE_FEATURES[featureIndex];
+  const length = parseFloat(lengthMm);
+  const pxPerMm = start && end && naturalSize ? computePxPerMm(start, end, length, naturalSize) : 0;
+  const pieceMm = getLongestSideMm(dimensions);
+
+  const selectImage = (index: number) => {
+    setImageIndex(index);
+    setStart(null);
+    setEnd(null);
+    setNaturalSize(null);
+  };
+
+  const selectFeature = (index: number) => {
+    setFeatureIndex(index);
+    const typical = SCALE_FEATURES[index].lengthMm;
+    if (typical) setLengthMm(String(typical));
+  };
+
+  // First click starts a new segment, the second closes it
+  const handleImageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point = { x: (e.clientX - rect.left) / rect.width * 100, y: (e.clientY - rect.top) / rect.height * 100 };
+    if (!start || end) {
+      setStart(point);
+      setEnd(null);
+    } else {
+      setEnd(point);
+    }
+  };
+
+  const handleSave = () => {
+    if (!start || !end || !(pxPerMm > 0)) return;
+    onSave({
+      source: image.source,
+      imageIndex: image.imageIndex,
+      featureLabel: t(feature.label),
+      featurePrompt: feature.prompt,
+      lengthMm: length,
+      start,
+      end,
+      pxPerMm,
+      tolerance,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 flex items-center justify-center p-4 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-luxury-charcoal border border-gray-800 rounded-2xl w-full max-w-4xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-800">
+          <h2 className="text-lg font-serif text-white flex items-center gap-2">
+            <Ruler size={18} className="text-gold-400" />
+            {t('scale.title')}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white p-1 rounded-full hover:bg-white/10">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <section className="flex-1 p-4 flex items-center justify-center bg-black/40 min-h-0">
+            <div className="relative inline-block cursor-crosshair select-none" onClick={handleImageClick}>
+              <img
+                src={image.url}
+                onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                className="max-h-[65vh] max-w-full block"
+                draggable={false}
+              />
+              <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                {start && end && (
+                  <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke="#D4AF37" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+                )}
+              </svg>
+              {[start, end].map((p, i) => p && (
+                <span
+                  key={i}
+                  className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2 border-gold-400 bg-black/60 pointer-events-none"
+                  style={{ left: `${p.x}%`, top: `${p.y}%` }}
+                />
+              ))}
+            </div>
+          </section>
+
+          <aside className="w-64 border-l border-gray-800 p-4 space-y-4 overflow-y-auto text-xs text-gray-300">
+            <div>
+              <span className="block mb-1.5 text-gray-500">{t('scale.image')}</span>
+              <div className="flex gap-1.5 flex-wrap">
+                {images.map((img, i) => (
+                  <button
+                    key={`${img.source}-${img.imageIndex}`}
+                    onClick={() => selectImage(i)}
+                    className={`w-12 h-12 rounded border overflow-hidden ${i === imageIndex ? 'border-gold-500' : 'border-gray-700 opacity-60 hover:opacity-100'}`}
+                    title={img.label}
+                  >
+                    <img src={img.url} className="w-full h-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <label className="block space-y-1.5">
+              <span className="text-gray-500">{t('scale.feature')}</span>
+              <select value={featureIndex} onChange={(e) => selectFeature(Number(e.target.value))} className={inputClass}>
+                {SCALE_FEATURES.map((f, i) => <option key={f.label} value={i}>{t(f.label)}</option>)}
+              </select>
+            </label>
+
+            <label className="block space-y-1.5">
+              <span className="text-gray-500">{t('scale.length')}</span>
+              <input type="number" min={0} value={lengthMm} onChange={(e) => setLengthMm(e.target.value)} className={inputClass} />
+            </label>
+
+            <label className="block space-y-1.5">
+              <span className="text-gray-500">{t('scale.tolerance')}</span>
+              <select value={tolerance} onChange={(e) => setTolerance(Number(e.target.value))} className={inputClass}>
+                {TOLERANCES.map(value => <option key={value} value={value}>±{Math.round(value * 100)}%</option>)}
+              </select>
+            </label>
+
+            <div className="rounded-lg bg-black/30 border border-gray-800 p-2 space-y-1">
+              {!start || !end ? (
+                <p className="text-gray-500">{t('scale.clickHint')}</p>
+              ) : (
+                <>
+                  <p>{t('scale.ratio', { ratio: pxPerMm > 0 ? `${pxPerMm.toFixed(2)} px/mm` : t('scale.invalidLength') })}</p>
+                  {pxPerMm > 0 && (pieceMm
+                    ? <p>{t('scale.expectedSize', { mm: Math.round(pieceMm * 10) / 10, px: Math.round(pieceMm * pxPerMm) })}</p>
+                    : <p className="text-gray-500">{t('scale.needDimensions')}</p>)}
+                </>
+              )}
+            </div>
+
+            <div className="flex gap-2 pt-2">
+              <button onClick={onClose} className="flex-1 py-1.5 text-gray-400 hover:bg-white/5 rounded-lg">{t('common.cancel')}</button>
+              <button
+                onClick={handleSave}
+                disabled={!(pxPerMm > 0)}
+                className="flex-1 py-1.5 bg-gold-600 text-black font-bold rounded-lg hover:bg-gold-500 disabled:opacity-40"
+              >
+                {t('common.save')}
+              </button>
+            </div>
+          </aside>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,293 @@
+import React, { useState, useRef, useId } from 'react';
+import { Square, Lasso, Pentagon, Brush, Eraser, Plus, Trash2, Undo2 } from 'lucide-react';
+import { AspectRatio, Point, SelectionRegion, SelectionShape, SelectionTool } from '../types';
+import { getRegionBounds } from '../services/imageMask';
+import { MessageKey, t } from '../services/i18n';
+
+// Region colours, indexed by region position
+export const REGION_COLORS = ['#D4AF37', '#38BDF8', '#F472B6', '#4ADE80', '#FB923C', '#A78BFA'];
+
+const MIN_RECT_SIZE = 1; // percent; smaller drags are treated as accidental clicks
+const LASSO_MIN_STEP = 0.6; // percent between recorded lasso/brush points
+const POLYGON_CLOSE_DISTANCE = 2.5; // percent; clicking this close to the first point closes the polygon
+
+// SVG user space is 100 wide and (100 * h / w) tall, so brush widths (percent of width) are not distorted
+const viewHeight = (ratio: AspectRatio) => {
+  const [w, h] = ratio.split(':').map(Number);
+  return 100 * h / w;
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// --- Overlay ---
+
+interface SelectionOverlayProps {
+  regions: SelectionRegion[];
+  aspectRatio: AspectRatio;
+  tool: SelectionTool;
+  brushSize: number;
+  isEditing: boolean;
+  onAddShape: (shape: SelectionShape) => void;
+}
+
+type Draft =
+  | { type: 'rect'; start: Point; end: Point }
+  | { type: 'lasso'; points: Point[] }
+  | { type: 'polygon'; points: Point[]; cursor?: Point }
+  | { type: 'brush'; points: Point[]; erase: boolean };
+
+export const SelectionOverlay: React.FC<SelectionOverlayProps> = ({ regions, aspectRatio, tool, brushSize, isEditing, onAddShape }) => {
+  const maskIdPrefix = useId();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const height = viewHeight(aspectRatio);
+  const toView = (p: Point) => `${p.x},${p.y * height / 100}`;
+
+  const toPercent = (e: React.PointerEvent | React.MouseEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)),
+      y: Math.min(100, Math.max(0, ((e.clientY - rect.top) / rect.height) * 100)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!isEditing) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const point = toPercent(e);
+
+    if (tool === 'polygon') {
+      const points = draft?.type === 'polygon' ? draft.points : [];
+      if (points.length >= 3 && distance(points[0], point) < POLYGON_CLOSE_DISTANCE) {
+        onAddShape({ type: 'polygon', points });
+        setDraft(null);
+        return;
+      }
+      setDraft({ type: 'polygon', points: [...points, point] });
+      return;
+    }
+
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+    if (tool === 'rect') setDraft({ type: 'rect', start: point, end: point });
+    else if (tool === 'lasso') setDraft({ type: 'lasso', points: [point] });
+    else setDraft({ type: 'brush', points: [point], erase: tool === 'eraser' });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!draft) return;
+    e.preventDefault();
+    const point = toPercent(e);
+    if (draft.type === 'rect') {
+      setDraft({ ...draft, end: point });
+    } else if (draft.type === 'polygon') {
+      setDraft({ ...draft, cursor: point });
+    } else if (distance(draft.points[draft.points.length - 1], point) >= LASSO_MIN_STEP) {
+      setDraft({ ...draft, points: [...draft.points, point] });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!draft || draft.type === 'polygon') return;
+    if (draft.type === 'rect') {
+      const rect = {
+        x: Math.min(draft.start.x, draft.end.x),
+        y: Math.min(draft.start.y, draft.end.y),
+        width: Math.abs(draft.end.x - draft.start.x),
+        height: Math.abs(draft.end.y - draft.start.y),
+      };
+      if (rect.width >= MIN_RECT_SIZE && rect.height >= MIN_RECT_SIZE) onAddShape({ type: 'rect', rect });
+    } else if (draft.type === 'lasso') {
+      if (draft.points.length >= 3) onAddShape({ type: 'polygon', points: draft.points });
+    } else {
+      onAddShape({ type: 'brush', points: draft.points, size: brushSize, erase: draft.erase });
+    }
+    setDraft(null);
+  };
+
+  // Double-click closes an open polygon
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (draft?.type === 'polygon' && draft.points.length >= 3) {
+      onAddShape({ type: 'polygon', points: draft.points });
+      setDraft(null);
+    }
+  };
+
+  const renderShape = (shape: SelectionShape, key: number, color: string) => {
+    if (shape.type === 'rect') {
+      const { x, y, width, height: h } = shape.rect;
+      return <rect key={key} x={x} y={y * height / 100} width={width} height={h * height / 100} fill={color} />;
+    }
+    if (shape.type === 'polygon') {
+      return <polygon key={key} points={shape.points.map(toView).join(' ')} fill={color} />;
+    }
+    return (
+      <polyline
+        key={key}
+        points={(shape.points.length === 1 ? [shape.points[0], shape.points[0]] : shape.points).map(toView).join(' ')}
+        fill="none"
+        stroke={shape.erase ? 'black' : color}
+        strokeWidth={shape.size}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    );
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 100 ${height}`}
+      preserveAspectRatio="none"
+      className={`absolute inset-0 w-full h-full z-10 ${isEditing ? 'cursor-crosshair touch-none' : 'pointer-events-none'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={handlePointerUp}
+      onDoubleClick={handleDoubleClick}
+      onClick={(e) => isEditing && e.stopPropagation()}
+    >
+      <defs>
+        {regions.map(region => (
+          <mask key={region.id} id={`${maskIdPrefix}-${region.id}`} maskUnits="userSpaceOnUse" x={0} y={0} width={100} height={height}>
+            <rect x={0} y={0} width={100} height={height} fill="black" />
+            {region.shapes.map((shape, i) => renderShape(shape, i, 'white'))}
+          </mask>
+        ))}
+      </defs>
+
+      {regions.map((region, index) => {
+        const color = REGION_COLORS[index % REGION_COLORS.length];
+        const bounds = getRegionBounds(region);
+        return (
+          <g key={region.id}>
+            <rect x={0} y={0} width={100} height={height} fill={color} fillOpacity={0.35} mask={`url(#${maskIdPrefix}-${region.id})`} />
+            {bounds && (
+              <text x={bounds.x + 1} y={bounds.y * height / 100 + 4} fontSize={4} fontWeight="bold" fill={color}>
+                {index + 1}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      {/* In-progress shape */}
+      {draft?.type === 'rect' && (
+        <rect
+          x={Math.min(draft.start.x, draft.end.x)}
+          y={Math.min(draft.start.y, draft.end.y) * height / 100}
+          width={Math.abs(draft.end.x - draft.start.x)}
+          height={Math.abs(draft.end.y - draft.start.y) * height / 100}
+          fill="none" stroke="#D4AF37" strokeWidth={0.5} strokeDasharray="1.5 1"
+        />
+      )}
+      {(draft?.type === 'lasso' || draft?.type === 'polygon') && (
+        <polyline
+          points={[...draft.points, ...(draft.type === 'polygon' && draft.cursor ? [draft.cursor] : [])].map(toView).join(' ')}
+          fill="none" stroke="#D4AF37" strokeWidth={0.5} strokeDasharray="1.5 1"
+        />
+      )}
+      {draft?.type === 'brush' && (
+        <polyline
+          points={draft.points.map(toView).join(' ')}
+          fill="none" stroke={draft.erase ? '#ef4444' : '#D4AF37'} strokeOpacity={0.6}
+          strokeWidth={brushSize} strokeLinecap="round" strokeLinejoin="round"
+        />
+      )}
+    </svg>
+  );
+};
+
+// --- Toolbar ---
+
+interface SelectionToolbarProps {
+  tool: SelectionTool;
+  onToolChange: (tool: SelectionTool) => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  regions: SelectionRegion[];
+  activeRegionId: string | null;
+  onSelectRegion: (id: string) => void;
+  onAddRegion: () => void;
+  onRemoveRegion: (id: string) => void;
+  onInstructionChange: (id: string, instruction: string) => void;
+  onUndo: () => void;
+}
+
+const TOOLS: { id: SelectionTool, label: MessageKey, icon: React.ReactNode }[] = [
+  { id: 'rect', label: 'selection.tool.rect', icon: <Square size={12} /> },
+  { id: 'lasso', label: 'selection.tool.lasso', icon: <Lasso size={12} /> },
+  { id: 'polygon', label: 'selection.tool.polygon', icon: <Pentagon size={12} /> },
+  { id: 'brush', label: 'selection.tool.brush', icon: <Brush size={12} /> },
+  { id: 'eraser', label: 'selection.tool.eraser', icon: <Eraser size={12} /> },
+];
+
+export const SelectionToolbar: React.FC<SelectionToolbarProps> = ({
+  tool, onToolChange, brushSize, onBrushSizeChange,
+  regions, activeRegionId, onSelectRegion, onAddRegion, onRemoveRegion, onInstructionChange, onUndo
+}) => (
+  <div className="space-y-2">
+    <div className="flex flex-wrap items-center gap-1">
+      {TOOLS.map(item => (
+        <button
+          key={item.id}
+          onClick={() => onToolChange(item.id)}
+          className={`px-1.5 py-1 rounded flex items-center gap-1 text-[10px] transition-colors ${tool === item.id ? 'bg-gold-600 text-black' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          title={t(item.label)}
+        >
+          {item.icon}
+          {t(item.label)}
+        </button>
+      ))}
+      <button onClick={onUndo} className="p-1 rounded text-gray-400 hover:text-white hover:bg-white/10" title={t('selection.undo')}>
+        <Undo2 size={12} />
+      </button>
+    </div>
+
+    {(tool === 'brush' || tool === 'eraser') && (
+      <label className="flex items-center gap-2 text-[10px] text-gray-400">
+        {t('selection.brushSize')}
+        <input
+          type="range" min={1} max={15} step={0.5}
+          value={brushSize}
+          onChange={(e) => onBrushSizeChange(Number(e.target.value))}
+          className="flex-1 accent-gold-500"
+        />
+        <span className="w-6 text-right">{brushSize}</span>
+      </label>
+    )}
+    {tool === 'polygon' && (
+      <p className="text-[10px] text-gray-500">{t('selection.polygonHint')}</p>
+    )}
+
+    <div className="space-y-1">
+      {regions.map((region, index) => (
+        <div
+          key={region.id}
+          onClick={() => onSelectRegion(region.id)}
+          className={`flex items-center gap-1.5 rounded px-1.5 py-1 border cursor-pointer ${region.id === activeRegionId ? 'border-gold-500/60 bg-gold-500/10' : 'border-gray-800'}`}
+        >
+          <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: REGION_COLORS[index % REGION_COLORS.length] }} />
+          <input
+            value={region.instruction}
+            onChange={(e) => onInstructionChange(region.id, e.target.value)}
+            placeholder={t('selection.instructionPlaceholder', { index: index + 1 })}
+            className="flex-1 min-w-0 bg-transparent text-[10px] text-gray-200 placeholder-gray-600 outline-none"
+          />
+          <button
+            onClick={(e) => { e.stopPropagation(); onRemoveRegion(region.id); }}
+            className="text-gray-500 hover:text-red-400"
+            title={t('selection.removeRegion')}
+          >
+            <Trash2 size={10} />
+          </button>
+        </div>
+      ))}
+      <button onClick={onAddRegion} className="flex items-center gap-1 text-[10px] text-gold-400 hover:text-gold-300">
+        <Plus size={10} />
+        {t('selection.addRegion')}
+      </button>
+    </div>
+  </div>
+);
@@ -0,0 +1,121 @@
+import React from 'react';
+import { Plus, Trash2, Gem } from 'lucide-react';
+import { Dimensions, JewelryCategory, SetPiece, UploadedFile } from '../types';
+import { FileUpload } from './FileUpload.tsx';
+import { JEWELRY_CATEGORIES, getCategoryLabel } from '../services/categories';
+import { t } from '../services/i18n';
+
+interface SetPiecesEditorProps {
+  pieces: SetPiece[]; // Extra pieces; piece 1 is the product in the main form
+  mainCategory: JewelryCategory;
+  onChange: (pieces: SetPiece[]) => void;
+  onCompareProduct?: (files: UploadedFile[], index: number) => void; // Original vs preprocessed
+}
+
+const inputClass = 'bg-black/50 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-gold-500 outline-none';
+
+// Suggests a category the set doesn't contain yet
+const nextCategory = (used: JewelryCategory[]) => JEWELRY_CATEGORIES.find(c => !used.includes(c)) ?? JEWELRY_CATEGORIES[0];
+
+export const SetPiecesEditor: React.FC<SetPiecesEditorProps> = ({ pieces, mainCategory, onChange, onCompareProduct }) => {
+  const updatePiece = (id: string, updates: Partial<SetPiece>) => {
+    onChange(pieces.map(p => p.id === id ? { ...p, ...updates } : p));
+  };
+
+  const updateDimensions = (piece: SetPiece, updates: Partial<Dimensions>) => {
+    updatePiece(piece.id, { dimensions: { ...piece.dimensions, ...updates } });
+  };
+
+  const addPiece = () => {
+    onChange([...pieces, {
+      id: `piece-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      category: nextCategory([mainCategory, ...pieces.map(p => p.category)]),
+      productImages: [],
+      referenceImages: [],
+      dimensions: { width: '', height: '', unit: 'mm' },
+    }]);
+  };
+
+  return (
+    <div className="pt-2 border-t border-gray-700 space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-300 flex items-center gap-2">
+          <Gem size={16} />
+          {t('set.title')}
+        </label>
+        <button onClick={addPiece} className="flex items-center gap-1 text-xs text-gold-400 hover:text-gold-300">
+          <Plus size={12} />
+          {t('set.addPiece')}
+        </button>
+      </div>
+      {pieces.length === 0 ? (
+        <p className="text-xs text-gray-500">{t('set.emptyHint')}</p>
+      ) : (
+        <p className="text-xs text-gray-500">{t('set.mainPieceHint', { category: getCategoryLabel(mainCategory) })}</p>
+      )}
+
+      {pieces.map((piece, index) => (
+        <div key={piece.id} className="rounded-xl border border-gray-700 bg-black/20 p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gold-400 shrink-0">{t('set.piece', { index: index + 2 })}</span>
+            <select
+              value={piece.category}
+              onChange={(e) => updatePiece(piece.id, { category: e.target.value as JewelryCategory })}
+              className={`${inputClass} flex-1 py-1.5`}
+            >
+              {JEWELRY_CATEGORIES.map(c => (
+                <option key={c} value={c}>{getCategoryLabel(c)}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange(pieces.filter(p => p.id !== piece.id))}
+              className="p-1.5 rounded-md text-gray-500 hover:text-red-400 hover:bg-white/5"
+              title={t('set.removePiece')}
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+          <FileUpload
+            label={t('set.productImages')}
+            multiple={true}
+            value={piece.productImages}
+            onChange={(files) => updatePiece(piece.id, { productImages: files as UploadedFile[] })}
+            onCompare={onCompareProduct && ((index) => onCompareProduct(piece.productImages, index))}
+            markPrimary={true}
+          />
+          <FileUpload
+            label={t('set.referenceImages')}
+            subLabel={t('set.referenceHint')}
+            multiple={true}
+            value={piece.referenceImages}
+            onChange={(files) => updatePiece(piece.id, { referenceImages: files as UploadedFile[] })}
+          />
+          <div className="flex gap-2">
+            <input
+              type="number"
+              placeholder={t('dimensions.width')}
+              value={piece.dimensions.width}
+              onChange={(e) => updateDimensions(piece, { width: e.target.value })}
+              className={`${inputClass} w-1/3`}
+            />
+            <input
+              type="number"
+              placeholder={t('dimensions.height')}
+              value={piece.dimensions.height}
+              onChange={(e) => updateDimensions(piece, { height: e.target.value })}
+              className={`${inputClass} w-1/3`}
+            />
+            <select
+              value={piece.dimensions.unit}
+              onChange={(e) => updateDimensions(piece, { unit: e.target.value as Dimensions['unit'] })}
+              className={`${inputClass} w-1/3 px-2`}
+            >
+              <option value="mm">mm</option>
+              <option value="cm">cm</option>
+            </select>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,314 @@
+import React, { useState } from 'react';
+import { X, BarChart3, Download, Trash2 } from 'lucide-react';
+import { GenerationBatch, ImageResolution, UsageEntry } from '../types';
+import {
+  BudgetAction, ModelPrice, UsageBudget, UsagePricing, USAGE_OPERATION_LABELS, formatCost, getDayKey, getEntryCost,
+  getMonthKey, summarizeUsage, sumCost, toUsageCsv,
+} from '../services/usageLedger';
+import { downloadBlob } from '../services/batchExport';
+import { MessageKey, formatDateTime, t } from '../services/i18n';
+
+interface UsageDashboardProps {
+  entries: UsageEntry[];
+  history: GenerationBatch[]; // For batch labels
+  pricing: UsagePricing;
+  budget: UsageBudget;
+  onPricingChange: (pricing: UsagePricing) => void;
+  onBudgetChange: (budget: UsageBudget) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+type GroupBy = 'day' | 'month' | 'sku' | 'batch' | 'operation' | 'model';
+
+const GROUP_LABELS: Record<GroupBy, MessageKey> = {
+  day: 'usage.groupBy.day',
+  month: 'usage.groupBy.month',
+  sku: 'usage.groupBy.sku',
+  batch: 'usage.groupBy.batch',
+  operation: 'usage.groupBy.operation',
+  model: 'usage.groupBy.model',
+};
+
+const GROUP_KEYS: Record<GroupBy, (entry: UsageEntry) => string | undefined> = {
+  day: e => getDayKey(e.timestamp),
+  month: e => getMonthKey(e.timestamp),
+  sku: e => e.sku,
+  batch: e => e.batchId,
+  operation: e => e.operation,
+  model: e => e.model,
+};
+
+const RESOLUTIONS: ImageResolution[] = ['2K', '4K'];
+const RECENT_LIMIT = 50;
+const EMPTY_PRICE: ModelPrice = { inputPerMTokens: 0, outputPerMTokens: 0, perImage: { '2K': 0, '4K': 0 } };
+
+const inputClass = 'bg-black/50 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-white focus:border-gold-500 outline-none';
+
+const formatDate = (ts: number) => formatDateTime(ts, { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+const formatTokens = (n: number) => n.toLocaleString();
+
+// Empty input clears the cap
+const parseCap = (value: string): number | undefined => value.trim() === '' || !(Number(value) >= 0) ? undefined : Number(value);
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ entries, history, pricing, budget, onPricingChange, onBudgetChange, onClear, onClose }) => {
+  const [groupBy, setGroupBy] = useState<GroupBy>('day');
+
+  const now = Date.now();
+  const today = entries.filter(e => getDayKey(e.timestamp) === getDayKey(now));
+  const thisMonth = entries.filter(e => getMonthKey(e.timestamp) === getMonthKey(now));
+  const groups = Array.from(summarizeUsage(entries, pricing, GROUP_KEYS[groupBy]));
+  // Calendar groups newest first, the rest by spend
+  const rows = groupBy === 'day' || groupBy === 'month'
+    ? groups.sort(([a], [b]) => b.localeCompare(a))
+    : groups.sort(([, a], [, b]) => b.cost - a.cost);
+  const models = Array.from(new Set([...Object.keys(pricing.models), ...entries.map(e => e.model)]));
+  const unpriced = models.filter(model => !pricing.models[model]);
+
+  const groupLabel = (key: string) => {
+    if (groupBy === 'operation') return t(USAGE_OPERATION_LABELS[key as UsageEntry['operation']]);
+    if (groupBy !== 'batch') return key;
+    const batch = history.find(b => b.id === key);
+    return batch ? `${formatDate(batch.timestamp)}${batch.sku ? ` · ${batch.sku}` : ''}` : t('usage.deletedBatch', { id: key });
+  };
+
+  const updatePrice = (model: string, updates: Partial<ModelPrice>) => {
+    const price = pricing.models[model] ?? EMPTY_PRICE;
+    onPricingChange({ ...pricing, models: { ...pricing.models, [model]: { ...price, ...updates } } });
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([toUsageCsv(entries, pricing)], { type: 'text/csv;charset=utf-8' }), `luxefit-usage-${getDayKey(now)}.csv`);
+  };
+
+  const handleClear = () => {
+    if (window.confirm(t('usage.clearConfirm', { count: entries.length }))) onClear();
+  };
+
+  const renderSpend = (label: string, spent: number, cap: number | undefined) => (
+    <div className="bg-black/30 border border-gray-800 rounded-xl p-4">
+      <span className="block text-[10px] text-gray-500">{label}</span>
+      <span className={`text-xl font-serif ${cap !== undefined && spent > cap ? 'text-red-400' : 'text-white'}`}>{formatCost(spent, pricing.currency)}</span>
+      {cap !== undefined && (
+        <>
+          <span className="text-xs text-gray-500"> / {formatCost(cap, pricing.currency)}</span>
+          <div className="mt-2 h-1 bg-gray-800 rounded-full overflow-hidden">
+            <div className={`h-full ${spent > cap ? 'bg-red-500' : 'bg-gold-500'}`} style={{ width: `${Math.min(100, cap > 0 ? spent / cap * 100 : 100)}%` }} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 flex items-center justify-center p-4 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-luxury-charcoal border border-gray-800 rounded-2xl w-full max-w-6xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-800">
+          <h2 className="text-lg font-serif text-white flex items-center gap-2">
+            <BarChart3 size={18} className="text-gold-400" />
+            {t('usage.title')}
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleExport}
+              disabled={entries.length === 0}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs border border-gray-700 text-gray-300 hover:border-gray-500 disabled:opacity-40"
+            >
+              <Download size={14} />
+              {t('usage.exportCsv')}
+            </button>
+            <button
+              onClick={handleClear}
+              disabled={entries.length === 0}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs border border-gray-700 text-gray-300 hover:border-red-500 hover:text-red-400 disabled:opacity-40"
+            >
+              <Trash2 size={14} />
+              {t('usage.clear')}
+            </button>
+            <button onClick={onClose} className="p-1.5 text-gray-500 hover:text-white">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {renderSpend(t('usage.today'), sumCost(today, pricing), budget.dailyCap)}
+            {renderSpend(t('usage.thisMonth'), sumCost(thisMonth, pricing), budget.monthlyCap)}
+            <div className="bg-black/30 border border-gray-800 rounded-xl p-4 space-y-2">
+              <span className="block text-[10px] text-gray-500">{t('usage.budget')}</span>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-[10px] text-gray-400 space-y-1">
+                  <span className="block">{t('usage.dailyCap', { currency: pricing.currency })}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={budget.dailyCap ?? ''}
+                    onChange={(e) => onBudgetChange({ ...budget, dailyCap: parseCap(e.target.value) })}
+                    placeholder={t('usage.noCap')}
+                    className={`${inputClass} w-full`}
+                  />
+                </label>
+                <label className="text-[10px] text-gray-400 space-y-1">
+                  <span className="block">{t('usage.monthlyCap', { currency: pricing.currency })}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={budget.monthlyCap ?? ''}
+                    onChange={(e) => onBudgetChange({ ...budget, monthlyCap: parseCap(e.target.value) })}
+                    placeholder={t('usage.noCap')}
+                    className={`${inputClass} w-full`}
+                  />
+                </label>
+              </div>
+              <select value={budget.action} onChange={(e) => onBudgetChange({ ...budget, action: e.target.value as BudgetAction })} className={`${inputClass} w-full`}>
+                <option value="warn">{t('usage.action.warn')}</option>
+                <option value="block">{t('usage.action.block')}</option>
+              </select>
+            </div>
+          </div>
+
+          <section className="space-y-2">
+            <div className="flex items-center gap-2">
+              <h3 className="text-sm text-white">{t('usage.breakdown')}</h3>
+              <select value={groupBy} onChange={(e) => setGroupBy(e.target.value as GroupBy)} className={inputClass}>
+                {(Object.keys(GROUP_LABELS) as GroupBy[]).map(key => (
+                  <option key={key} value={key}>{t(GROUP_LABELS[key])}</option>
+                ))}
+              </select>
+            </div>
+            {rows.length === 0 ? (
+              <p className="text-xs text-gray-500">{t('usage.empty')}</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead className="text-[10px] text-gray-500 text-left">
+                  <tr>
+                    <th className="py-1 font-normal">{t(GROUP_LABELS[groupBy])}</th>
+                    <th className="py-1 font-normal text-right">{t('usage.col.calls')}</th>
+                    <th className="py-1 font-normal text-right">{t('usage.col.failures')}</th>
+                    <th className="py-1 font-normal text-right">{t('usage.col.images')}</th>
+                    <th className="py-1 font-normal text-right">{t('usage.col.inputTokens')}</th>
+                    <th className="py-1 font-normal text-right">{t('usage.col.outputTokens')}</th>
+                    <th className="py-1 font-normal text-right">{t('usage.col.avgLatency')}</th>
+                    <th className="py-1 font-normal text-right">{t('usage.col.cost')}</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-300">
+                  {rows.map(([key, totals]) => (
+                    <tr key={key} className="border-t border-gray-800">
+                      <td className="py-1.5">{groupLabel(key)}</td>
+                      <td className="py-1.5 text-right">{totals.calls}</td>
+                      <td className={`py-1.5 text-right ${totals.failures ? 'text-amber-300' : ''}`}>{totals.failures}</td>
+                      <td className="py-1.5 text-right">{totals.images}</td>
+                      <td className="py-1.5 text-right">{formatTokens(totals.inputTokens)}</td>
+                      <td className="py-1.5 text-right">{formatTokens(totals.outputTokens)}</td>
+                      <td className="py-1.5 text-right">{(totals.latencyMs / totals.calls / 1000).toFixed(1)}s</td>
+                      <td className="py-1.5 text-right text-gold-400">{formatCost(totals.cost, pricing.currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center gap-2">
+              <h3 className="text-sm text-white">{t('usage.prices')}</h3>
+              <label className="flex items-center gap-1 text-[10px] text-gray-400">
+                {t('usage.currency')}
+                <input value={pricing.currency} onChange={(e) => onPricingChange({ ...pricing, currency: e.target.value })} className={`${inputClass} w-16`} />
+              </label>
+            </div>
+            <p className="text-[10px] text-gray-500">{t('usage.pricesHint')}</p>
+            <table className="w-full text-xs">
+              <thead className="text-[10px] text-gray-500 text-left">
+                <tr>
+                  <th className="py-1 font-normal">{t('usage.groupBy.model')}</th>
+                  <th className="py-1 font-normal">{t('usage.price.input')}</th>
+                  <th className="py-1 font-normal">{t('usage.price.output')}</th>
+                  {RESOLUTIONS.map(resolution => (
+                    <th key={resolution} className="py-1 font-normal">{t('usage.price.perImage', { resolution })}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {models.map(model => {
+                  const price = pricing.models[model] ?? EMPTY_PRICE;
+                  const priceInput = (value: number, onChange: (value: number) => void) => (
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={value}
+                      onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+                      className={`${inputClass} w-24`}
+                    />
+                  );
+                  return (
+                    <tr key={model} className="border-t border-gray-800">
+                      <td className="py-1.5 font-mono text-gray-300">
+                        {model}
+                        {unpriced.includes(model) && <span className="ml-2 text-[10px] text-amber-300">{t('usage.unpriced')}</span>}
+                      </td>
+                      <td className="py-1.5">{priceInput(price.inputPerMTokens, value => updatePrice(model, { inputPerMTokens: value }))}</td>
+                      <td className="py-1.5">{priceInput(price.outputPerMTokens, value => updatePrice(model, { outputPerMTokens: value }))}</td>
+                      {RESOLUTIONS.map(resolution => (
+                        <td key={resolution} className="py-1.5">
+                          {priceInput(price.perImage[resolution], value => updatePrice(model, { perImage: { ...price.perImage, [resolution]: value } }))}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm text-white">{t('usage.recent', { count: Math.min(RECENT_LIMIT, entries.length) })}</h3>
+            {entries.length === 0 ? (
+              <p className="text-xs text-gray-500">{t('usage.empty')}</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead className="text-[10px] text-gray-500 text-left">
+                  <tr>
+                    <th className="py-1 font-normal">{t('usage.col.time')}</th>
+                    <th className="py-1 font-normal">{t('usage.groupBy.operation')}</th>
+                    <th className="py-1 font-normal">{t('usage.groupBy.model')}</th>
+                    <th className="py-1 font-normal">{t('usage.groupBy.sku')}</th>
+                    <th className="py-1 font-normal text-right">{t('usage.col.attempts')}</th>
+                    <th className="py-1 font-normal text-right">{t('usage.col.latency')}</th>
+                    <th className="py-1 font-normal text-right">{t('usage.col.tokens')}</th>
+                    <th className="py-1 font-normal text-right">{t('usage.col.cost')}</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-300">
+                  {entries.slice(-RECENT_LIMIT).reverse().map(entry => (
+                    <tr key={entry.id} className="border-t border-gray-800">
+                      <td className="py-1.5 text-gray-500">{formatDate(entry.timestamp)}</td>
+                      <td className="py-1.5">
+                        {t(USAGE_OPERATION_LABELS[entry.operation])}
+                        {entry.resolution && <span className="text-gray-500"> · {entry.resolution}</span>}
+                        {!entry.success && <span className="ml-1 text-[10px] text-amber-300">{entry.errorKind ?? t('usage.failed')}</span>}
+                      </td>
+                      <td className="py-1.5 font-mono text-[10px] text-gray-400">{entry.model}</td>
+                      <td className="py-1.5 text-gray-400">{entry.sku ?? '—'}</td>
+                      <td className="py-1.5 text-right">{entry.attempts}</td>
+                      <td className="py-1.5 text-right">{(entry.latencyMs / 1000).toFixed(1)}s</td>
+                      <td className="py-1.5 text-right">
+                        {entry.inputTokens === undefined ? '—' : `${formatTokens(entry.inputTokens)} / ${formatTokens(entry.outputTokens ?? 0)}`}
+                      </td>
+                      <td className="py-1.5 text-right text-gold-400">{formatCost(getEntryCost(entry, pricing), pricing.currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
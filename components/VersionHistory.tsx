@@ -0,0 +1,69 @@
+import React from 'react';
+import { CheckCircle, GitBranch, RotateCcw } from 'lucide-react';
+import { AssetVersion, VersionKind } from '../types';
+import { flattenVersionTree } from '../services/versionHistory';
+import { MessageKey, t } from '../services/i18n';
+
+interface VersionHistoryProps {
+  versions: AssetVersion[];
+  currentVersionId?: string;
+  previewVersionId: string | null;
+  onPreview: (versionId: string | null) => void;
+  onRestore: (versionId: string) => void;
+  onBranch: (versionId: string) => void;
+}
+
+const KIND_LABELS: Record<VersionKind, MessageKey> = {
+  'initial': 'version.kind.initial',
+  'regenerate': 'version.kind.regenerate',
+  'region-edit': 'version.kind.region-edit',
+  'piece-edit': 'version.kind.piece-edit',
+  'upscale': 'version.kind.upscale',
+};
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ versions, currentVersionId, previewVersionId, onPreview, onRestore, onBranch }) => {
+  const nodes = flattenVersionTree(versions);
+
+  return (
+    <ul className="space-y-1 max-h-56 overflow-y-auto">
+      {nodes.map(({ version, depth, label }) => {
+        const isCurrent = version.id === currentVersionId;
+        const isPreviewing = version.id === previewVersionId;
+        return (
+          <li
+            key={version.id}
+            onMouseEnter={() => onPreview(version.id)}
+            onMouseLeave={() => onPreview(null)}
+            className={`flex items-center gap-2 rounded px-1.5 py-1 border ${isPreviewing ? 'border-gold-500/60 bg-gold-500/10' : 'border-transparent'}`}
+            style={{ marginLeft: depth * 10 }}
+          >
+            {depth > 0 && <GitBranch size={10} className="text-gray-600 shrink-0" />}
+            <img src={version.imageUrl} className="w-8 h-8 shrink-0 object-cover rounded border border-gray-700" />
+            <div className="flex-1 min-w-0">
+              <p className="text-[10px] text-gray-200 flex items-center gap-1">
+                {label}
+                <span className="text-gray-500">{t(KIND_LABELS[version.kind])} · {version.resolution}</span>
+                {version.templateVersion && <span className="text-gray-600 font-mono truncate">{version.templateVersion}</span>}
+                {version.seed !== undefined && <span className="text-gray-600 font-mono truncate">{t('version.seed', { seed: version.seed })}</span>}
+                {isCurrent && <CheckCircle size={10} className="text-gold-500" />}
+              </p>
+              {(version.feedback || version.interpretation) && (
+                <p className="text-[10px] text-gray-500 truncate" title={version.interpretation || version.feedback}>
+                  {version.feedback || version.interpretation}
+                </p>
+              )}
+            </div>
+            {!isCurrent && (
+              <button onClick={() => onRestore(version.id)} className="text-gray-500 hover:text-gold-400" title={t('version.restore')}>
+                <RotateCcw size={12} />
+              </button>
+            )}
+            <button onClick={() => onBranch(version.id)} className="text-gray-500 hover:text-gold-400" title={t('version.branch')}>
+              <GitBranch size={12} />
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -0,0 +1,626 @@
+import { AppMode, AspectRatio, AssetCandidate, AssetVersion, Dimensions, FidelityReport, GeneratedAsset, GenerationBatch, ImageResolution, JewelryCategory, Point, ScaleCalibration, ScaleMeasurement, SelectionRegion, SelectionShape, SetPieceSnapshot, VersionKind } from "../types";
+import { toFidelityDefect } from "./geminiService";
+import { blobToDataUrl, dataUrlToBlob } from "./storageService";
+import { createZip, readZip, ZipEntry } from "./zip";
+import { normalizeCategory } from "./categories";
+import { t } from "./i18n";
+
+// ZIP export/import of batches. The archive holds every image (all versions plus the input
+// photos) and a manifest.json recording how each image was made; importing it restores
+// the batches into history with their snapshots, so regenerate keeps working.
+
+const MANIFEST_FILE = 'manifest.json';
+const MANIFEST_FORMAT = 'luxefit-batch-export';
+// 2: categories are ids ("necklace") instead of Chinese names; version 1 archives still import
+const MANIFEST_VERSION = 2;
+
+export class ExportManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportManifestError';
+  }
+}
+
+// --- Manifest shape (image fields are paths inside the archive) ---
+
+interface ManifestVersion {
+  id: string;
+  parentId?: string;
+  kind: VersionKind;
+  image: string;
+  resolution: ImageResolution;
+  model?: string;
+  prompt?: string;
+  templateVersion?: string;
+  feedback?: string;
+  interpretation?: string;
+  regions?: SelectionRegion[];
+  referenceImages?: string[];
+  pieceId?: string;
+  scale?: ScaleMeasurement;
+  fidelity?: FidelityReport;
+  attempts?: number;
+  seed?: number;
+  candidateId?: string;
+  createdAt: string; // ISO 8601
+}
+
+interface ManifestCandidate {
+  id: string;
+  image?: string; // Missing for failed candidates
+  error?: string;
+  resolution: ImageResolution;
+  model?: string;
+  prompt?: string;
+  templateVersion?: string;
+  seed?: number;
+  fidelity?: FidelityReport;
+  attempts?: number;
+  createdAt: string;
+}
+
+interface ManifestAsset {
+  id: string;
+  mode: AppMode;
+  category?: JewelryCategory;
+  shotLabel: string;
+  shotPrompt?: string;
+  aspectRatio: AspectRatio;
+  resolution: ImageResolution;
+  model?: string; // Of the current version
+  prompt?: string; // Of the current version
+  templateVersion?: string; // Of the current version
+  image?: string;
+  currentVersionId?: string;
+  versions: ManifestVersion[];
+  candidates?: ManifestCandidate[];
+  chosenCandidateId?: string;
+  feedbackHistory: { versionId: string, feedback?: string, interpretation?: string, createdAt: string }[];
+}
+
+interface ManifestPiece {
+  id: string;
+  category: JewelryCategory;
+  productImages: string[];
+  referenceImages: string[];
+  dimensions: Dimensions;
+  dimensionsText: string;
+}
+
+interface ManifestInputs {
+  productImages: string[];
+  referenceImages: string[];
+  modelImage?: string;
+  category: JewelryCategory;
+  instructions: string;
+  scenePrompt?: string;
+  dimensions: Dimensions;
+  dimensionsText: string;
+  aspectRatio: AspectRatio;
+  pieces?: ManifestPiece[]; // Set styling
+  calibration?: ScaleCalibration;
+  modelId?: string; // Model library entry
+  modelName?: string;
+}
+
+interface ManifestBatch {
+  id: string;
+  mode: AppMode;
+  sku?: string;
+  createdAt: string; // ISO 8601
+  inputs?: ManifestInputs;
+  assets: ManifestAsset[];
+}
+
+export interface ExportManifest {
+  format: typeof MANIFEST_FORMAT;
+  version: number;
+  exportedAt: string;
+  batches: ManifestBatch[];
+}
+
+const EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/gif': 'gif' };
+const mimeFromPath = (path: string) =>
+  Object.entries(EXTENSIONS).find(([, ext]) => path.toLowerCase().endsWith(`.${ext}`))?.[0] ?? 'application/octet-stream';
+
+const toIso = (timestamp: number) => new Date(timestamp).toISOString();
+
+// --- Export ---
+
+// Collects image data URLs into archive entries, storing each distinct image once
+class ImageCollector {
+  entries: ZipEntry[] = [];
+  private paths = new Map<string, string>();
+  private pending: Promise<void>[] = [];
+
+  add(dataUrl: string, basePath: string): string {
+    const existing = this.paths.get(dataUrl);
+    if (existing) return existing;
+    const blob = dataUrlToBlob(dataUrl);
+    const path = `${basePath}.${EXTENSIONS[blob.type] ?? 'bin'}`;
+    this.paths.set(dataUrl, path);
+    this.pending.push(blob.arrayBuffer().then(buffer => {
+      this.entries.push({ name: path, data: new Uint8Array(buffer) });
+    }));
+    return path;
+  }
+
+  async done() {
+    await Promise.all(this.pending);
+    return this.entries.sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
+
+const exportVersion = (version: AssetVersion, dir: string, index: number, images: ImageCollector): ManifestVersion => ({
+  id: version.id,
+  parentId: version.parentId,
+  kind: version.kind,
+  image: images.add(version.imageUrl, `${dir}/v${index + 1}`),
+  resolution: version.resolution,
+  model: version.model,
+  prompt: version.prompt,
+  templateVersion: version.templateVersion,
+  feedback: version.feedback,
+  interpretation: version.interpretation,
+  regions: version.regions,
+  referenceImages: version.referenceImages?.map((url, i) => images.add(url, `${dir}/v${index + 1}-feedback-${i + 1}`)),
+  pieceId: version.pieceId,
+  scale: version.scale,
+  fidelity: version.fidelity,
+  attempts: version.attempts,
+  seed: version.seed,
+  candidateId: version.candidateId,
+  createdAt: toIso(version.createdAt),
+});
+
+const exportCandidate = (candidate: AssetCandidate, dir: string, index: number, images: ImageCollector): ManifestCandidate => ({
+  id: candidate.id,
+  image: candidate.imageUrl ? images.add(candidate.imageUrl, `${dir}/candidate-${index + 1}`) : undefined,
+  error: candidate.error,
+  resolution: candidate.resolution,
+  model: candidate.model,
+  prompt: candidate.prompt,
+  templateVersion: candidate.templateVersion,
+  seed: candidate.seed,
+  fidelity: candidate.fidelity,
+  attempts: candidate.attempts,
+  createdAt: toIso(candidate.createdAt),
+});
+
+const exportAsset = (batch: GenerationBatch, asset: GeneratedAsset, index: number, images: ImageCollector): ManifestAsset => {
+  const dir = `${batch.id}/${String(index + 1).padStart(2, '0')}-${asset.id}`;
+  const versions = (asset.versions ?? []).map((v, i) => exportVersion(v, dir, i, images));
+  const current = asset.versions?.find(v => v.id === asset.currentVersionId);
+  return {
+    id: asset.id,
+    mode: batch.mode,
+    category: batch.inputs?.category,
+    shotLabel: asset.imagePrompt,
+    shotPrompt: asset.shotPrompt,
+    aspectRatio: asset.aspectRatio,
+    resolution: asset.resolution,
+    model: current?.model,
+    prompt: current?.prompt,
+    templateVersion: current?.templateVersion,
+    image: asset.imageUrl ? images.add(asset.imageUrl, `${dir}/current`) : undefined,
+    currentVersionId: asset.currentVersionId,
+    versions,
+    candidates: asset.candidates?.map((c, i) => exportCandidate(c, dir, i, images)),
+    chosenCandidateId: asset.chosenCandidateId,
+    feedbackHistory: versions
+      .filter(v => v.feedback || v.interpretation)
+      .map(v => ({ versionId: v.id, feedback: v.feedback, interpretation: v.interpretation, createdAt: v.createdAt })),
+  };
+};
+
+const exportPiece = (piece: SetPieceSnapshot, dir: string, index: number, images: ImageCollector): ManifestPiece => ({
+  id: piece.id,
+  category: piece.category,
+  productImages: piece.productImages.map((url, i) => images.add(url, `${dir}/piece-${index + 1}-product-${i + 1}`)),
+  referenceImages: piece.referenceImages.map((url, i) => images.add(url, `${dir}/piece-${index + 1}-reference-${i + 1}`)),
+  dimensions: { ...piece.dimensions },
+  dimensionsText: piece.dimensionsText,
+});
+
+const exportBatch = (batch: GenerationBatch, assets: GeneratedAsset[], images: ImageCollector): ManifestBatch => {
+  const inputs = batch.inputs;
+  const dir = `${batch.id}/inputs`;
+  return {
+    id: batch.id,
+    mode: batch.mode,
+    sku: batch.sku,
+    createdAt: toIso(batch.timestamp),
+    inputs: inputs && {
+      productImages: inputs.productImages.map((url, i) => images.add(url, `${dir}/product-${i + 1}`)),
+      referenceImages: inputs.referenceImages.map((url, i) => images.add(url, `${dir}/reference-${i + 1}`)),
+      modelImage: inputs.modelImage ? images.add(inputs.modelImage, `${dir}/model`) : undefined,
+      category: inputs.category,
+      instructions: inputs.instructions,
+      scenePrompt: inputs.scenePrompt,
+      dimensions: { ...inputs.dimensions },
+      dimensionsText: inputs.dimensionsText,
+      aspectRatio: inputs.aspectRatio,
+      pieces: inputs.pieces?.map((piece, i) => exportPiece(piece, dir, i, images)),
+      calibration: inputs.calibration && { ...inputs.calibration },
+      modelId: inputs.modelId,
+      modelName: inputs.modelName,
+    },
+    assets: assets.map(asset => exportAsset(batch, asset, batch.assets.indexOf(asset), images)),
+  };
+};
+
+// Exports whole batches, or only `assetIds` from them when given (batches left empty are dropped)
+export const exportBatchesZip = async (batches: GenerationBatch[], assetIds?: Set<string>): Promise<Blob> => {
+  const images = new ImageCollector();
+  const manifest: ExportManifest = {
+    format: MANIFEST_FORMAT,
+    version: MANIFEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    batches: batches
+      .map(batch => ({ batch, assets: batch.assets.filter(a => !a.isImageLoading && (!assetIds || assetIds.has(a.id))) }))
+      .filter(({ assets }) => assets.length > 0)
+      .map(({ batch, assets }) => exportBatch(batch, assets, images)),
+  };
+
+  const entries = await images.done();
+  return createZip([
+    { name: MANIFEST_FILE, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) },
+    ...entries,
+  ]);
+};
+
+// --- Manifest Validation ---
+// Archives can be hand-edited or come from elsewhere, so the manifest is read as unknown and
+// every field is checked. A bad field names its path, e.g. "batches[0].assets[2].image".
+
+const APP_MODES: AppMode[] = ['try-on', 'scene'];
+const ASPECT_RATIOS: AspectRatio[] = ['3:4', '9:16', '1:1'];
+const RESOLUTIONS: ImageResolution[] = ['2K', '4K'];
+const VERSION_KINDS: VersionKind[] = ['initial', 'regenerate', 'region-edit', 'piece-edit', 'upscale'];
+const UNITS: Dimensions['unit'][] = ['mm', 'cm', 'in'];
+
+class ManifestReader {
+  private constructor(private fields: Record<string, unknown>, private path: string) {}
+
+  static read(value: unknown, path: string): ManifestReader {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new ExportManifestError(t('export.error.invalidField', { field: path }));
+    }
+    return new ManifestReader(value as Record<string, unknown>, path);
+  }
+
+  private pathOf(name: string) {
+    return this.path ? `${this.path}.${name}` : name;
+  }
+
+  private fail(name: string): never {
+    throw new ExportManifestError(t('export.error.invalidField', { field: this.pathOf(name) }));
+  }
+
+  private optional<T>(name: string, read: (value: unknown) => T | undefined): T | undefined {
+    const value = this.fields[name];
+    if (value === undefined || value === null) return undefined;
+    const result = read(value);
+    return result === undefined ? this.fail(name) : result;
+  }
+
+  private required<T>(name: string, read: (value: unknown) => T | undefined): T {
+    return this.optional(name, read) ?? this.fail(name);
+  }
+
+  string(name: string) { return this.required(name, asString); }
+  optString(name: string) { return this.optional(name, asString); }
+  number(name: string) { return this.required(name, asNumber); }
+  optNumber(name: string) { return this.optional(name, asNumber); }
+  optBoolean(name: string) { return this.optional(name, v => typeof v === 'boolean' ? v : undefined); }
+  date(name: string) { return this.required(name, v => typeof v === 'string' && !Number.isNaN(Date.parse(v)) ? v : undefined); }
+  oneOf<T extends string>(name: string, values: readonly T[]) { return this.required(name, v => values.find(value => value === v)); }
+  strings(name: string) { return this.required(name, asStrings); }
+  optStrings(name: string) { return this.optional(name, asStrings); }
+  raw(name: string): unknown { return this.fields[name]; }
+
+  object(name: string): ManifestReader {
+    return ManifestReader.read(this.fields[name], this.pathOf(name));
+  }
+
+  optObject(name: string): ManifestReader | undefined {
+    const value = this.fields[name];
+    return value === undefined || value === null ? undefined : this.object(name);
+  }
+
+  list(name: string): ManifestReader[] {
+    const value = this.fields[name];
+    if (!Array.isArray(value)) return this.fail(name);
+    return value.map((item, i) => ManifestReader.read(item, `${this.pathOf(name)}[${i}]`));
+  }
+
+  optList(name: string): ManifestReader[] | undefined {
+    const value = this.fields[name];
+    return value === undefined || value === null ? undefined : this.list(name);
+  }
+}
+
+const asString = (value: unknown) => typeof value === 'string' ? value : undefined;
+const asNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+const asStrings = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string') ? value as string[] : undefined;
+
+const readPoint = (r: ManifestReader): Point => ({ x: r.number('x'), y: r.number('y') });
+
+const readShape = (r: ManifestReader): SelectionShape => {
+  const type = r.oneOf('type', ['rect', 'polygon', 'brush'] as const);
+  if (type === 'rect') {
+    const rect = r.object('rect');
+    return { type, rect: { x: rect.number('x'), y: rect.number('y'), width: rect.number('width'), height: rect.number('height') } };
+  }
+  const points = r.list('points').map(readPoint);
+  if (type === 'polygon') return { type, points };
+  return { type, points, size: r.number('size'), erase: r.optBoolean('erase') ?? false };
+};
+
+const readRegion = (r: ManifestReader): SelectionRegion => ({
+  id: r.string('id'),
+  shapes: r.list('shapes').map(readShape),
+  instruction: r.optString('instruction') ?? '',
+});
+
+const readScale = (r: ManifestReader): ScaleMeasurement => ({
+  expectedMm: r.number('expectedMm'),
+  measuredMm: r.optNumber('measuredMm'),
+  deviation: r.optNumber('deviation'),
+  withinTolerance: r.optBoolean('withinTolerance'),
+  tolerance: r.number('tolerance'),
+});
+
+const readFidelity = (r: ManifestReader): FidelityReport => ({
+  score: r.number('score'),
+  summary: r.optString('summary') ?? '',
+  defects: (r.optList('defects') ?? []).map(defect => toFidelityDefect({ kind: defect.raw('kind'), detail: defect.raw('detail') })),
+});
+
+const readDimensions = (r: ManifestReader): Dimensions => ({
+  width: r.string('width'),
+  height: r.string('height'),
+  unit: r.oneOf('unit', UNITS),
+});
+
+const readCalibration = (r: ManifestReader): ScaleCalibration => ({
+  source: r.oneOf('source', ['model', 'reference'] as const),
+  imageIndex: r.number('imageIndex'),
+  featureLabel: r.string('featureLabel'),
+  featurePrompt: r.string('featurePrompt'),
+  lengthMm: r.number('lengthMm'),
+  start: readPoint(r.object('start')),
+  end: readPoint(r.object('end')),
+  pxPerMm: r.number('pxPerMm'),
+  tolerance: r.number('tolerance'),
+});
+
+const readVersion = (r: ManifestReader): ManifestVersion => ({
+  id: r.string('id'),
+  parentId: r.optString('parentId'),
+  kind: r.oneOf('kind', VERSION_KINDS),
+  image: r.string('image'),
+  resolution: r.oneOf('resolution', RESOLUTIONS),
+  model: r.optString('model'),
+  prompt: r.optString('prompt'),
+  templateVersion: r.optString('templateVersion'),
+  feedback: r.optString('feedback'),
+  interpretation: r.optString('interpretation'),
+  regions: r.optList('regions')?.map(readRegion),
+  referenceImages: r.optStrings('referenceImages'),
+  pieceId: r.optString('pieceId'),
+  scale: r.optObject('scale') && readScale(r.object('scale')),
+  fidelity: r.optObject('fidelity') && readFidelity(r.object('fidelity')),
+  attempts: r.optNumber('attempts'),
+  seed: r.optNumber('seed'),
+  candidateId: r.optString('candidateId'),
+  createdAt: r.date('createdAt'),
+});
+
+const readCandidate = (r: ManifestReader): ManifestCandidate => ({
+  id: r.string('id'),
+  image: r.optString('image'),
+  error: r.optString('error'),
+  resolution: r.oneOf('resolution', RESOLUTIONS),
+  model: r.optString('model'),
+  prompt: r.optString('prompt'),
+  templateVersion: r.optString('templateVersion'),
+  seed: r.optNumber('seed'),
+  fidelity: r.optObject('fidelity') && readFidelity(r.object('fidelity')),
+  attempts: r.optNumber('attempts'),
+  createdAt: r.date('createdAt'),
+});
+
+const readFeedbackEntry = (r: ManifestReader): ManifestAsset['feedbackHistory'][number] => ({
+  versionId: r.string('versionId'),
+  feedback: r.optString('feedback'),
+  interpretation: r.optString('interpretation'),
+  createdAt: r.date('createdAt'),
+});
+
+const readAsset = (r: ManifestReader, batchMode: AppMode): ManifestAsset => ({
+  id: r.string('id'),
+  mode: r.raw('mode') === undefined ? batchMode : r.oneOf('mode', APP_MODES),
+  category: r.raw('category') === undefined ? undefined : normalizeCategory(r.raw('category')),
+  shotLabel: r.string('shotLabel'),
+  shotPrompt: r.optString('shotPrompt'),
+  aspectRatio: r.oneOf('aspectRatio', ASPECT_RATIOS),
+  resolution: r.oneOf('resolution', RESOLUTIONS),
+  model: r.optString('model'),
+  prompt: r.optString('prompt'),
+  templateVersion: r.optString('templateVersion'),
+  image: r.optString('image'),
+  currentVersionId: r.optString('currentVersionId'),
+  versions: (r.optList('versions') ?? []).map(readVersion),
+  candidates: r.optList('candidates')?.map(readCandidate),
+  chosenCandidateId: r.optString('chosenCandidateId'),
+  feedbackHistory: (r.optList('feedbackHistory') ?? []).map(readFeedbackEntry),
+});
+
+const readPiece = (r: ManifestReader): ManifestPiece => ({
+  id: r.string('id'),
+  // Version 1 archives hold Chinese category names
+  category: normalizeCategory(r.raw('category')),
+  productImages: r.strings('productImages'),
+  referenceImages: r.strings('referenceImages'),
+  dimensions: readDimensions(r.object('dimensions')),
+  dimensionsText: r.optString('dimensionsText') ?? '',
+});
+
+const readInputs = (r: ManifestReader): ManifestInputs => ({
+  productImages: r.strings('productImages'),
+  referenceImages: r.strings('referenceImages'),
+  modelImage: r.optString('modelImage'),
+  category: normalizeCategory(r.raw('category')),
+  instructions: r.optString('instructions') ?? '',
+  scenePrompt: r.optString('scenePrompt'),
+  dimensions: readDimensions(r.object('dimensions')),
+  dimensionsText: r.optString('dimensionsText') ?? '',
+  aspectRatio: r.oneOf('aspectRatio', ASPECT_RATIOS),
+  pieces: r.optList('pieces')?.map(readPiece),
+  calibration: r.optObject('calibration') && readCalibration(r.object('calibration')),
+  modelId: r.optString('modelId'),
+  modelName: r.optString('modelName'),
+});
+
+const readBatch = (r: ManifestReader): ManifestBatch => {
+  const mode = r.oneOf('mode', APP_MODES);
+  return {
+    id: r.string('id'),
+    mode,
+    sku: r.optString('sku'),
+    createdAt: r.date('createdAt'),
+    inputs: r.optObject('inputs') && readInputs(r.object('inputs')),
+    assets: r.list('assets').map(asset => readAsset(asset, mode)),
+  };
+};
+
+// --- Import ---
+
+export const importBatchesZip = async (file: Blob): Promise<GenerationBatch[]> => {
+  const files = await readZip(await file.arrayBuffer());
+  const manifestBytes = files.get(MANIFEST_FILE);
+  if (!manifestBytes) throw new ExportManifestError(t('export.error.noManifest'));
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch {
+    throw new ExportManifestError(t('export.error.manifestJson'));
+  }
+  const root = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? ManifestReader.read(parsed, '') : undefined;
+  if (root?.raw('format') !== MANIFEST_FORMAT || !Array.isArray(root.raw('batches'))) {
+    throw new ExportManifestError(t('export.error.notLuxeFit'));
+  }
+  if (root.number('version') > MANIFEST_VERSION) {
+    throw new ExportManifestError(t('export.error.newerVersion'));
+  }
+  const batches = root.list('batches').map(readBatch);
+
+  // Each archive path is decoded once, however many versions share it
+  const dataUrls = new Map<string, Promise<string>>();
+  const image = (path: string): Promise<string> => {
+    if (!dataUrls.has(path)) {
+      const bytes = files.get(path);
+      if (!bytes) throw new ExportManifestError(t('export.error.missingImage', { path }));
+      dataUrls.set(path, blobToDataUrl(new Blob([bytes], { type: mimeFromPath(path) })));
+    }
+    return dataUrls.get(path)!;
+  };
+  const imageList = (paths?: string[]) => paths ? Promise.all(paths.map(image)) : Promise.resolve(undefined);
+
+  return Promise.all(batches.map(async (entry): Promise<GenerationBatch> => {
+    const inputs = entry.inputs && Object.freeze({
+      productImages: Object.freeze(await Promise.all(entry.inputs.productImages.map(image))),
+      referenceImages: Object.freeze(await Promise.all(entry.inputs.referenceImages.map(image))),
+      modelImage: entry.inputs.modelImage ? await image(entry.inputs.modelImage) : undefined,
+      category: entry.inputs.category,
+      instructions: entry.inputs.instructions,
+      scenePrompt: entry.inputs.scenePrompt,
+      dimensions: Object.freeze({ ...entry.inputs.dimensions }),
+      dimensionsText: entry.inputs.dimensionsText,
+      aspectRatio: entry.inputs.aspectRatio,
+      pieces: entry.inputs.pieces && Object.freeze(await Promise.all(entry.inputs.pieces.map(async piece => Object.freeze({
+        id: piece.id,
+        category: piece.category,
+        productImages: Object.freeze(await Promise.all(piece.productImages.map(image))),
+        referenceImages: Object.freeze(await Promise.all(piece.referenceImages.map(image))),
+        dimensions: Object.freeze({ ...piece.dimensions }),
+        dimensionsText: piece.dimensionsText,
+      })))),
+      calibration: entry.inputs.calibration && Object.freeze({ ...entry.inputs.calibration }),
+      modelId: entry.inputs.modelId,
+      modelName: entry.inputs.modelName,
+    });
+
+    const assets = await Promise.all(entry.assets.map(async (asset): Promise<GeneratedAsset> => ({
+      id: asset.id,
+      imageUrl: asset.image ? await image(asset.image) : undefined,
+      imagePrompt: asset.shotLabel,
+      shotPrompt: asset.shotPrompt,
+      isImageLoading: false,
+      aspectRatio: asset.aspectRatio,
+      resolution: asset.resolution,
+      currentVersionId: asset.currentVersionId,
+      templateVersion: asset.templateVersion,
+      versions: await Promise.all(asset.versions.map(async (v): Promise<AssetVersion> => ({
+        id: v.id,
+        parentId: v.parentId,
+        kind: v.kind,
+        imageUrl: await image(v.image),
+        resolution: v.resolution,
+        createdAt: Date.parse(v.createdAt),
+        model: v.model,
+        prompt: v.prompt,
+        templateVersion: v.templateVersion,
+        feedback: v.feedback,
+        interpretation: v.interpretation,
+        regions: v.regions,
+        referenceImages: await imageList(v.referenceImages),
+        pieceId: v.pieceId,
+        scale: v.scale,
+        fidelity: v.fidelity,
+        attempts: v.attempts,
+        seed: v.seed,
+        candidateId: v.candidateId,
+      }))),
+      candidates: asset.candidates && await Promise.all(asset.candidates.map(async (c): Promise<AssetCandidate> => ({
+        id: c.id,
+        imageUrl: c.image ? await image(c.image) : undefined,
+        error: c.error,
+        resolution: c.resolution,
+        createdAt: Date.parse(c.createdAt),
+        model: c.model,
+        prompt: c.prompt,
+        templateVersion: c.templateVersion,
+        seed: c.seed,
+        fidelity: c.fidelity,
+        attempts: c.attempts,
+      }))),
+      chosenCandidateId: asset.chosenCandidateId,
+    })));
+
+    return {
+      id: entry.id,
+      timestamp: Date.parse(entry.createdAt),
+      mode: entry.mode,
+      sku: entry.sku,
+      inputs,
+      assets,
+    };
+  }));
+};
+
+// Long enough for the browser to start reading a large archive; revoking earlier can abort the download
+const REVOKE_DELAY_MS = 60_000;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,60 @@
+import { AssetCandidate, GeneratedAsset, ImageResolution, ShotDefinition } from "../types";
+import { GeneratedImage } from "./geminiService";
+import { CheckedImage } from "./fidelityQa";
+import { addRootVersion, restoreVersion } from "./versionHistory";
+
+// Pick-the-best candidates. A shot can render several candidates side by side; the best one
+// becomes the asset's image and the user can switch to any other from the strip. A candidate
+// becomes a root version the first time it is picked, so edits made on an earlier pick survive.
+
+export const MAX_CANDIDATES = 4;
+
+export const getCandidateCount = (shot: ShotDefinition) =>
+  Math.min(MAX_CANDIDATES, Math.max(1, Math.round(shot.candidates ?? 1)));
+
+// Placeholders for a new asset's strip; a single render needs no strip
+export const createCandidates = (assetId: string, count: number, resolution: ImageResolution): AssetCandidate[] | undefined =>
+  count > 1
+    ? Array.from({ length: count }, (_, i) => ({ id: `${assetId}-c${i + 1}`, isLoading: true, resolution, createdAt: Date.now() }))
+    : undefined;
+
+export const completeCandidate = (candidate: AssetCandidate, result: GeneratedImage | CheckedImage): AssetCandidate => ({
+  ...candidate,
+  isLoading: false,
+  error: undefined,
+  imageUrl: result.imageUrl,
+  model: result.model,
+  prompt: result.prompt,
+  templateVersion: result.templateVersion,
+  seed: result.seed,
+  fidelity: 'fidelity' in result ? result.fidelity : undefined,
+  attempts: 'attempts' in result ? result.attempts : undefined,
+});
+
+// Highest fidelity score wins; unscored candidates rank below scored ones, in strip order
+export const pickBestCandidate = (candidates: AssetCandidate[]): AssetCandidate | undefined =>
+  candidates
+    .filter(c => c.imageUrl)
+    .reduce<AssetCandidate | undefined>((best, c) => !best || (c.fidelity?.score ?? -1) > (best.fidelity?.score ?? -1) ? c : best, undefined);
+
+// Makes a candidate the asset's image, reusing the version it became when picked before
+export const chooseCandidate = (asset: GeneratedAsset, candidateId: string): Partial<GeneratedAsset> => {
+  const candidate = asset.candidates?.find(c => c.id === candidateId);
+  if (!candidate?.imageUrl) return {};
+  const picked = asset.versions?.find(v => v.candidateId === candidateId);
+  const updates = picked
+    ? restoreVersion(asset, picked.id)
+    : addRootVersion(asset, {
+        kind: 'initial',
+        imageUrl: candidate.imageUrl,
+        resolution: candidate.resolution,
+        model: candidate.model,
+        prompt: candidate.prompt,
+        templateVersion: candidate.templateVersion,
+        seed: candidate.seed,
+        fidelity: candidate.fidelity,
+        attempts: candidate.attempts,
+        candidateId,
+      });
+  return { ...updates, chosenCandidateId: candidateId };
+};
@@ -0,0 +1,236 @@
+import { AppMode, Dimensions, JewelryCategory } from "../types";
+import { loadUploadLimits, readUploadedFile, UploadError } from "./imageFiles";
+import { BadInputError } from "./errors";
+import { parseCategoryId } from "./categories";
+import { t } from "./i18n";
+
+// Catalog manifests: one row per SKU, read from CSV or JSON, with image columns naming
+// files inside a local folder the user picks alongside the manifest.
+//
+// CSV header (case-insensitive, spaces/dashes allowed):
+//   sku, category, mode, width, height, unit, instructions, scene_prompt,
+//   product_images, reference_images, model_image
+// List columns separate file names with ";" or "|".
+// JSON: an array (or { items: [...] }) of objects with the camelCase equivalents;
+// list fields may be arrays or separated strings, dimensions may be nested.
+
+export interface CatalogRow {
+  sku: string;
+  category: JewelryCategory;
+  mode?: AppMode; // Falls back to the active tab
+  dimensions: Dimensions;
+  instructions: string;
+  scenePrompt?: string; // Falls back to the form's scene description
+  productImages: string[];
+  referenceImages: string[];
+  modelImage?: string; // Falls back to the form's model photo
+}
+
+export type CatalogItemStatus = 'pending' | 'running' | 'done' | 'failed' | 'invalid';
+
+export interface CatalogItem {
+  row: CatalogRow;
+  status: CatalogItemStatus;
+  productFiles: File[];
+  referenceFiles: File[];
+  modelFile?: File;
+  previewUrl?: string; // First product image, for the progress grid
+  error?: string;
+  batchId?: string;
+}
+
+export class CatalogManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CatalogManifestError';
+  }
+}
+
+// Besides ids and the Chinese names, rows may use common synonyms
+const CATEGORY_ALIASES: Record<string, JewelryCategory> = {
+  'pendant': 'necklace',
+  'earrings': 'earring',
+  'bracelets': 'bracelet',
+  'rings': 'ring',
+  '耳环': 'earring',
+  '耳坠': 'earring',
+};
+
+// --- Parsing ---
+
+const normalizeKey = (key: string) => key.trim().toLowerCase().replace(/[\s_-]+/g, '');
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const splitList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(v => String(v).trim()).filter(Boolean);
+  if (typeof value !== 'string') return [];
+  return value.split(/[;|]/).map(v => v.trim()).filter(Boolean);
+};
+
+const parseCategory = (value: unknown, sku: string): JewelryCategory => {
+  const raw = String(value ?? '').trim();
+  const category = parseCategoryId(raw.toLowerCase()) ?? parseCategoryId(raw) ?? CATEGORY_ALIASES[raw.toLowerCase()];
+  if (category) return category;
+  throw new CatalogManifestError(t('catalog.error.category', { sku, value: raw }));
+};
+
+const parseMode = (value: unknown): AppMode | undefined => {
+  const raw = String(value ?? '').trim().toLowerCase();
+  if (raw === 'try-on' || raw === 'tryon' || raw === '佩戴') return 'try-on';
+  if (raw === 'scene' || raw === '场景') return 'scene';
+  return undefined;
+};
+
+// `record` has normalized keys (see normalizeKey)
+const toRow = (record: Record<string, unknown>, index: number): CatalogRow => {
+  const sku = String(record.sku ?? '').trim();
+  if (!sku) throw new CatalogManifestError(t('catalog.error.missingSku', { row: index + 1 }));
+
+  const nested = (record.dimensions && typeof record.dimensions === 'object' ? record.dimensions : {}) as Record<string, unknown>;
+  const unit = String(record.unit ?? nested.unit ?? 'mm').trim().toLowerCase();
+
+  const row: CatalogRow = {
+    sku,
+    category: parseCategory(record.category, sku),
+    mode: parseMode(record.mode),
+    dimensions: {
+      width: String(record.width ?? nested.width ?? '').trim(),
+      height: String(record.height ?? nested.height ?? '').trim(),
+      unit: unit === 'cm' || unit === 'in' ? unit : 'mm',
+    },
+    instructions: String(record.instructions ?? '').trim(),
+    scenePrompt: String(record.sceneprompt ?? '').trim() || undefined,
+    productImages: splitList(record.productimages),
+    referenceImages: splitList(record.referenceimages),
+    modelImage: String(record.modelimage ?? '').trim() || undefined,
+  };
+  if (row.productImages.length === 0) throw new CatalogManifestError(t('catalog.error.noProductImages', { sku }));
+  return row;
+};
+
+export const parseCatalogManifest = (text: string, fileName: string): CatalogRow[] => {
+  let records: Record<string, unknown>[];
+
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new CatalogManifestError(t('catalog.error.json'));
+    }
+    const items = Array.isArray(data) ? data : (data as { items?: unknown })?.items;
+    if (!Array.isArray(items)) throw new CatalogManifestError(t('catalog.error.jsonShape'));
+    records = items.map(item => Object.fromEntries(
+      Object.entries(item as Record<string, unknown>).map(([k, v]) => [normalizeKey(k), v])
+    ));
+  } else {
+    const [header, ...lines] = parseCsv(text.replace(/^\uFEFF/, '')); // Excel adds a BOM
+    if (!header) throw new CatalogManifestError(t('catalog.error.empty'));
+    const keys = header.map(normalizeKey);
+    records = lines.map(cells => Object.fromEntries(keys.map((k, i) => [k, cells[i] ?? ''])));
+  }
+
+  const rows = records.map(toRow);
+  const seen = new Set<string>();
+  rows.forEach(row => {
+    if (seen.has(row.sku)) throw new CatalogManifestError(t('catalog.error.duplicateSku', { sku: row.sku }));
+    seen.add(row.sku);
+  });
+  return rows;
+};
+
+// --- File resolution ---
+
+// Folder pickers report paths as "<folder>/<sub>/<name>"; manifests may use either the
+// bare file name or the path below the picked folder
+const indexFolder = (files: File[]) => {
+  const index = new Map<string, File>();
+  files.forEach(file => {
+    const relative = (file.webkitRelativePath || file.name).split('/').slice(1).join('/') || file.name;
+    index.set(relative.toLowerCase(), file);
+    if (!index.has(file.name.toLowerCase())) index.set(file.name.toLowerCase(), file);
+  });
+  return index;
+};
+
+export const resolveCatalogFiles = (rows: CatalogRow[], folder: File[]): CatalogItem[] => {
+  const index = indexFolder(folder);
+  const lookup = (name: string) => index.get(name.replace(/^\.?\//, '').toLowerCase());
+
+  return rows.map(row => {
+    const missing: string[] = [];
+    const resolve = (names: string[]) => names.flatMap(name => {
+      const file = lookup(name);
+      if (!file) missing.push(name);
+      return file ? [file] : [];
+    });
+
+    const productFiles = resolve(row.productImages);
+    const referenceFiles = resolve(row.referenceImages);
+    const [modelFile] = row.modelImage ? resolve([row.modelImage]) : [];
+
+    return {
+      row,
+      status: missing.length > 0 ? 'invalid' : 'pending',
+      productFiles,
+      referenceFiles,
+      modelFile,
+      previewUrl: productFiles[0] ? URL.createObjectURL(productFiles[0]) : undefined,
+      error: missing.length > 0 ? t('catalog.error.missingImages', { files: missing.join(', ') }) : undefined,
+    };
+  });
+};
+
+// Images are only read into memory when their SKU runs, so large catalogs stay cheap to load
+export const readCatalogImages = (files: File[]): Promise<string[]> => {
+  const limits = loadUploadLimits();
+  return Promise.all(files.map(async file => {
+    try {
+      const uploaded = await readUploadedFile(file, limits);
+      URL.revokeObjectURL(uploaded.previewUrl);
+      return uploaded.base64;
+    } catch (e) {
+      if (e instanceof UploadError) throw new BadInputError(e.message, e, t('upload.error.fileItem', { name: file.name, message: e.message }));
+      throw e;
+    }
+  }));
+};
@@ -0,0 +1,143 @@
+import { JewelryCategory, ShotDefinition } from "../types";
+import { MessageKey, t } from "./i18n";
+
+// Per-category knowledge: where the piece is worn, which shots show it best, and the
+// placement rules the try-on prompt must enforce. Ids are stable identifiers (stored in
+// history, libraries and exports); display names come from the locale catalogs.
+
+export type BodyAnchor = 'finger' | 'wrist' | 'earlobe' | 'neckline' | 'lapel';
+
+export interface CategoryShot extends Omit<ShotDefinition, 'id' | 'enabled' | 'label'> {
+  labelKey: MessageKey;
+}
+
+export interface CategoryDefinition {
+  id: JewelryCategory;
+  labelKey: MessageKey;
+  anchor: BodyAnchor;
+  anchorLabelKey: MessageKey; // Shown to the user, e.g. in model photo warnings
+  anchorPrompt: string; // Body part as described to the model
+  placementRules: string[];
+  defaultShots: CategoryShot[];
+}
+
+export const CATEGORY_DEFINITIONS: Record<JewelryCategory, CategoryDefinition> = {
+  'brooch': {
+    id: 'brooch',
+    labelKey: 'category.brooch',
+    anchor: 'lapel',
+    anchorLabelKey: 'category.brooch.anchor',
+    anchorPrompt: 'the upper chest, on a jacket lapel or garment fabric',
+    placementRules: [
+      'Pin the brooch through the fabric on the left lapel or upper chest, never on bare skin.',
+      'The fabric must show slight tension around the pin; the brooch sits flat against the garment.',
+      'Keep the brooch upright relative to the lapel edge unless the reference shows otherwise.',
+    ],
+    defaultShots: [
+      { labelKey: 'category.brooch.shot1', prompt: 'Extreme close-up macro shot of the brooch on the lapel fabric, showing craftsmanship and how it is pinned. Shallow depth of field.' },
+      { labelKey: 'category.brooch.shot2', prompt: 'Waist-up front view of the model wearing a tailored jacket, brooch clearly visible on the lapel.' },
+      { labelKey: 'category.brooch.shot3', prompt: '45-degree close-up of the chest and lapel, highlighting the brooch depth and relief.' },
+      { labelKey: 'category.brooch.shot4', prompt: 'Model adjusting the jacket lapel with one hand, fingers near but not covering the brooch.' },
+    ],
+  },
+  'necklace': {
+    id: 'necklace',
+    labelKey: 'category.necklace',
+    anchor: 'neckline',
+    anchorLabelKey: 'category.necklace.anchor',
+    anchorPrompt: 'the neck and collarbone area',
+    placementRules: [
+      'The chain rests on the skin around the neck and follows gravity; the pendant hangs at the centre of the neckline.',
+      'Chain length must match the product: a choker sits at the base of the neck, longer chains fall below the collarbone.',
+      'The clasp is at the back of the neck and normally hidden in front views.',
+    ],
+    defaultShots: [
+      { labelKey: 'category.necklace.shot1', prompt: 'Extreme close-up macro shot focused entirely on the jewelry texture and craftsmanship. Shallow depth of field.' },
+      { labelKey: 'category.necklace.shot2', prompt: 'Close-up portrait (Chest up/Face). Front view. Perfect symmetry showing how the jewelry hangs/sits.' },
+      { labelKey: 'category.necklace.shot3', prompt: 'Close-up side profile (45-degree). Highlighting structural depth.' },
+      { labelKey: 'category.necklace.shot4', prompt: 'Model is gently touching the jewelry or adjusting it. Elegant hand pose interacting with the product.' },
+    ],
+  },
+  'earring': {
+    id: 'earring',
+    labelKey: 'category.earring',
+    anchor: 'earlobe',
+    anchorLabelKey: 'category.earring.anchor',
+    anchorPrompt: 'the earlobe, with the ear fully visible (hair tucked back)',
+    placementRules: [
+      'The earring passes through the earlobe piercing; studs sit flush on the lobe, drops hang straight down from it.',
+      'Hair must not cover the ear or the earring.',
+      'In front views show a matching pair, one on each ear, mirrored.',
+    ],
+    defaultShots: [
+      { labelKey: 'category.earring.shot1', prompt: 'Extreme close-up side profile of the ear, earring in sharp focus on the earlobe. Hair tucked behind the ear.' },
+      { labelKey: 'category.earring.shot2', prompt: 'Close-up 90-degree side profile of the face and ear, showing how the earring hangs from the lobe.' },
+      { labelKey: 'category.earring.shot3', prompt: 'Front-facing close-up portrait, both ears visible with a matching earring on each.' },
+      { labelKey: 'category.earring.shot4', prompt: 'Model tucking hair behind the ear with one hand, revealing the earring.' },
+    ],
+  },
+  'ring': {
+    id: 'ring',
+    labelKey: 'category.ring',
+    anchor: 'finger',
+    anchorLabelKey: 'category.ring.anchor',
+    anchorPrompt: 'the fingers of a hand (typically the ring finger)',
+    placementRules: [
+      'The ring encircles the finger at the base segment, between the knuckle and the palm; never floating or on the fingertip.',
+      'Band width and stone size must be in proportion to the finger as shown in the reference photos.',
+      'The setting faces the back of the hand.',
+    ],
+    defaultShots: [
+      { labelKey: 'category.ring.shot1', prompt: 'Extreme close-up of the hand, ring on the ring finger in sharp focus. Shallow depth of field, elegant relaxed fingers.' },
+      { labelKey: 'category.ring.shot2', prompt: 'Back of the hand laid flat, fingers slightly spread, ring centred in frame.' },
+      { labelKey: 'category.ring.shot3', prompt: '45-degree side view of the hand, highlighting the profile and height of the ring setting.' },
+      { labelKey: 'category.ring.shot4', prompt: 'Portrait with the model resting her chin on her hand, ring clearly visible near the face.' },
+    ],
+  },
+  'bracelet': {
+    id: 'bracelet',
+    labelKey: 'category.bracelet',
+    anchor: 'wrist',
+    anchorLabelKey: 'category.bracelet.anchor',
+    anchorPrompt: 'the wrist',
+    placementRules: [
+      'The bracelet wraps around the wrist just above the wrist bone and drapes slightly with gravity.',
+      'It must not slide onto the hand or sit on the forearm unless the reference shows a cuff worn higher.',
+      'Keep sleeves pulled back so the whole bracelet is visible.',
+    ],
+    defaultShots: [
+      { labelKey: 'category.bracelet.shot1', prompt: 'Extreme close-up of the wrist, bracelet in sharp focus showing links and clasp detail.' },
+      { labelKey: 'category.bracelet.shot2', prompt: 'Forearm and hand resting on a surface, wrist turned slightly, bracelet draped naturally.' },
+      { labelKey: 'category.bracelet.shot3', prompt: 'Model raising her hand gracefully near the shoulder, bracelet sliding slightly with gravity.' },
+      { labelKey: 'category.bracelet.shot4', prompt: 'Model gently touching or adjusting the bracelet with the other hand.' },
+    ],
+  },
+};
+
+export const JEWELRY_CATEGORIES = Object.keys(CATEGORY_DEFINITIONS) as JewelryCategory[];
+
+export const getCategoryDefinition = (category: JewelryCategory): CategoryDefinition => CATEGORY_DEFINITIONS[category];
+
+export const getCategoryLabel = (category: JewelryCategory) => t(CATEGORY_DEFINITIONS[category].labelKey);
+
+export const getAnchorLabel = (category: JewelryCategory) => t(CATEGORY_DEFINITIONS[category].anchorLabelKey);
+
+// Values saved before categories had ids were the Chinese display names
+const LEGACY_CATEGORY_IDS: Record<string, JewelryCategory> = {
+  '胸针': 'brooch',
+  '项链': 'necklace',
+  '耳环/耳坠': 'earring',
+  '戒指': 'ring',
+  '手链': 'bracelet',
+};
+
+// An id or a legacy Chinese name, as a category id
+export const parseCategoryId = (value: unknown): JewelryCategory | undefined => {
+  if (typeof value !== 'string') return undefined;
+  // Own keys only, so names like "constructor" are not mistaken for categories
+  if (Object.hasOwn(CATEGORY_DEFINITIONS, value)) return value as JewelryCategory;
+  return Object.hasOwn(LEGACY_CATEGORY_IDS, value) ? LEGACY_CATEGORY_IDS[value] : undefined;
+};
+
+// For values read back from storage or archives; unknown values fall back to necklace
+export const normalizeCategory = (value: unknown): JewelryCategory => parseCategoryId(value) ?? 'necklace';
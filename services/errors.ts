@@ -0,0 +1,124 @@
+import { GenerationErrorKind } from "../types";
+import { MessageKey, t } from "./i18n";
+
+// Typed errors for model calls. Providers map their raw SDK/HTTP failures onto these
+// exactly once; retry policy and UI messages only ever look at `kind` and `retryable`.
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number; // Server-provided back-off hint
+  readonly userMessage?: string; // Overrides the generic message for this kind
+  readonly cause?: unknown;
+
+  constructor(
+    kind: GenerationErrorKind,
+    message: string,
+    options: { retryable?: boolean; retryAfterMs?: number; userMessage?: string; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+    this.userMessage = options.userMessage;
+    this.cause = options.cause;
+  }
+}
+
+export class RateLimitError extends GenerationError {
+  constructor(message: string, retryAfterMs?: number, cause?: unknown) {
+    super('rate-limit', message, { retryable: true, retryAfterMs, cause });
+    this.name = 'RateLimitError';
+  }
+}
+
+export class QuotaExhaustedError extends GenerationError {
+  constructor(message: string, cause?: unknown) {
+    super('quota', message, { cause });
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+export class RegionBlockedError extends GenerationError {
+  constructor(message: string, cause?: unknown) {
+    super('region-blocked', message, { cause });
+    this.name = 'RegionBlockedError';
+  }
+}
+
+export class SafetyBlockError extends GenerationError {
+  readonly reason?: string;
+
+  constructor(message: string, reason?: string, cause?: unknown) {
+    super('safety-block', message, { cause });
+    this.name = 'SafetyBlockError';
+    this.reason = reason;
+  }
+}
+
+export class RequestTimeoutError extends GenerationError {
+  constructor(message: string, cause?: unknown) {
+    super('timeout', message, { retryable: true, cause });
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export class BadInputError extends GenerationError {
+  constructor(message: string, cause?: unknown, userMessage?: string) {
+    super('bad-input', message, { cause, userMessage });
+    this.name = 'BadInputError';
+  }
+}
+
+// The model answered but with text only; usually succeeds on a second attempt
+export class NoImageReturnedError extends GenerationError {
+  constructor(message = 'No image data returned from API', cause?: unknown) {
+    super('no-image', message, { retryable: true, cause });
+    this.name = 'NoImageReturnedError';
+  }
+}
+
+export class ServerBusyError extends GenerationError {
+  constructor(message: string, retryAfterMs?: number, cause?: unknown) {
+    super('server-busy', message, { retryable: true, retryAfterMs, cause });
+    this.name = 'ServerBusyError';
+  }
+}
+
+export class NetworkError extends GenerationError {
+  constructor(message: string, cause?: unknown) {
+    super('network', message, { retryable: true, cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Last-resort wrapper for errors a provider did not classify
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new GenerationError('unknown', message, { cause: error });
+};
+
+// --- User-facing messages ---
+
+const USER_MESSAGES: Record<GenerationErrorKind, MessageKey> = {
+  'rate-limit': 'error.rate-limit',
+  'quota': 'error.quota',
+  'region-blocked': 'error.region-blocked',
+  'safety-block': 'error.safety-block',
+  'timeout': 'error.timeout',
+  'bad-input': 'error.bad-input',
+  'no-image': 'error.no-image',
+  'server-busy': 'error.server-busy',
+  'network': 'error.network',
+  'unknown': 'error.unknown',
+};
+
+export const getUserMessage = (error: unknown): string => {
+  const generationError = toGenerationError(error);
+  return generationError.userMessage ?? t(USER_MESSAGES[generationError.kind]);
+};
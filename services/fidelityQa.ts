@@ -0,0 +1,56 @@
+import { FidelityReport } from "../types";
+import { GeneratedImage } from "./geminiService";
+
+// Product-fidelity QA policy. Every render can be scored against the product photos; with
+// auto-regenerate on, renders below the threshold are redone and the best attempt is kept.
+
+const POLICY_KEY = 'luxefit.fidelityPolicy';
+
+export interface FidelityPolicy {
+  enabled: boolean;
+  autoRegenerate: boolean;
+  threshold: number; // 0-100
+  maxAttempts: number; // Total renders per image, including the first
+}
+
+export const DEFAULT_FIDELITY_POLICY: FidelityPolicy = { enabled: true, autoRegenerate: false, threshold: 70, maxAttempts: 2 };
+
+export const loadFidelityPolicy = (): FidelityPolicy => {
+  try {
+    return { ...DEFAULT_FIDELITY_POLICY, ...JSON.parse(localStorage.getItem(POLICY_KEY) || '{}') };
+  } catch {
+    return { ...DEFAULT_FIDELITY_POLICY };
+  }
+};
+
+export const saveFidelityPolicy = (policy: FidelityPolicy) => {
+  try {
+    localStorage.setItem(POLICY_KEY, JSON.stringify(policy));
+  } catch {
+    // Policy still applies for this session
+  }
+};
+
+export interface CheckedImage extends GeneratedImage {
+  fidelity?: FidelityReport;
+  attempts: number;
+}
+
+// Renders and scores until the score reaches the threshold or attempts run out. A failed
+// check ends the loop, since re-rendering cannot fix a QA outage.
+export const renderWithFidelityCheck = async (
+  render: (attempt: number) => Promise<GeneratedImage>,
+  check: (imageUrl: string) => Promise<FidelityReport | null>,
+  policy: FidelityPolicy
+): Promise<CheckedImage> => {
+  let best: CheckedImage | undefined;
+  for (let attempt = 1; ; attempt++) {
+    const image = await render(attempt);
+    const fidelity = (await check(image.imageUrl)) ?? undefined;
+    if (!best || (fidelity?.score ?? -1) > (best.fidelity?.score ?? -1)) best = { ...image, fidelity, attempts: attempt };
+
+    const passed = !fidelity || fidelity.score >= policy.threshold;
+    if (passed || !policy.autoRegenerate || attempt >= policy.maxAttempts) return { ...best, attempts: attempt };
+    console.warn(`Fidelity score ${fidelity!.score} below ${policy.threshold}, regenerating (attempt ${attempt + 1}/${policy.maxAttempts})`);
+  }
+};
@@ -1,55 +1,179 @@
-import { GoogleGenAI } from "@google/genai";
-import { AspectRatio, JewelryCategory, ImageResolution, Region } from "../types";
+import { AspectRatio, FidelityDefect, FidelityDefectKind, FidelityReport, JewelryCategory, ImageResolution, Point, Region, SelectionRegion, SelectionShape, UsageEntry, UsageOperation } from "../types";
+import { getActiveProvider, getProviderFor, ImageProvider, ProviderCapability, ProviderPart, TokenUsage } from "./providers";
+import { GenerationError, toGenerationError, isAbortError } from "./errors";
+import { getImageSize, renderSelectionMask, compositeWithMask, getRegionBounds } from "./imageMask";
+import { getCategoryDefinition } from "./categories";
+import { parseDataUrl } from "./imageFiles";
+import { renderPrompt } from "./promptTemplates";
+import { getLocaleDefinition, t } from "./i18n";
+import { recordUsage, UsageTag } from "./usageLedger";
+
+// Inline image part with the MIME type the data URL actually carries
+const imagePart = (base64: string): ProviderPart => ({ inlineData: parseDataUrl(base64) });
+
+// Product views go in the user's order, each after its own label; view 1 is the primary one.
+// Templates only get the rule when there is more than one view to choose from.
+const PRIMARY_VIEW_RULE = "Product views are numbered in the user's order. VIEW 1 is the PRIMARY, canonical view: where views disagree (angle, colour, details), follow VIEW 1.";
+
+const primaryViewRule = (hasMultipleViews: boolean) => hasMultipleViews ? PRIMARY_VIEW_RULE : undefined;
+
+const pushProductImages = (parts: ProviderPart[], base64s: string[], label = 'PRODUCT') => {
+  base64s.forEach((base64, i) => {
+    parts.push({ text: i === 0 ? `${label} VIEW 1 (PRIMARY):` : `${label} VIEW ${i + 1}:` });
+    parts.push(imagePart(base64));
+  });
+};
+
+// --- Retry Policy ---
+
+export interface RetryPolicy {
+  attempts: number; // Total attempts, including the first call
+  baseDelayMs: number;
+  maxDelayMs: number;
+  factor: number; // Exponential back-off multiplier
+  jitter: number; // 0-1, fraction of each delay that is randomised
+  honorRetryAfter: boolean; // Wait at least as long as the server asks
+}
 
-// Helper to strip base64 header
-const stripBase64 = (base64: string) => base64.split(',')[1] || base64;
+export type RetryOperationName = 'intent' | 'image';
 
-// Helper for retry logic
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+export const RETRY_OPERATIONS: RetryOperationName[] = ['image', 'intent'];
 
-async function retryOperation<T>(operation: () => Promise<T>, retries = 5, delay = 4000): Promise<T> {
+export const DEFAULT_RETRY_POLICIES: Record<RetryOperationName, RetryPolicy> = {
+  intent: { attempts: 3, baseDelayMs: 1000, maxDelayMs: 8000, factor: 2, jitter: 0.2, honorRetryAfter: false },
+  image: { attempts: 6, baseDelayMs: 4000, maxDelayMs: 60000, factor: 2, jitter: 0.3, honorRetryAfter: true },
+};
+
+const RETRY_POLICIES_KEY = 'luxefit.retryPolicies';
+
+// Stored overrides on top of the defaults, so fields added later get their default
+const readRetryPolicies = (): Record<RetryOperationName, RetryPolicy> => {
   try {
-    return await operation();
-  } catch (error: any) {
-    if (retries <= 0) throw error;
-    
-    let isRetryable = false;
-    let message = "";
+    const stored = JSON.parse(localStorage.getItem(RETRY_POLICIES_KEY) || '{}');
+    return {
+      intent: { ...DEFAULT_RETRY_POLICIES.intent, ...stored.intent },
+      image: { ...DEFAULT_RETRY_POLICIES.image, ...stored.image },
+    };
+  } catch {
+    return { intent: { ...DEFAULT_RETRY_POLICIES.intent }, image: { ...DEFAULT_RETRY_POLICIES.image } };
+  }
+};
+
+const retryPolicies = readRetryPolicies();
+
+export const getRetryPolicy = (operation: RetryOperationName): RetryPolicy => ({ ...retryPolicies[operation] });
+
+export const configureRetryPolicy = (operation: RetryOperationName, overrides: Partial<RetryPolicy>) => {
+  retryPolicies[operation] = { ...retryPolicies[operation], ...overrides };
+  try {
+    localStorage.setItem(RETRY_POLICIES_KEY, JSON.stringify(retryPolicies));
+  } catch {
+    // Policy still applies for this session
+  }
+};
+
+export const resetRetryPolicy = (operation: RetryOperationName) => configureRetryPolicy(operation, DEFAULT_RETRY_POLICIES[operation]);
 
+// Job signals live for the whole job, so the abort listener is removed once the wait is over
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Aborted', 'AbortError'));
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const computeDelay = (policy: RetryPolicy, attempt: number, error: GenerationError): number => {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(policy.factor, attempt));
+  const delay = exponential * (1 - policy.jitter + Math.random() * policy.jitter * 2);
+  if (policy.honorRetryAfter && error.retryAfterMs) return Math.max(delay, error.retryAfterMs);
+  return delay;
+};
+
+// Retries only errors the provider classified as retryable
+async function retryOperation<T>(operation: () => Promise<T>, policy: RetryPolicy, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
     try {
-      const status = error.status || error.response?.status;
-      message = error.message || String(error);
-      
-      // Extended list of retryable errors covering network instability and timeouts
-      isRetryable = 
-        status === 503 || 
-        status === 500 || 
-        status === 429 ||
-        message.includes("Deadline expired") ||
-        message.includes("Overloaded") || 
-        message.includes("UNAVAILABLE") ||
-        message.includes("Unexpected end of JSON input") ||
-        message.includes("Failed to construct 'Response'") ||
-        message.includes("Response body object should not be disturbed") ||
-        message.includes("ReadableStreamDefaultController") ||
-        message.includes("network") ||
-        message.includes("fetch");
-    } catch (e) {
-      console.warn("Error inspecting failure cause, defaulting to retry", e);
-      isRetryable = true; 
+      return await operation();
+    } catch (rawError) {
+      // A cancelled job must never be retried
+      if (signal?.aborted || isAbortError(rawError)) throw rawError;
+      const error = toGenerationError(rawError);
+      if (!error.retryable || attempt >= policy.attempts - 1) throw error;
+
+      const delay = computeDelay(policy, attempt, error);
+      console.warn(`Operation failed (${error.kind}), retrying in ${Math.round(delay)}ms... (${policy.attempts - attempt - 1} attempts left). Error: ${error.message}`);
+      await sleep(delay, signal);
     }
+  }
+}
 
-    if (isRetryable) {
-      console.warn(`Operation failed, retrying in ${delay}ms... (${retries} retries left). Error: ${message}`);
-      await sleep(delay);
-      return retryOperation(operation, retries - 1, delay * 2); 
-    }
-    
+// --- Usage Metering ---
+
+interface MeteredCall {
+  operation: UsageOperation;
+  capability: ProviderCapability;
+  resolution?: ImageResolution; // Image calls only
+  usage?: UsageTag;
+}
+
+// Runs a provider call under the retry policy and records it in the usage ledger, with
+// the attempt count and the tokens every attempt reported
+async function runMetered<T>(
+  provider: ImageProvider,
+  call: MeteredCall,
+  operation: (onUsage: (usage: TokenUsage) => void) => Promise<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignal
+): Promise<T> {
+  const startedAt = Date.now();
+  let attempts = 0;
+  let tokens: TokenUsage | undefined;
+  const onUsage = (usage: TokenUsage) => {
+    tokens = {
+      inputTokens: (tokens?.inputTokens ?? 0) + usage.inputTokens,
+      outputTokens: (tokens?.outputTokens ?? 0) + usage.outputTokens,
+    };
+  };
+  const record = (success: boolean, errorKind?: UsageEntry['errorKind']) => recordUsage({
+    timestamp: startedAt,
+    provider: provider.id,
+    model: provider.models[call.capability] ?? provider.id,
+    operation: call.operation,
+    resolution: call.resolution,
+    attempts,
+    latencyMs: Date.now() - startedAt,
+    inputTokens: tokens?.inputTokens,
+    outputTokens: tokens?.outputTokens,
+    success,
+    errorKind,
+    batchId: call.usage?.batchId,
+    sku: call.usage?.sku,
+  });
+
+  try {
+    const result = await retryOperation(() => {
+      attempts++;
+      return operation(onUsage);
+    }, policy, signal);
+    record(true);
+    return result;
+  } catch (error) {
+    record(false, signal?.aborted || isAbortError(error) ? 'cancelled' : toGenerationError(error).kind);
     throw error;
   }
 }
 
 export const checkApiKey = async (): Promise<boolean> => {
+  if (!getActiveProvider().requiresApiKey) return true;
   if (window.aistudio && window.aistudio.hasSelectedApiKey) {
     return await window.aistudio.hasSelectedApiKey();
   }
@@ -64,6 +188,27 @@ export const promptForApiKey = async (): Promise<void> => {
   }
 };
 
+// --- Selection Description ---
+
+const SHAPE_NAMES: Record<SelectionShape['type'], string> = {
+  rect: 'box',
+  polygon: 'freeform outline',
+  brush: 'painted area',
+};
+
+// Numbered list of regions with their location and own instruction, shared by intent and edit prompts
+const describeRegions = (regions: SelectionRegion[]): string =>
+  regions.map((region, index) => {
+    const bounds = getRegionBounds(region);
+    if (!bounds) return '';
+    const kinds = Array.from(new Set(region.shapes.filter(s => s.type !== 'brush' || !s.erase).map(s => SHAPE_NAMES[s.type])));
+    return [
+      `Region ${index + 1} (${kinds.join(' + ')}), bounding box in percentages:`,
+      `Top: ${Math.round(bounds.y)}%, Left: ${Math.round(bounds.x)}%, Width: ${Math.round(bounds.width)}%, Height: ${Math.round(bounds.height)}%`,
+      region.instruction ? `Instruction for this region: "${region.instruction}"` : 'No region-specific instruction; apply the general feedback.',
+    ].join('\n');
+  }).filter(Boolean).join('\n');
+
 // --- Intent Verification ---
 
 export const verifyFeedbackIntent = async (
@@ -71,76 +216,170 @@ export const verifyFeedbackIntent = async (
   feedback: string, 
   currentImageBase64?: string, 
   feedbackReferenceBase64s?: string[],
-  region?: Region
+  regions?: SelectionRegion[],
+  targetPiece?: string, // e.g. "PIECE 2 (earring)" when the feedback is limited to one piece of a set
+  usage?: UsageTag
 ): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  let promptText = `
-    Role: Professional Jewelry QA Specialist.
-    Task: Analyze the User's Feedback and confirm the modification direction.
-    
-    Context:
-    - The user is modifying a previously generated jewelry image.
-    - Original Requirement: ${originalPrompt}
-    - User Feedback: "${feedback}"
-  `;
-
-  if (region) {
-    promptText += `\n- **Target Region Specified**: The user has drawn a box on the image to focus on. 
-      Region Coordinates (Percentages): 
-      Top: ${Math.round(region.y)}%, Left: ${Math.round(region.x)}%
-      Width: ${Math.round(region.width)}%, Height: ${Math.round(region.height)}%
-      Interpreting this region is crucial.
-    `;
-  }
+  const hasFeedbackReferences = !!feedbackReferenceBase64s && feedbackReferenceBase64s.length > 0;
+  const { text } = renderPrompt('intent', {
+    originalPrompt,
+    feedback,
+    regionCount: regions?.length,
+    regions: regions?.length ? describeRegions(regions) : undefined,
+    targetPiece,
+    hasCurrentImage: !!currentImageBase64,
+    hasFeedbackReferences,
+    language: getLocaleDefinition().promptLanguage,
+    confirmPrefix: t('intent.prefix'),
+    example: t('intent.example'),
+  });
 
-  const parts: any[] = [];
+  const parts: ProviderPart[] = [];
+  if (currentImageBase64) parts.push(imagePart(currentImageBase64));
+  if (hasFeedbackReferences) {
+    feedbackReferenceBase64s.forEach(b64 => {
+      parts.push(imagePart(b64));
+    });
+  }
+  parts.push({ text });
 
-  if (currentImageBase64) {
-    promptText += `\n- Attached is the 'Current Generated Image'.`;
-    parts.push({ inlineData: { mimeType: 'image/png', data: stripBase64(currentImageBase64) } });
+  try {
+    const provider = getProviderFor('text-intent');
+    return await runMetered(provider, { operation: 'intent', capability: 'text-intent', usage }, async onUsage => {
+        const text = await provider.generateText({ parts, onUsage });
+        return text || t('intent.empty');
+    }, retryPolicies.intent);
+  } catch (e) {
+    console.error("Verification failed", e);
+    return `${t('intent.prefix')}${feedback}`;
   }
+};
 
-  if (feedbackReferenceBase64s && feedbackReferenceBase64s.length > 0) {
-    promptText += `\n- Attached are 'New Reference Images' provided by the user. Compare these with the 'Current Generated Image' to understand the specific visual discrepancies (e.g. size, texture, setting style) mentioned in the feedback.`;
-    feedbackReferenceBase64s.forEach(b64 => {
-      parts.push({ inlineData: { mimeType: 'image/png', data: stripBase64(b64) } });
-    });
+// --- Structured Replies ---
+
+// The JSON object in a text model reply, as plain fields to narrow one by one. Null when the
+// reply holds JSON that is not an object; throws when it holds no JSON at all.
+const parseReplyObject = (text: string): Record<string, unknown> | null => {
+  const parsed: unknown = JSON.parse(text.match(/\{[\s\S]*\}/)?.[0] ?? '');
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : null;
+};
+
+// --- Model Photo Validation ---
+
+export interface ModelPhotoCheck {
+  visible: boolean; // The body part the category is worn on is clearly shown
+  reason: string; // Short explanation in the UI language
+}
+
+// Asks the text model whether the model photo shows the category's body anchor. Resolves to
+// null when the check itself fails, so it can only ever warn, never block generation.
+export const checkModelPhoto = async (modelBase64: string, category: JewelryCategory, signal?: AbortSignal, usage?: UsageTag): Promise<ModelPhotoCheck | null> => {
+  const definition = getCategoryDefinition(category);
+  const parts: ProviderPart[] = [
+    {
+      text: `
+    Role: Jewelry photography QA.
+    Task: The attached photo will be used to virtually place a ${category} (jewelry) on ${definition.anchorPrompt}.
+    Decide whether that body part is clearly visible, unobstructed and large enough in frame.
+    Respond ONLY with JSON: {"visible": true or false, "reason": "<one short sentence in ${getLocaleDefinition().promptLanguage}>"}
+  `
+    },
+    imagePart(modelBase64),
+  ];
+
+  try {
+    const provider = getProviderFor('text-intent');
+    const text = await runMetered(
+      provider,
+      { operation: 'model-check', capability: 'text-intent', usage },
+      onUsage => provider.generateText({ parts, signal, onUsage }),
+      retryPolicies.intent,
+      signal
+    );
+    const reply = parseReplyObject(text);
+    if (typeof reply?.visible !== 'boolean') return null;
+    return { visible: reply.visible, reason: typeof reply.reason === 'string' ? reply.reason : '' };
+  } catch (e) {
+    if (!isAbortError(e)) console.error("Model photo check failed", e);
+    return null;
   }
+};
+
+// --- Scale Measurement ---
 
-  promptText += `
-    
-    Instruction:
-    1. Analyze the problem based on feedback, optional region, and reference images.
-    2. Formulate a polite confirmation sentence in Chinese.
-    3. Format: "确认您的需求：[Analysis of the problem] -> [Proposed Fix]"
-    ${region ? "4. Explicitly mention that you will focus modifications on the selected area." : ""}
-    
-    Example: "确认您的需求：您在左上角框选了吊坠扣头，我将根据参考图调整其镶嵌方式为包镶。"
-  `;
+export interface ScaleLandmarks {
+  feature: [Point, Point] | null; // End points of the calibration feature, percentages
+  jewelry: Region | null; // Tight bounding box of the piece, percentages
+}
 
-  parts.push({ text: promptText });
+const toNumbers = (value: unknown, length: number): number[] | null =>
+  Array.isArray(value) && value.length === length && value.every(v => typeof v === 'number') ? value : null;
+
+// Asks the text model where the calibration feature and the piece are in a rendered image.
+// Resolves to null when the call fails; either landmark may be null when not visible.
+export const locateScaleLandmarks = async (
+  imageBase64: string,
+  category: JewelryCategory,
+  featurePrompt: string,
+  signal?: AbortSignal,
+  usage?: UsageTag
+): Promise<ScaleLandmarks | null> => {
+  const parts: ProviderPart[] = [
+    {
+      text: `
+    Role: Jewelry photography measurement assistant.
+    Task: In the attached photo, locate
+    1. the ${featurePrompt}: its two end points;
+    2. the ${category} (jewelry) worn on ${getCategoryDefinition(category).anchorPrompt}: its tight bounding box.
+    All coordinates are percentages: x of the image width, y of the image height.
+    Use null for anything that is not clearly visible.
+    Respond ONLY with JSON: {"feature": [x1, y1, x2, y2] or null, "jewelry": [x, y, width, height] or null}
+  `
+    },
+    imagePart(imageBase64),
+  ];
 
   try {
-    return await retryOperation(async () => {
-        const response = await ai.models.generateContent({
-          model: 'gemini-3-flash-preview',
-          contents: { parts },
-        });
-        return response.text?.trim() || "确认您的修改需求";
-    }, 2, 1000);
+    const provider = getProviderFor('text-intent');
+    const text = await runMetered(
+      provider,
+      { operation: 'scale-check', capability: 'text-intent', usage },
+      onUsage => provider.generateText({ parts, signal, onUsage }),
+      retryPolicies.intent,
+      signal
+    );
+    const reply = parseReplyObject(text);
+    if (!reply) return null;
+    const feature = toNumbers(reply.feature, 4);
+    const jewelry = toNumbers(reply.jewelry, 4);
+    return {
+      feature: feature && [{ x: feature[0], y: feature[1] }, { x: feature[2], y: feature[3] }],
+      jewelry: jewelry && { x: jewelry[0], y: jewelry[1], width: jewelry[2], height: jewelry[3] },
+    };
   } catch (e) {
-    console.error("Verification failed", e);
-    return `确认您的需求：${feedback}`;
+    if (!isAbortError(e)) console.error("Scale measurement failed", e);
+    return null;
   }
 };
 
 // --- Image Generation ---
 
+// A rendered image plus what produced it, so versions and exports can record the exact request
+export interface GeneratedImage {
+  imageUrl: string; // data URL
+  prompt: string;
+  model: string;
+  templateVersion?: string; // Prompt template that produced the prompt, e.g. "try-on@v2"
+  seed?: number; // Only when the provider supports seeds
+}
+
 interface BaseGenerationParams {
   category?: JewelryCategory;
   instructions?: string; // User precautions
   resolution: ImageResolution;
+  signal?: AbortSignal; // Cancels the call and any pending retries
+  usage?: UsageTag; // Batch and SKU the call is recorded against
+  seed?: number; // Reproduces an earlier render; a random one is drawn when missing
 }
 
 interface TryOnGenerationParams extends BaseGenerationParams {
@@ -150,76 +389,240 @@ interface TryOnGenerationParams extends BaseGenerationParams {
   dimensionsText: string;
   aspectRatio: AspectRatio;
   viewpoint: string;
+  scaleHint?: string; // From the user's calibration, see describeCalibration
   feedback?: string;
   feedbackReferenceBase64s?: string[]; // New images for feedback
-  feedbackRegion?: Region;
 }
 
-export const generateTryOnImage = async (params: TryOnGenerationParams): Promise<string> => {
-  let promptText = `
-    You are a professional high-end jewelry photographer and retoucher.
-    Category: ${params.category || 'Jewelry'}.
-    Task: Create a photorealistic image of the MODEL wearing the JEWELRY PRODUCT.
-    
-    Inputs provided:
-    1. ${params.productBase64s.length} Image(s) of the JEWELRY PRODUCT (White background). Analyze 3D structure/clasp.
-    2. ${params.referenceBase64s.length} Real Life Reference Image(s): **CRITICAL FOR SCALING**. Use these images to determine the EXACT physical size of the jewelry. Do NOT make the jewelry appear larger or smaller than it looks in these reference photos relative to a human.
-    3. Image of the TARGET MODEL.
-    
-    Context/Precautions:
-    Dimensions: ${params.dimensionsText}.
-    ${params.instructions ? `**USER PRECAUTIONS**: ${params.instructions}` : ''}
-    
-    Instructions:
-    - Synthesize the jewelry onto the target model naturally.
-    - Match lighting/skin tone.
-    - **SCALE CHECK**: Ensure the jewelry size is realistic based on the 'Real Life Reference'.
-    - Viewpoint/Pose Requirement: ${params.viewpoint}.
-    - Quality: High resolution, photorealistic, sharp focus.
-  `;
-
-  if (params.feedback) {
-    promptText += `
-    
-    **CORRECTION REQUEST**:
-    The user requires changes to a previous version. 
-    Strictly adhere to: "${params.feedback}".
-    ${params.feedbackReferenceBase64s?.length ? "Refer to the NEWLY provided reference images for the specific look/size required." : ""}
-    `;
-    
-    if (params.feedbackRegion) {
-      promptText += `
-      **TARGET REGION**: 
-      The user has defined a specific bounding box for this modification.
-      Focus your changes strictly within the area defined by:
-      Top: ${params.feedbackRegion.y}%, Left: ${params.feedbackRegion.x}%
-      Width: ${params.feedbackRegion.width}%, Height: ${params.feedbackRegion.height}%
-      (Coordinates are percentage of the total image size).
-      `;
-    }
-  }
+export const generateTryOnImage = async (params: TryOnGenerationParams): Promise<GeneratedImage> => {
+  const definition = params.category ? getCategoryDefinition(params.category) : undefined;
+  const { text, templateVersion } = renderPrompt('try-on', {
+    category: params.category || 'Jewelry',
+    productCount: params.productBase64s.length,
+    referenceCount: params.referenceBase64s.length,
+    dimensionsText: params.dimensionsText,
+    instructions: params.instructions,
+    placementAnchor: definition?.anchorPrompt,
+    placementRules: definition && formatPlacementRules(definition.placementRules),
+    scaleHint: params.scaleHint,
+    viewpoint: params.viewpoint,
+    primaryViewRule: primaryViewRule(params.productBase64s.length > 1),
+    feedback: params.feedback,
+    hasFeedbackReferences: !!params.feedbackReferenceBase64s?.length,
+  });
 
-  const parts: any[] = [{ text: promptText }];
+  const parts: ProviderPart[] = [{ text }];
 
-  params.productBase64s.forEach(base64 => {
-    parts.push({ inlineData: { mimeType: 'image/png', data: stripBase64(base64) } });
-  });
+  pushProductImages(parts, params.productBase64s);
 
   params.referenceBase64s.forEach(base64 => {
-    parts.push({ inlineData: { mimeType: 'image/png', data: stripBase64(base64) } });
+    parts.push(imagePart(base64));
   });
 
-  parts.push({ inlineData: { mimeType: 'image/png', data: stripBase64(params.modelBase64) } });
+  parts.push(imagePart(params.modelBase64));
 
   if (params.feedbackReferenceBase64s) {
     params.feedbackReferenceBase64s.forEach(base64 => {
-      parts.push({ inlineData: { mimeType: 'image/png', data: stripBase64(base64) } });
+      parts.push(imagePart(base64));
     });
   }
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return { ...await callImageModel(parts, 'try-on', params), templateVersion };
+};
+
+// --- Set Styling ---
 
-  return await callImageModel(ai, parts, params.aspectRatio, params.resolution);
+// One piece of a multi-piece set as sent to the model
+export interface TryOnPiece {
+  category: JewelryCategory;
+  productBase64s: string[];
+  referenceBase64s: string[];
+  dimensionsText: string;
+}
+
+// How pieces are named in prompts and intent checks, e.g. "PIECE 2 (earring)"
+export const describePiece = (piece: { category: JewelryCategory }, index: number) => `PIECE ${index + 1} (${piece.category})`;
+
+const formatPlacementRules = (rules: string[]) => rules.map(rule => `- ${rule}`).join('\n');
+
+const describePlacement = (piece: TryOnPiece, index: number) => {
+  const definition = getCategoryDefinition(piece.category);
+  return `${describePiece(piece, index)} is worn on ${definition.anchorPrompt}:\n${formatPlacementRules(definition.placementRules)}`;
+};
+
+// Each piece's images are preceded by a text label, so the model knows which belong together
+const pushPieceImages = (parts: ProviderPart[], piece: TryOnPiece, index: number) => {
+  pushProductImages(parts, piece.productBase64s, describePiece(piece, index));
+  if (piece.referenceBase64s.length > 0) {
+    parts.push({ text: `${describePiece(piece, index)} - real-life reference image(s):` });
+    piece.referenceBase64s.forEach(base64 => {
+      parts.push(imagePart(base64));
+    });
+  }
+};
+
+interface SetTryOnGenerationParams extends Omit<BaseGenerationParams, 'category'> {
+  pieces: TryOnPiece[]; // Render order; the first piece leads when the framing can't show all
+  modelBase64: string;
+  aspectRatio: AspectRatio;
+  viewpoint: string;
+  scaleHint?: string; // Applies to the first piece
+  feedback?: string;
+  feedbackReferenceBase64s?: string[];
+}
+
+export const generateSetTryOnImage = async (params: SetTryOnGenerationParams): Promise<GeneratedImage> => {
+  const lead = describePiece(params.pieces[0], 0);
+  const { text, templateVersion } = renderPrompt('set-try-on', {
+    pieceCount: params.pieces.length,
+    pieceList: params.pieces.map((piece, i) => `- ${describePiece(piece, i)}: ${piece.productBase64s.length} product image(s) (white background), ${piece.referenceBase64s.length} real-life reference image(s). Dimensions: ${piece.dimensionsText}.`).join('\n'),
+    instructions: params.instructions,
+    placement: params.pieces.map(describePlacement).join('\n'),
+    lead,
+    scaleHint: params.scaleHint,
+    viewpoint: params.viewpoint,
+    primaryViewRule: primaryViewRule(params.pieces.some(p => p.productBase64s.length > 1)),
+    feedback: params.feedback,
+    hasFeedbackReferences: !!params.feedbackReferenceBase64s?.length,
+  });
+
+  const parts: ProviderPart[] = [{ text }];
+  params.pieces.forEach((piece, i) => pushPieceImages(parts, piece, i));
+  parts.push({ text: 'TARGET MODEL:' });
+  parts.push(imagePart(params.modelBase64));
+  if (params.feedbackReferenceBase64s?.length) {
+    parts.push({ text: 'NEW reference image(s) for the correction:' });
+    params.feedbackReferenceBase64s.forEach(base64 => {
+      parts.push(imagePart(base64));
+    });
+  }
+
+  return { ...await callImageModel(parts, 'set-try-on', params), templateVersion };
+};
+
+interface PieceEditParams extends Omit<BaseGenerationParams, 'category'> {
+  baseImage: string; // Current image of the asset, data URL
+  pieces: TryOnPiece[];
+  pieceIndex: number; // The only piece allowed to change
+  feedback: string;
+  feedbackReferenceBase64s?: string[];
+  aspectRatio: AspectRatio;
+}
+
+// Unmasked edit of one piece of a set. The model gets that piece's product and reference
+// images as ground truth and is told to leave the other pieces and the scene untouched.
+export const editSetPiece = async (params: PieceEditParams): Promise<GeneratedImage> => {
+  const piece = params.pieces[params.pieceIndex];
+  const target = describePiece(piece, params.pieceIndex);
+  const others = params.pieces.map(describePiece).filter((_, i) => i !== params.pieceIndex);
+
+  const { text, templateVersion } = renderPrompt('piece-edit', {
+    pieceCount: params.pieces.length,
+    target,
+    dimensionsText: piece.dimensionsText,
+    feedbackReferenceCount: params.feedbackReferenceBase64s?.length,
+    instructions: params.instructions,
+    feedback: params.feedback,
+    placement: describePlacement(piece, params.pieceIndex),
+    others: others.join(', '),
+    primaryViewRule: primaryViewRule(piece.productBase64s.length > 1),
+  });
+
+  const parts: ProviderPart[] = [{ text }];
+  pushPieceImages(parts, piece, params.pieceIndex);
+  if (params.feedbackReferenceBase64s?.length) {
+    parts.push({ text: 'NEW reference image(s) for the correction:' });
+    params.feedbackReferenceBase64s.forEach(base64 => {
+      parts.push(imagePart(base64));
+    });
+  }
+
+  const provider = getProviderFor('image-edit');
+  const imageUrl = await runMetered(
+    provider,
+    { operation: 'piece-edit', capability: 'image-edit', resolution: params.resolution, usage: params.usage },
+    onUsage => provider.editImage({
+      parts,
+      baseImage: params.baseImage,
+      aspectRatio: params.aspectRatio,
+      resolution: params.resolution,
+      signal: params.signal,
+      onUsage,
+    }),
+    retryPolicies.image,
+    params.signal
+  );
+
+  return {
+    imageUrl,
+    prompt: parts.map(part => 'text' in part ? part.text.trim() : '').filter(Boolean).join('\n\n'),
+    model: provider.models['image-edit'] ?? provider.id,
+    templateVersion,
+  };
+};
+
+// --- Product Fidelity QA ---
+
+const DEFECT_KINDS: FidelityDefectKind[] = ['metal-color', 'stone-count', 'stone-shape', 'proportions', 'extra-jewelry', 'missing-part', 'deformed-hands', 'other'];
+
+// Unknown kinds become 'other'; also reads defects back from export archives
+export const toFidelityDefect = (value: unknown): FidelityDefect => {
+  const defect: { kind?: unknown, detail?: unknown } = value && typeof value === 'object' ? value : {};
+  return {
+    kind: DEFECT_KINDS.find(kind => kind === defect.kind) ?? 'other',
+    detail: typeof defect.detail === 'string' ? defect.detail : '',
+  };
+};
+
+// Compares a render against each piece's product and reference photos. Resolves to null
+// when the check itself fails, so a QA outage never loses a render.
+export const checkProductFidelity = async (imageBase64: string, pieces: TryOnPiece[], signal?: AbortSignal, usage?: UsageTag): Promise<FidelityReport | null> => {
+  const parts: ProviderPart[] = [
+    {
+      text: `
+    Role: Jewelry product QA inspector.
+    Task: Compare the RENDERED IMAGE against the product photos of ${pieces.map(describePiece).join(', ')} and score how faithfully the jewelry is reproduced.
+
+    Check for these defects:
+    - metal-color: metal colour or finish differs (e.g. yellow gold rendered as silver).
+    - stone-count: number of stones differs.
+    - stone-shape: stone cut, shape or colour differs.
+    - proportions: the piece's proportions or size relative to the body are wrong.
+    - extra-jewelry: jewelry appears that is not in the product photos.
+    - missing-part: a part of the product is missing (clasp, bail, chain, setting).
+    - deformed-hands: hands or fingers are deformed.
+    - other: any other visible difference from the product.
+    Judge against VIEW 1 (PRIMARY) of each piece first; other views fill in hidden sides.
+
+    Respond ONLY with JSON: {"score": <0-100, 100 = identical to the product>, "summary": "<one short sentence in ${getLocaleDefinition().promptLanguage}>", "defects": [{"kind": "<one of the kinds above>", "detail": "<short description in ${getLocaleDefinition().promptLanguage}>"}]}
+  `
+    },
+    { text: 'RENDERED IMAGE:' },
+    imagePart(imageBase64),
+  ];
+  pieces.forEach((piece, i) => pushPieceImages(parts, piece, i));
+
+  try {
+    const provider = getProviderFor('text-intent');
+    const text = await runMetered(
+      provider,
+      { operation: 'fidelity-check', capability: 'text-intent', usage },
+      onUsage => provider.generateText({ parts, signal, onUsage }),
+      retryPolicies.intent,
+      signal
+    );
+    const reply = parseReplyObject(text);
+    const score = reply?.score;
+    if (typeof score !== 'number' || !Number.isFinite(score)) return null;
+    return {
+      score: Math.max(0, Math.min(100, Math.round(score))),
+      summary: typeof reply.summary === 'string' ? reply.summary : '',
+      defects: Array.isArray(reply.defects) ? reply.defects.map(toFidelityDefect) : [],
+    };
+  } catch (e) {
+    if (!isAbortError(e)) console.error("Fidelity check failed", e);
+    return null;
+  }
 };
 
 interface SceneGenerationParams extends BaseGenerationParams {
@@ -230,90 +633,119 @@ interface SceneGenerationParams extends BaseGenerationParams {
   aspectRatio: AspectRatio;
   feedback?: string;
   feedbackReferenceBase64s?: string[];
-  feedbackRegion?: Region;
 }
 
-export const generateSceneImage = async (params: SceneGenerationParams): Promise<string> => {
-  let promptText = `
-    You are a luxury product photographer.
-    Category: ${params.category || 'Jewelry'}.
-    Task: Create a creative commercial scene for the JEWELRY PRODUCT.
-    
-    Scene Description: ${params.scenePrompt}
-    
-    Inputs:
-    1. Product Image(s).
-    ${params.referenceBase64s?.length ? '2. Real Reference (for scale/material context).' : ''}
-    ${params.modelBase64 ? '3. Specific Model (to be placed in scene).' : ''}
-
-    ${params.instructions ? `**USER PRECAUTIONS**: ${params.instructions}` : ''}
-
-    Instructions:
-    - If a model is requested in the prompt but no model image provided, generate a suitable AI model.
-    - If no model is requested, focus on a still-life product shot in the described environment.
-    - Lighting: Commercial high-end luxury lighting.
-  `;
-
-  if (params.feedback) {
-     promptText += `\n**CORRECTION REQUEST**: ${params.feedback}`;
-     if (params.feedbackRegion) {
-        promptText += `
-        **TARGET REGION**: 
-        Focus changes strictly within:
-        Top: ${params.feedbackRegion.y}%, Left: ${params.feedbackRegion.x}%
-        Width: ${params.feedbackRegion.width}%, Height: ${params.feedbackRegion.height}%
-        `;
-     }
-  }
-
-  const parts: any[] = [{ text: promptText }];
-  params.productBase64s.forEach(base64 => {
-    parts.push({ inlineData: { mimeType: 'image/png', data: stripBase64(base64) } });
+export const generateSceneImage = async (params: SceneGenerationParams): Promise<GeneratedImage> => {
+  const { text, templateVersion } = renderPrompt('scene', {
+    category: params.category || 'Jewelry',
+    scenePrompt: params.scenePrompt,
+    hasReferences: !!params.referenceBase64s?.length,
+    hasModel: !!params.modelBase64,
+    instructions: params.instructions,
+    primaryViewRule: primaryViewRule(params.productBase64s.length > 1),
+    feedback: params.feedback,
   });
+
+  const parts: ProviderPart[] = [{ text }];
+  pushProductImages(parts, params.productBase64s);
   if (params.referenceBase64s) {
     params.referenceBase64s.forEach(base64 => {
-      parts.push({ inlineData: { mimeType: 'image/png', data: stripBase64(base64) } });
+      parts.push(imagePart(base64));
     });
   }
   if (params.modelBase64) {
-    parts.push({ inlineData: { mimeType: 'image/png', data: stripBase64(params.modelBase64) } });
+    parts.push(imagePart(params.modelBase64));
   }
   if (params.feedbackReferenceBase64s) {
     params.feedbackReferenceBase64s.forEach(base64 => {
-      parts.push({ inlineData: { mimeType: 'image/png', data: stripBase64(base64) } });
+      parts.push(imagePart(base64));
     });
   }
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  return await callImageModel(ai, parts, params.aspectRatio, params.resolution);
+  return { ...await callImageModel(parts, 'scene', params), templateVersion };
 };
 
-// Common execution function
-async function callImageModel(ai: GoogleGenAI, parts: any[], aspectRatio: AspectRatio, resolution: ImageResolution): Promise<string> {
-  const operation = async () => {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: { parts },
-      config: {
-        imageConfig: {
-          aspectRatio: aspectRatio,
-          imageSize: resolution // '2K' or '4K'
-        }
-      }
-    });
+// --- Regional Editing ---
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-    throw new Error("No image data returned from API");
+interface RegionEditParams extends BaseGenerationParams {
+  baseImage: string; // Current image of the asset, data URL
+  regions: SelectionRegion[];
+  feedback: string;
+  productBase64s: string[]; // Ground truth for the jewelry inside the region
+  feedbackReferenceBase64s?: string[];
+  aspectRatio: AspectRatio;
+  targetPiece?: string; // Set piece the regions belong to, see describePiece
+}
+
+// Sends the current image plus a real mask as an edit request, then composites the result
+// back onto the original so nothing outside the regions can change.
+export const editImageRegions = async (params: RegionEditParams): Promise<GeneratedImage> => {
+  const { width, height } = await getImageSize(params.baseImage);
+  const mask = renderSelectionMask(params.regions, width, height);
+
+  const { text, templateVersion } = renderPrompt('region-edit', {
+    category: params.category || 'Jewelry',
+    productCount: params.productBase64s.length,
+    feedbackReferenceCount: params.feedbackReferenceBase64s?.length,
+    instructions: params.instructions,
+    feedback: params.feedback,
+    targetPiece: params.targetPiece,
+    regions: describeRegions(params.regions),
+    primaryViewRule: primaryViewRule(params.productBase64s.length > 1),
+  });
+
+  const parts: ProviderPart[] = [{ text }];
+  pushProductImages(parts, params.productBase64s);
+  params.feedbackReferenceBase64s?.forEach(base64 => {
+    parts.push(imagePart(base64));
+  });
+
+  const provider = getProviderFor('image-edit');
+  const edited = await runMetered(
+    provider,
+    { operation: 'region-edit', capability: 'image-edit', resolution: params.resolution, usage: params.usage },
+    onUsage => provider.editImage({
+      parts,
+      baseImage: params.baseImage,
+      mask,
+      aspectRatio: params.aspectRatio,
+      resolution: params.resolution,
+      signal: params.signal,
+      onUsage,
+    }),
+    retryPolicies.image,
+    params.signal
+  );
+
+  return {
+    imageUrl: await compositeWithMask(params.baseImage, edited, mask),
+    prompt: text,
+    model: provider.models['image-edit'] ?? provider.id,
+    templateVersion,
   };
+};
+
+// Common execution function
+async function callImageModel(
+  parts: ProviderPart[],
+  operation: UsageOperation,
+  params: { aspectRatio: AspectRatio; resolution: ImageResolution; signal?: AbortSignal; usage?: UsageTag; seed?: number }
+): Promise<GeneratedImage> {
+  const { aspectRatio, resolution, signal, usage } = params;
+  const provider = getProviderFor('image-generate');
+  // Every render gets a seed where the backend takes one, so any version can be reproduced
+  const seed = provider.supportsSeed ? params.seed ?? Math.floor(Math.random() * 2 ** 31) : undefined;
 
   try {
-    // Retry up to 5 times with exponential backoff starting at 4s
-    return await retryOperation(operation, 5, 4000);
+    const imageUrl = await runMetered(
+      provider,
+      { operation, capability: 'image-generate', resolution, usage },
+      onUsage => provider.generateImage({ parts, aspectRatio, resolution, seed, signal, onUsage }),
+      retryPolicies.image,
+      signal
+    );
+    const prompt = parts.map(part => 'text' in part ? part.text.trim() : '').filter(Boolean).join('\n\n');
+    return { imageUrl, prompt, model: provider.models['image-generate'] ?? provider.id, seed };
   } catch (error) {
     console.error("Image generation failed after retries:", error);
     throw error;
@@ -0,0 +1,200 @@
+import { t } from "./i18n";
+
+// Central job queue for model calls.
+// Jobs run up to `concurrency` at a time, interactive jobs (regenerate, 4K) jump ahead of
+// bulk jobs, and every job receives an AbortSignal so it can be cancelled individually
+// or together with the rest of its batch.
+
+export type JobPriority = 'interactive' | 'bulk';
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface QueueJob {
+  id: string;
+  batchId: string;
+  assetId: string;
+  label: string;
+  priority: JobPriority;
+  status: JobStatus;
+  enqueuedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface QueueSnapshot {
+  jobs: QueueJob[]; // Queued in run order, then running, then recently finished
+  concurrency: number;
+}
+
+export class JobCancelledError extends Error {
+  constructor(message = t('queue.error.cancelled')) {
+    super(message);
+    this.name = 'JobCancelledError';
+  }
+}
+
+export const isCancellation = (error: unknown) =>
+  error instanceof JobCancelledError || (error instanceof DOMException && error.name === 'AbortError');
+
+interface InternalJob<T = unknown> extends QueueJob {
+  run: (signal: AbortSignal) => Promise<T>;
+  controller: AbortController;
+  resolve: (value: T) => void;
+  reject: (reason: unknown) => void;
+  seq: number;
+}
+
+const CONCURRENCY_KEY = 'luxefit.queue.concurrency';
+const DEFAULT_CONCURRENCY = 2;
+const MAX_FINISHED = 30;
+
+const PRIORITY_RANK: Record<JobPriority, number> = { interactive: 0, bulk: 1 };
+
+const readConcurrency = (): number => {
+  try {
+    const stored = Number(localStorage.getItem(CONCURRENCY_KEY));
+    if (stored >= 1) return stored;
+  } catch {
+    // Fall through to default
+  }
+  return DEFAULT_CONCURRENCY;
+};
+
+let concurrency = readConcurrency();
+let seqCounter = 0;
+const pending: InternalJob[] = [];
+const running = new Set<InternalJob>();
+const finished: InternalJob[] = [];
+const listeners = new Set<(snapshot: QueueSnapshot) => void>();
+
+// --- State ---
+
+const toPublic = ({ run, controller, resolve, reject, seq, ...job }: InternalJob): QueueJob => job;
+
+export const getQueueSnapshot = (): QueueSnapshot => ({
+  jobs: [...pending, ...running, ...finished].map(toPublic),
+  concurrency,
+});
+
+const notify = () => {
+  const snapshot = getQueueSnapshot();
+  listeners.forEach(listener => listener(snapshot));
+};
+
+export const subscribeQueue = (listener: (snapshot: QueueSnapshot) => void): (() => void) => {
+  listeners.add(listener);
+  listener(getQueueSnapshot());
+  return () => { listeners.delete(listener); };
+};
+
+// --- Scheduling ---
+
+const finish = (job: InternalJob, status: JobStatus) => {
+  job.status = status;
+  job.finishedAt = Date.now();
+  running.delete(job);
+  finished.unshift(job);
+  finished.splice(MAX_FINISHED);
+};
+
+const pump = () => {
+  while (running.size < concurrency && pending.length > 0) {
+    const job = pending.shift()!;
+    job.status = 'running';
+    job.startedAt = Date.now();
+    running.add(job);
+
+    job.run(job.controller.signal).then(
+      value => {
+        finish(job, job.controller.signal.aborted ? 'cancelled' : 'done');
+        if (job.controller.signal.aborted) job.reject(new JobCancelledError());
+        else job.resolve(value);
+      },
+      error => {
+        const cancelled = job.controller.signal.aborted || isCancellation(error);
+        finish(job, cancelled ? 'cancelled' : 'failed');
+        job.reject(cancelled ? new JobCancelledError() : error);
+      }
+    ).finally(() => {
+      notify();
+      pump();
+    });
+  }
+  notify();
+};
+
+const insertByPriority = (job: InternalJob) => {
+  const index = pending.findIndex(other =>
+    PRIORITY_RANK[other.priority] > PRIORITY_RANK[job.priority] ||
+    (PRIORITY_RANK[other.priority] === PRIORITY_RANK[job.priority] && other.seq > job.seq)
+  );
+  if (index === -1) pending.push(job);
+  else pending.splice(index, 0, job);
+};
+
+export const enqueueJob = <T>(
+  options: { batchId: string; assetId: string; label: string; priority?: JobPriority },
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const seq = seqCounter++;
+    const job: InternalJob<T> = {
+      id: `job-${seq}`,
+      batchId: options.batchId,
+      assetId: options.assetId,
+      label: options.label,
+      priority: options.priority ?? 'bulk',
+      status: 'queued',
+      enqueuedAt: Date.now(),
+      run,
+      controller: new AbortController(),
+      resolve,
+      reject,
+      seq,
+    };
+    insertByPriority(job as InternalJob);
+    pump();
+  });
+
+// --- Cancellation ---
+
+const cancelWhere = (predicate: (job: InternalJob) => boolean) => {
+  for (let i = pending.length - 1; i >= 0; i--) {
+    const job = pending[i];
+    if (!predicate(job)) continue;
+    pending.splice(i, 1);
+    job.controller.abort();
+    job.status = 'cancelled';
+    job.finishedAt = Date.now();
+    finished.unshift(job);
+    job.reject(new JobCancelledError());
+  }
+  finished.splice(MAX_FINISHED);
+  // Running jobs settle through pump() once their provider call observes the abort
+  running.forEach(job => { if (predicate(job)) job.controller.abort(); });
+  notify();
+};
+
+export const cancelJob = (jobId: string) => cancelWhere(job => job.id === jobId);
+
+export const cancelAsset = (assetId: string) => cancelWhere(job => job.assetId === assetId);
+
+export const cancelBatch = (batchId: string) => cancelWhere(job => job.batchId === batchId);
+
+export const cancelAll = () => cancelWhere(() => true);
+
+// --- Configuration ---
+
+export const setConcurrency = (value: number) => {
+  concurrency = Math.max(1, Math.floor(value));
+  try {
+    localStorage.setItem(CONCURRENCY_KEY, String(concurrency));
+  } catch {
+    // Applies for this session only
+  }
+  pump();
+};
+
+export const clearFinishedJobs = () => {
+  finished.length = 0;
+  notify();
+};
@@ -0,0 +1,69 @@
+import { zhCN } from "./locales/zhCN";
+import { en } from "./locales/en";
+
+// --- UI Language ---
+// zh-CN is the source catalog: its keys define MessageKey, and every other locale must
+// translate all of them. The active locale is module state (persisted in localStorage),
+// so services can localize their messages without threading it through every call.
+
+export type Locale = 'zh-CN' | 'en';
+
+export type MessageKey = keyof typeof zhCN;
+export type Messages = Record<MessageKey, string>;
+
+export interface LocaleDefinition {
+  id: Locale;
+  label: string; // In its own language, for the switcher
+  promptLanguage: string; // Language the AI is asked to answer in
+}
+
+export const LOCALES: LocaleDefinition[] = [
+  { id: 'zh-CN', label: '中文', promptLanguage: 'Simplified Chinese' },
+  { id: 'en', label: 'English', promptLanguage: 'English' },
+];
+
+const CATALOGS: Record<Locale, Messages> = { 'zh-CN': zhCN, 'en': en };
+
+const STORAGE_KEY = 'luxefit.locale';
+const DEFAULT_LOCALE: Locale = 'zh-CN';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.id === value);
+
+const readConfiguredLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // localStorage unavailable (private mode etc.)
+  }
+  return DEFAULT_LOCALE;
+};
+
+let activeLocale = readConfiguredLocale();
+if (typeof document !== 'undefined') document.documentElement.lang = activeLocale;
+
+export const getLocale = (): Locale => activeLocale;
+
+export const getLocaleDefinition = (): LocaleDefinition => LOCALES.find(l => l.id === activeLocale)!;
+
+export const setLocale = (locale: Locale) => {
+  if (!isLocale(locale)) throw new Error(`Unknown locale: ${locale}`);
+  activeLocale = locale;
+  document.documentElement.lang = locale;
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Language still applies for this session
+  }
+};
+
+// t('queue.running', { count: 2 }) -> "2 running"; unknown placeholders are left as-is
+export const t = (key: MessageKey, params?: Record<string, string | number>): string => {
+  const message = CATALOGS[activeLocale][key] ?? zhCN[key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => name in params ? String(params[name]) : match);
+};
+
+// Dates and times in the active language
+export const formatDateTime = (timestamp: number, options?: Intl.DateTimeFormatOptions) =>
+  new Date(timestamp).toLocaleString(activeLocale, options);
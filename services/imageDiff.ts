@@ -0,0 +1,67 @@
+import { loadImage } from "./imageMask";
+
+// Pixel-difference heatmap between two images, computed on a canvas.
+// Both images are drawn at the same (capped) size; the output is a transparent PNG
+// where unchanged pixels stay clear and changes ramp from blue to red.
+
+const MAX_DIFF_EDGE = 1024;
+const NOISE_FLOOR = 12; // Ignore compression noise below this per-pixel delta (0-255)
+
+export interface DiffResult {
+  heatmapUrl: string;
+  changedRatio: number; // Fraction of pixels above the noise floor
+}
+
+const heatColor = (t: number): [number, number, number] => {
+  // 0 -> blue, 0.5 -> yellow, 1 -> red
+  if (t < 0.5) {
+    const k = t / 0.5;
+    return [Math.round(255 * k), Math.round(255 * k), Math.round(255 * (1 - k))];
+  }
+  const k = (t - 0.5) / 0.5;
+  return [255, Math.round(255 * (1 - k)), 0];
+};
+
+export const computeDiffHeatmap = async (urlA: string, urlB: string): Promise<DiffResult> => {
+  const [a, b] = await Promise.all([loadImage(urlA), loadImage(urlB)]);
+  const scale = Math.min(1, MAX_DIFF_EDGE / Math.max(a.naturalWidth, a.naturalHeight));
+  const width = Math.round(a.naturalWidth * scale);
+  const height = Math.round(a.naturalHeight * scale);
+
+  const read = (img: HTMLImageElement) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  };
+  const pixelsA = read(a);
+  const pixelsB = read(b);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const out = ctx.createImageData(width, height);
+
+  let changed = 0;
+  for (let i = 0; i < out.data.length; i += 4) {
+    const delta = (
+      Math.abs(pixelsA.data[i] - pixelsB.data[i]) +
+      Math.abs(pixelsA.data[i + 1] - pixelsB.data[i + 1]) +
+      Math.abs(pixelsA.data[i + 2] - pixelsB.data[i + 2])
+    ) / 3;
+    if (delta < NOISE_FLOOR) continue;
+    changed++;
+    const t = Math.min(1, delta / 128);
+    const [r, g, bl] = heatColor(t);
+    out.data[i] = r;
+    out.data[i + 1] = g;
+    out.data[i + 2] = bl;
+    out.data[i + 3] = Math.round(90 + 165 * t);
+  }
+  ctx.putImageData(out, 0, 0);
+
+  return { heatmapUrl: canvas.toDataURL('image/png'), changedRatio: changed / (width * height) };
+};
@@ -0,0 +1,236 @@
+import { UploadedFile } from "../types";
+import { blobToDataUrl, dataUrlToBlob } from "./storageService";
+import { t } from "./i18n";
+
+// Upload pipeline for input photos: sniffs the real format from the file bytes, bakes in
+// EXIF orientation, converts formats the image model doesn't take, downscales oversized
+// photos and hashes the original bytes so the same photo is never added twice.
+
+const LIMITS_KEY = 'luxefit.uploadLimits';
+
+export interface UploadLimits {
+  maxFileMb: number; // Larger files are rejected
+  maxLongEdge: number; // Larger photos are downscaled, px
+}
+
+export const DEFAULT_UPLOAD_LIMITS: UploadLimits = { maxFileMb: 30, maxLongEdge: 4096 };
+
+export const loadUploadLimits = (): UploadLimits => {
+  try {
+    return { ...DEFAULT_UPLOAD_LIMITS, ...JSON.parse(localStorage.getItem(LIMITS_KEY) || '{}') };
+  } catch {
+    return { ...DEFAULT_UPLOAD_LIMITS };
+  }
+};
+
+export const saveUploadLimits = (limits: UploadLimits) => {
+  try {
+    localStorage.setItem(LIMITS_KEY, JSON.stringify(limits));
+  } catch {
+    // Limits still apply for this session
+  }
+};
+
+export class UploadError extends Error {
+  constructor(message = t('upload.error.unreadable')) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+// Formats sent to the image model unchanged; anything else is re-encoded
+const MODEL_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Lossless sources stay lossless; photos become JPEG
+const OUTPUT_TYPES: Record<string, string> = { 'image/png': 'image/png', 'image/gif': 'image/png', 'image/bmp': 'image/png', 'image/webp': 'image/webp' };
+const JPEG_QUALITY = 0.92;
+
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+// Real format from the magic bytes; browsers often report HEIC as '' or the wrong type
+export const detectMimeType = (bytes: Uint8Array): string | null => {
+  const ascii = (start: number, length: number) => String.fromCharCode(...Array.from(bytes.subarray(start, start + length)));
+  if (bytes[0] === 0x89 && ascii(1, 3) === 'PNG') return 'image/png';
+  if (bytes[0] === 0xFF && bytes[1] === 0xD8 && bytes[2] === 0xFF) return 'image/jpeg';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') return 'image/webp';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(0, 2) === 'BM') return 'image/bmp';
+  if (ascii(4, 4) === 'ftyp') {
+    const brand = ascii(8, 4);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (HEIF_BRANDS.includes(brand)) return 'image/heic';
+  }
+  return null;
+};
+
+// EXIF orientation tag (1-8) of a JPEG; 1 when there is none
+export const readExifOrientation = (bytes: Uint8Array): number => {
+  if (bytes[0] !== 0xFF || bytes[1] !== 0xD8) return 1;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) return 1; // Image data starts: no EXIF
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xFFE1 && offset + 18 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+      }
+      return 1;
+    }
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+const hashBytes = async (buffer: ArrayBuffer): Promise<string> => {
+  const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  if (crypto?.subtle) return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', buffer)));
+  // Insecure contexts (plain http) have no SubtleCrypto; FNV-1a is enough to spot duplicates
+  let hash = 0x811c9dc5;
+  new Uint8Array(buffer).forEach(b => { hash = Math.imul(hash ^ b, 0x01000193); });
+  return `fnv-${(hash >>> 0).toString(16)}-${buffer.byteLength}`;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new UploadError(t('upload.error.convert'))), type, JPEG_QUALITY);
+  });
+
+// Only Safari decodes HEIC natively. Elsewhere a WASM build of libheif converts it, loaded
+// on first use; PNG keeps the conversion lossless before the usual re-encode.
+const decodeHeic = async (file: File): Promise<ImageBitmap> => {
+  const { default: heic2any } = await import('heic2any');
+  const converted = await heic2any({ blob: file, toType: 'image/png' });
+  return createImageBitmap(Array.isArray(converted) ? converted[0] : converted);
+};
+
+export const readUploadedFile = async (file: File, limits: UploadLimits): Promise<UploadedFile> => {
+  if (file.size > limits.maxFileMb * 1024 * 1024) {
+    throw new UploadError(t('upload.error.tooLarge', { mb: limits.maxFileMb }));
+  }
+
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  const mimeType = detectMimeType(bytes) ?? file.type;
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    if (mimeType !== 'image/heic') throw new UploadError(t('upload.error.format'));
+    try {
+      bitmap = await decodeHeic(file);
+    } catch {
+      throw new UploadError(t('upload.error.heic'));
+    }
+  }
+
+  try {
+    const longEdge = Math.max(bitmap.width, bitmap.height);
+    const scale = Math.min(1, limits.maxLongEdge / longEdge);
+    const needsReencode = scale < 1 || !MODEL_MIME_TYPES.includes(mimeType) || readExifOrientation(bytes) !== 1;
+    const hash = await hashBytes(buffer);
+
+    if (!needsReencode) {
+      return {
+        file,
+        previewUrl: URL.createObjectURL(file),
+        base64: await blobToDataUrl(new Blob([buffer], { type: mimeType })),
+        mimeType,
+        width: bitmap.width,
+        height: bitmap.height,
+        hash,
+      };
+    }
+
+    // The bitmap was decoded upright, so drawing it bakes the orientation into the pixels
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const blob = await canvasToBlob(canvas, OUTPUT_TYPES[mimeType] ?? 'image/jpeg');
+    return {
+      file,
+      previewUrl: URL.createObjectURL(blob),
+      base64: await blobToDataUrl(blob),
+      mimeType: blob.type,
+      width: canvas.width,
+      height: canvas.height,
+      hash,
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+export interface UploadResult {
+  files: UploadedFile[];
+  duplicates: number; // Skipped because the same photo is already present
+  errors: string[]; // One per rejected file, prefixed with its name
+}
+
+// Reads several files, merging any whose content matches `existing` or an earlier file
+export const readUploadedFiles = async (files: File[], limits: UploadLimits, existing: UploadedFile[] = []): Promise<UploadResult> => {
+  const seen = new Set(existing.map(f => f.hash));
+  const result: UploadResult = { files: [], duplicates: 0, errors: [] };
+  for (const file of files) {
+    try {
+      const uploaded = await readUploadedFile(file, limits);
+      if (seen.has(uploaded.hash)) {
+        URL.revokeObjectURL(uploaded.previewUrl);
+        result.duplicates++;
+        continue;
+      }
+      seen.add(uploaded.hash);
+      result.files.push(uploaded);
+    } catch (e) {
+      result.errors.push(t('upload.error.fileItem', { name: file.name, message: e instanceof UploadError ? e.message : t('upload.error.readFailed') }));
+    }
+  }
+  return result;
+};
+
+// Splits a data URL for an inline image part. Bare base64 (no header) is sniffed.
+export const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
+  const comma = dataUrl.indexOf(',');
+  if (dataUrl.startsWith('data:') && comma > 0) {
+    return { mimeType: dataUrl.slice(5, comma).split(';')[0] || 'image/png', data: dataUrl.slice(comma + 1) };
+  }
+  const head = Uint8Array.from(atob(dataUrl.slice(0, 24)), c => c.charCodeAt(0));
+  return { mimeType: detectMimeType(head) ?? 'image/png', data: dataUrl };
+};
+
+// --- Drag and drop ---
+
+// Carries a data URL when a gallery result or an upload thumbnail is dragged onto an upload
+const DRAGGED_IMAGE_TYPE = 'application/x-luxefit-image';
+
+export const setDraggedImage = (dataTransfer: DataTransfer, dataUrl: string, name: string) => {
+  dataTransfer.setData(DRAGGED_IMAGE_TYPE, JSON.stringify({ dataUrl, name }));
+  dataTransfer.effectAllowed = 'copyMove';
+};
+
+// Files from the OS, or the in-app image being dragged
+export const getDroppedFiles = (dataTransfer: DataTransfer): File[] => {
+  const dragged = dataTransfer.getData(DRAGGED_IMAGE_TYPE);
+  if (dragged) {
+    try {
+      const { dataUrl, name } = JSON.parse(dragged);
+      const blob = dataUrlToBlob(dataUrl);
+      return [new File([blob], name, { type: blob.type })];
+    } catch {
+      return [];
+    }
+  }
+  return (Array.from(dataTransfer.files) as File[]).filter(f => f.type.startsWith('image/') || f.type === '');
+};
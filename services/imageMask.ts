@@ -0,0 +1,150 @@
+import { Region, Point, SelectionShape, SelectionRegion } from "../types";
+
+// Canvas helpers for mask-based regional editing. Masks are black/white PNGs with
+// white marking the editable area, at the exact pixel size of the image being edited.
+
+const DEFAULT_FEATHER_PX = 12;
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to decode image'));
+    img.src = src;
+  });
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+export const getImageSize = async (dataUrl: string): Promise<{ width: number; height: number }> => {
+  const img = await loadImage(dataUrl);
+  return { width: img.naturalWidth, height: img.naturalHeight };
+};
+
+// Traces one shape onto a 2D context in pixel space. Coordinates are stored as percentages
+// so they survive any display size.
+const drawShape = (ctx: CanvasRenderingContext2D, shape: SelectionShape, width: number, height: number) => {
+  const px = (p: Point) => [p.x / 100 * width, p.y / 100 * height] as const;
+
+  if (shape.type === 'rect') {
+    const { x, y, width: w, height: h } = shape.rect;
+    ctx.fillRect(x / 100 * width, y / 100 * height, w / 100 * width, h / 100 * height);
+    return;
+  }
+
+  if (shape.points.length === 0) return;
+  ctx.beginPath();
+  ctx.moveTo(...px(shape.points[0]));
+  shape.points.slice(1).forEach(p => ctx.lineTo(...px(p)));
+
+  if (shape.type === 'polygon') {
+    ctx.closePath();
+    ctx.fill();
+    return;
+  }
+
+  ctx.lineWidth = shape.size / 100 * width;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  if (shape.points.length === 1) {
+    // A single click with the brush still paints a dot
+    ctx.lineTo(...px(shape.points[0]));
+  }
+  ctx.stroke();
+};
+
+// Each region is rasterised on its own layer so the eraser only removes from the region it was used in
+export const renderSelectionMask = (regions: SelectionRegion[], width: number, height: number): string => {
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+
+  regions.forEach(region => {
+    const { canvas: layer, ctx: layerCtx } = createCanvas(width, height);
+    layerCtx.fillStyle = '#fff';
+    layerCtx.strokeStyle = '#fff';
+    region.shapes.forEach(shape => {
+      layerCtx.globalCompositeOperation = shape.type === 'brush' && shape.erase ? 'destination-out' : 'source-over';
+      drawShape(layerCtx, shape, width, height);
+    });
+    ctx.drawImage(layer, 0, 0);
+  });
+
+  return canvas.toDataURL('image/png');
+};
+
+// Axis-aligned bounds of everything a region adds, in percentages; null if it adds nothing
+export const getRegionBounds = (region: SelectionRegion): Region | null => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  region.shapes.forEach(shape => {
+    if (shape.type === 'rect') {
+      xs.push(shape.rect.x, shape.rect.x + shape.rect.width);
+      ys.push(shape.rect.y, shape.rect.y + shape.rect.height);
+    } else if (shape.type === 'polygon' || !shape.erase) {
+      const pad = shape.type === 'brush' ? shape.size / 2 : 0;
+      shape.points.forEach(p => {
+        xs.push(p.x - pad, p.x + pad);
+        ys.push(p.y - pad, p.y + pad);
+      });
+    }
+  });
+  if (xs.length === 0) return null;
+  const clamp = (v: number) => Math.min(100, Math.max(0, v));
+  const x = clamp(Math.min(...xs));
+  const y = clamp(Math.min(...ys));
+  return { x, y, width: clamp(Math.max(...xs)) - x, height: clamp(Math.max(...ys)) - y };
+};
+
+export const hasSelection = (regions?: SelectionRegion[]) =>
+  !!regions && regions.some(region => getRegionBounds(region) !== null);
+
+// Black/white mask -> alpha mask, feathered inward only: the blur is clipped back to the
+// hard mask so every pixel outside the selection keeps alpha 0.
+export const buildAlphaMask = async (maskUrl: string, width: number, height: number, featherPx: number): Promise<HTMLCanvasElement> => {
+  const { canvas: hard, ctx: hardCtx } = createCanvas(width, height);
+  hardCtx.drawImage(await loadImage(maskUrl), 0, 0, width, height);
+  const pixels = hardCtx.getImageData(0, 0, width, height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data[i + 3] = pixels.data[i];
+  }
+  hardCtx.putImageData(pixels, 0, 0);
+
+  if (featherPx <= 0) return hard;
+
+  const { canvas: soft, ctx: softCtx } = createCanvas(width, height);
+  softCtx.filter = `blur(${featherPx}px)`;
+  softCtx.drawImage(hard, 0, 0);
+  softCtx.filter = 'none';
+  softCtx.globalCompositeOperation = 'destination-in';
+  softCtx.drawImage(hard, 0, 0);
+  return soft;
+};
+
+// Pastes the edited image over the original through the mask. The edited image is
+// scaled to the original's size, since providers may return a different resolution.
+export const compositeWithMask = async (
+  originalUrl: string,
+  editedUrl: string,
+  maskUrl: string,
+  featherPx = DEFAULT_FEATHER_PX
+): Promise<string> => {
+  const [original, edited] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const alpha = await buildAlphaMask(maskUrl, width, height, featherPx);
+  const { canvas: patch, ctx: patchCtx } = createCanvas(width, height);
+  patchCtx.drawImage(edited, 0, 0, width, height);
+  patchCtx.globalCompositeOperation = 'destination-in';
+  patchCtx.drawImage(alpha, 0, 0);
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(original, 0, 0);
+  ctx.drawImage(patch, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,197 @@
+import { UploadedFile } from "../types";
+import { loadImage } from "./imageMask";
+
+// In-browser cleanup of product photos before they are sent to the model: near-white
+// backgrounds become pure white (or transparent), margins are cropped to the product plus
+// padding, and the result is scaled to a target long edge. Everything runs on a canvas.
+
+const OPTIONS_KEY = 'luxefit.preprocess';
+
+export type PreprocessBackground = 'white' | 'transparent' | 'keep';
+
+export interface PreprocessOptions {
+  enabled: boolean;
+  background: PreprocessBackground;
+  tolerance: number; // Max per-channel difference (0-255) from the sampled background
+  autoCrop: boolean;
+  padding: number; // Added on every side, as a fraction of the product's long edge
+  longEdge: number; // 0 keeps the original size
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  enabled: true,
+  background: 'white',
+  tolerance: 40,
+  autoCrop: true,
+  padding: 0.08,
+  longEdge: 2048,
+};
+
+// Backgrounds darker than this are left alone: the cleanup is for white-ish studio shots
+const MIN_BACKGROUND_LUMA = 160;
+
+export const loadPreprocessOptions = (): PreprocessOptions => {
+  try {
+    return { ...DEFAULT_PREPROCESS_OPTIONS, ...JSON.parse(localStorage.getItem(OPTIONS_KEY) || '{}') };
+  } catch {
+    return { ...DEFAULT_PREPROCESS_OPTIONS };
+  }
+};
+
+export const savePreprocessOptions = (options: PreprocessOptions) => {
+  try {
+    localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+  } catch {
+    // Options still apply for this session
+  }
+};
+
+// Identifies the options a processed image was made with, so option changes reprocess it
+export const getPreprocessKey = (options: PreprocessOptions) => JSON.stringify(options);
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.imageSmoothingQuality = 'high';
+  return { canvas, ctx };
+};
+
+// Per-channel median of the outermost pixel ring
+const sampleBorderColor = (data: Uint8ClampedArray, width: number, height: number): [number, number, number] => {
+  const histograms = [new Uint32Array(256), new Uint32Array(256), new Uint32Array(256)];
+  let count = 0;
+  const add = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    for (let c = 0; c < 3; c++) histograms[c][data[i + c]]++;
+    count++;
+  };
+  for (let x = 0; x < width; x++) { add(x, 0); add(x, height - 1); }
+  for (let y = 1; y < height - 1; y++) { add(0, y); add(width - 1, y); }
+
+  const median = (histogram: Uint32Array) => {
+    let seen = 0;
+    for (let v = 0; v < 256; v++) {
+      seen += histogram[v];
+      if (seen * 2 >= count) return v;
+    }
+    return 255;
+  };
+  return [median(histograms[0]), median(histograms[1]), median(histograms[2])];
+};
+
+// Flood fill from the image border over pixels close to the background colour. Filling from
+// the edges keeps white parts inside the product (pearls, enamel) intact.
+const findBackground = (data: Uint8ClampedArray, width: number, height: number, color: [number, number, number], tolerance: number): Uint8Array => {
+  const mask = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  let top = 0;
+  const isBackground = (p: number) => {
+    const i = p * 4;
+    return Math.abs(data[i] - color[0]) <= tolerance
+      && Math.abs(data[i + 1] - color[1]) <= tolerance
+      && Math.abs(data[i + 2] - color[2]) <= tolerance;
+  };
+  const push = (p: number) => {
+    if (mask[p] || !isBackground(p)) return;
+    mask[p] = 1;
+    stack[top++] = p;
+  };
+
+  for (let x = 0; x < width; x++) { push(x); push((height - 1) * width + x); }
+  for (let y = 0; y < height; y++) { push(y * width); push(y * width + width - 1); }
+  while (top > 0) {
+    const p = stack[--top];
+    const x = p % width;
+    if (x > 0) push(p - 1);
+    if (x < width - 1) push(p + 1);
+    if (p >= width) push(p - width);
+    if (p < width * (height - 1)) push(p + width);
+  }
+  return mask;
+};
+
+const findForegroundBounds = (mask: Uint8Array, width: number, height: number) => {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+export const preprocessProductImage = async (dataUrl: string, options: PreprocessOptions): Promise<string> => {
+  const img = await loadImage(dataUrl);
+
+  // Work at up to twice the target size: enough detail for the crop, bounded cost for 8000px originals
+  const workScale = options.longEdge > 0 ? Math.min(1, options.longEdge * 2 / Math.max(img.naturalWidth, img.naturalHeight)) : 1;
+  const width = Math.max(1, Math.round(img.naturalWidth * workScale));
+  const height = Math.max(1, Math.round(img.naturalHeight * workScale));
+  const work = createCanvas(width, height);
+  work.ctx.drawImage(img, 0, 0, width, height);
+  const imageData = work.ctx.getImageData(0, 0, width, height);
+  const { data } = imageData;
+
+  const background = sampleBorderColor(data, width, height);
+  const luma = 0.299 * background[0] + 0.587 * background[1] + 0.114 * background[2];
+  const mask = luma >= MIN_BACKGROUND_LUMA ? findBackground(data, width, height, background, options.tolerance) : null;
+
+  if (mask && options.background !== 'keep') {
+    for (let p = 0; p < mask.length; p++) {
+      if (!mask[p]) continue;
+      const i = p * 4;
+      data[i] = data[i + 1] = data[i + 2] = 255;
+      data[i + 3] = options.background === 'transparent' ? 0 : 255;
+    }
+    work.ctx.putImageData(imageData, 0, 0);
+  }
+
+  // Crop to the product plus padding; the padding takes the cleaned background colour
+  let source = work.canvas;
+  const bounds = mask && options.autoCrop ? findForegroundBounds(mask, width, height) : null;
+  if (bounds) {
+    const pad = Math.round(Math.max(bounds.width, bounds.height) * options.padding);
+    const cropped = createCanvas(bounds.width + pad * 2, bounds.height + pad * 2);
+    if (options.background !== 'transparent') {
+      cropped.ctx.fillStyle = options.background === 'white' ? '#ffffff' : `rgb(${background.join(',')})`;
+      cropped.ctx.fillRect(0, 0, cropped.canvas.width, cropped.canvas.height);
+    }
+    cropped.ctx.drawImage(work.canvas, bounds.x, bounds.y, bounds.width, bounds.height, pad, pad, bounds.width, bounds.height);
+    source = cropped.canvas;
+  }
+
+  // Scale down to the target long edge; smaller images are never upscaled
+  const scale = options.longEdge > 0 ? Math.min(1, options.longEdge / Math.max(source.width, source.height)) : 1;
+  if (scale < 1) {
+    const resized = createCanvas(Math.round(source.width * scale), Math.round(source.height * scale));
+    resized.ctx.drawImage(source, 0, 0, resized.canvas.width, resized.canvas.height);
+    source = resized.canvas;
+  }
+  return source.toDataURL('image/png');
+};
+
+// Processes the files whose processed image is missing or made with other options. The
+// returned map goes from each stale file object to its updated copy.
+export const preprocessFiles = async (files: UploadedFile[], options: PreprocessOptions): Promise<Map<UploadedFile, UploadedFile>> => {
+  const key = getPreprocessKey(options);
+  const stale = files.filter(f => f.processedKey !== key);
+  const updated = await Promise.all(stale.map(async (f): Promise<UploadedFile> => {
+    try {
+      return { ...f, processed: await preprocessProductImage(f.base64, options), processedKey: key };
+    } catch (e) {
+      console.error("Product image preprocessing failed", e);
+      return { ...f, processed: undefined, processedKey: key }; // Falls back to the original
+    }
+  }));
+  return new Map(stale.map((f, i) => [f, updated[i]]));
+};
+
+// The image sent to the model for a product file
+export const getProductImageData = (file: UploadedFile, options: PreprocessOptions) =>
+  options.enabled && file.processed ? file.processed : file.base64;
@@ -0,0 +1,620 @@
+import type { Messages } from "../i18n";
+
+export const en: Messages = {
+  // Categories
+  'category.brooch': 'Brooch',
+  'category.brooch.anchor': 'chest / lapel',
+  'category.necklace': 'Necklace',
+  'category.necklace.anchor': 'neck / collarbone',
+  'category.earring': 'Earrings',
+  'category.earring.anchor': 'earlobe',
+  'category.ring': 'Ring',
+  'category.ring.anchor': 'fingers',
+  'category.bracelet': 'Bracelet',
+  'category.bracelet.anchor': 'wrist',
+  'category.brooch.shot1': 'Detail close-up',
+  'category.brooch.shot2': 'Half-body front',
+  'category.brooch.shot3': 'Close-up side',
+  'category.brooch.shot4': 'Adjusting the lapel',
+  'category.necklace.shot1': 'Detail close-up',
+  'category.necklace.shot2': 'Close-up front',
+  'category.necklace.shot3': 'Close-up side',
+  'category.necklace.shot4': 'Hand interaction',
+  'category.earring.shot1': 'Ear close-up',
+  'category.earring.shot2': 'Side profile',
+  'category.earring.shot3': 'Symmetric front',
+  'category.earring.shot4': 'Tucking hair',
+  'category.ring.shot1': 'Hand close-up',
+  'category.ring.shot2': 'Back of hand',
+  'category.ring.shot3': 'Side angle',
+  'category.ring.shot4': 'Chin on hand',
+  'category.bracelet.shot1': 'Wrist close-up',
+  'category.bracelet.shot2': 'Wrist resting',
+  'category.bracelet.shot3': 'Raised hand',
+  'category.bracelet.shot4': 'Hand interaction',
+
+  // Shot presets
+  'preset.builtin.tryOn': 'By category',
+  'preset.builtin.scene': 'Standard scenes (3)',
+  'preset.builtin.sceneShot': 'Scene {index}',
+  'preset.newShot': 'New shot',
+  'preset.copyName': '{name} copy',
+  'preset.importedName': 'Imported preset',
+  'preset.error.unrecognized': 'Unrecognized preset file',
+  'preset.error.json': 'Invalid JSON',
+  'preset.error.mode': 'The preset has no valid mode (try-on / scene)',
+
+  // Generation errors
+  'error.rate-limit': 'Too many requests, and automatic retries also failed. Wait a minute, or lower the concurrency in the queue.',
+  'error.quota': 'The API quota is used up. Check your quota/billing in Google AI Studio, or switch API keys.',
+  'error.region-blocked': 'The service is not available in your region. Check your network/VPN exit region and try again.',
+  'error.safety-block': 'Blocked by the safety policy. Rephrase the precautions or feedback to avoid sensitive wording, then retry.',
+  'error.timeout': 'Generation timed out. 4K requests take longer; retry later or generate at 2K first.',
+  'error.bad-input': 'Invalid input. Check the format and size of the uploaded images, or simplify the prompt, then retry.',
+  'error.no-image': 'The AI returned no image. Add clearer feedback and regenerate.',
+  'error.server-busy': 'The server is busy, please try again later.',
+  'error.network': 'The network connection dropped. Check your connection and retry.',
+  'error.unknown': 'Generation failed, please retry.',
+
+  // Uploads
+  'upload.error.unreadable': 'Could not read this image',
+  'upload.error.convert': 'Image conversion failed',
+  'upload.error.tooLarge': 'File exceeds the {mb}MB limit',
+  'upload.error.heic': 'This HEIC photo could not be converted. Export it as JPG and upload that instead',
+  'upload.error.format': 'Unrecognized image format',
+  'upload.error.readFailed': 'read failed',
+  'upload.error.fileItem': '{name}: {message}',
+
+  // Catalog import
+  'catalog.error.category': 'SKU {sku}: unrecognized category "{value}"',
+  'catalog.error.missingSku': 'Row {row} has no SKU',
+  'catalog.error.noProductImages': 'SKU {sku}: no product images',
+  'catalog.error.json': 'Invalid JSON, the manifest could not be parsed',
+  'catalog.error.jsonShape': 'A JSON manifest must be an array, or an object with an items array',
+  'catalog.error.empty': 'The manifest is empty',
+  'catalog.error.duplicateSku': 'SKU {sku} appears more than once',
+  'catalog.error.missingImages': 'Images not found: {files}',
+
+  // Batch export
+  'export.error.noManifest': 'The archive has no manifest.json',
+  'export.error.manifestJson': 'manifest.json is malformed',
+  'export.error.notLuxeFit': 'Not a LuxeFit export archive',
+  'export.error.newerVersion': 'This export comes from a newer version of the app; upgrade before importing',
+  'export.error.missingImage': 'Image missing from the archive: {path}',
+
+  // ZIP
+  'zip.error.unrecognized': 'Unrecognized ZIP file',
+  'zip.error.method': 'Unsupported compression method ({method}): {name}',
+
+  // Queue
+  'queue.error.cancelled': 'Job cancelled',
+
+  // Storage
+  'storage.error.quota': 'Not enough local storage space',
+  'storage.interrupted': 'Generation was interrupted (page reloaded). Please regenerate.',
+
+  // Product library
+  'product.materialNotesLine': 'Material notes: {notes}',
+
+  // Prompt templates
+  'template.problem.unknownVariable': 'Unknown variable {{{name}}}',
+  'template.problem.unopened': 'Section {{/{name}}} has no opening tag',
+  'template.problem.unclosed': 'Section {{#{name}}} is never closed',
+
+  // Prompt templates
+  'template.try-on': 'Model try-on',
+  'template.set-try-on': 'Set try-on',
+  'template.scene': 'Scene',
+  'template.region-edit': 'Region edit',
+  'template.piece-edit': 'Set piece edit',
+  'template.intent': 'Feedback intent check',
+  'template.var.feedback': 'Correction feedback',
+  'template.var.hasFeedbackReferences': 'New reference images attached',
+  'template.var.primaryViewRule': 'Primary view rule when there are several product views',
+  'template.var.category': 'Jewelry category id',
+  'template.var.productCount': 'Number of product images',
+  'template.var.referenceCount': 'Number of real-life reference images',
+  'template.var.dimensionsText': 'Dimensions',
+  'template.var.instructions': 'Precautions',
+  'template.var.placementAnchor': 'Where the piece is worn',
+  'template.var.placementRules': 'Placement rules, one per line',
+  'template.var.scaleHint': 'Scale calibration hint',
+  'template.var.viewpoint': 'Shot / pose requirement',
+  'template.var.pieceCount': 'Number of pieces',
+  'template.var.pieceList': 'Images and dimensions of each piece, one per line',
+  'template.var.placement': 'Placement rules',
+  'template.var.lead': 'Lead piece (piece 1)',
+  'template.var.scenePrompt': 'Scene description',
+  'template.var.hasReferences': 'Real-life reference images attached',
+  'template.var.hasModel': 'Model photo attached',
+  'template.var.feedbackReferenceCount': 'Number of new reference images',
+  'template.var.targetPiece': 'Set piece being edited',
+  'template.var.regions': 'Selected regions',
+  'template.var.target': 'Piece being edited',
+  'template.var.others': 'The other pieces',
+  'template.var.originalPrompt': 'Original shot requirement',
+  'template.var.regionCount': 'Number of selected regions',
+  'template.var.hasCurrentImage': 'Current image attached',
+  'template.var.language': 'Reply language (follows the UI language)',
+  'template.var.confirmPrefix': 'Opening of the confirmation',
+  'template.var.example': 'Example reply',
+
+  // Model library
+  'model.framing.close-up': 'Face / neck close-up',
+  'model.framing.half-body': 'Half body',
+  'model.framing.full-body': 'Full body',
+  'model.framing.hands': 'Hands',
+  'model.rights.none': 'No rights period set',
+  'model.rights.valid': 'Rights valid',
+  'model.rights.expiring': 'Rights expiring soon',
+  'model.rights.expired': 'Rights expired',
+
+  // Scale calibration
+  'scale.feature.pupils': 'Pupillary distance',
+  'scale.feature.ringFinger': 'Ring finger width',
+  'scale.feature.eye': 'Eye width',
+  'scale.feature.ruler': 'Ruler / known length',
+
+  // Intent confirmation
+  'intent.prefix': 'Confirming your request: ',
+  'intent.empty': 'Please confirm your requested change',
+  'intent.example': 'Confirming your request: you selected the pendant bail in the top-left corner; I will change its setting to a bezel setting to match the reference image.',
+
+  // Mock provider
+  'mock.fidelitySummary': '[mock] Product fidelity check complete',
+  'mock.fidelityDefect': '[mock] Too few accent stones around the centre stone',
+  'mock.modelCheck': '[mock] Wearing area detected',
+  'mock.intent': '[mock] {feedback}',
+  'mock.intentDefault': 'adjust the image as described',
+
+  // Version history
+  'version.kind.initial': 'Initial',
+  'version.kind.regenerate': 'Regenerated',
+  'version.kind.region-edit': 'Region edit',
+  'version.kind.piece-edit': 'Piece edit',
+  'version.kind.upscale': 'High-res',
+  'version.restore': 'Restore as current version',
+  'version.branch': 'Continue editing from this version',
+
+  // Queue panel
+  'common.cancel': 'Cancel',
+  'queue.title': 'Generation queue',
+  'queue.counts': '{running} running · {queued} queued',
+  'queue.concurrency': 'Concurrency',
+  'queue.cancelBatch': 'Cancel batch',
+  'queue.priority': 'Priority job',
+  'queue.clearFinished': 'Clear finished',
+
+  // Compare view
+  'compare.mode.slider': 'Slider',
+  'compare.mode.side-by-side': 'Side by side',
+  'compare.mode.diff': 'Diff heatmap',
+  'compare.zoomHint': 'Scroll to zoom, drag to pan',
+  'compare.heatmapOpacity': 'Heatmap opacity',
+  'compare.changedPixels': 'Changed pixels {percent}%',
+
+  // Preprocess settings
+  'preprocess.title': 'Product photo cleanup',
+  'preprocess.settings': 'Cleanup settings',
+  'preprocess.background': 'Background',
+  'preprocess.background.white': 'White',
+  'preprocess.background.transparent': 'Transparent',
+  'preprocess.background.keep': 'Keep original',
+  'preprocess.tolerance': 'Background tolerance',
+  'preprocess.autoCrop': 'Auto-crop',
+  'preprocess.padding': 'Padding',
+  'preprocess.longEdge': 'Long edge',
+  'preprocess.originalSize': 'Original size',
+
+  // Prompt template editor
+  'common.listSeparator': '; ',
+  'templateEditor.title': 'Prompt templates',
+  'templateEditor.discardConfirm': 'Discard unsaved changes?',
+  'templateEditor.builtIn': 'Built-in',
+  'templateEditor.active': 'In use',
+  'templateEditor.activate': 'Use this version',
+  'templateEditor.recordHint': 'Each render records the template version it used, e.g. {version}',
+  'templateEditor.syntaxHint': '{{variable}} inserts a variable; {{#variable}}…{{/variable}} is kept only when it has a value; {{^variable}}…{{/variable}} only when it does not.',
+  'templateEditor.notePlaceholder': 'Version note (optional)',
+  'templateEditor.save': 'Save as new version',
+  'templateEditor.preview': 'Preview (sample values)',
+  'templateEditor.variables': 'Variables',
+  'templateEditor.samplePlaceholder': 'Empty = not set',
+
+  // Model library
+  'common.save': 'Save',
+  'common.delete': 'Delete',
+  'model.field.name': 'Name',
+  'model.field.skinTone': 'Skin tone',
+  'model.field.hair': 'Hair',
+  'model.field.pose': 'Pose',
+  'model.field.rightsExpiry': 'Rights expire',
+  'model.field.tags': 'Tags, comma separated',
+  'model.duplicates': '{count} already in the library',
+  'model.deleteConfirmUsed': 'Delete model "{name}"? {count} batches use this model; their records keep the name.',
+  'model.deleteConfirm': 'Delete model "{name}"?',
+  'model.title': 'Model library',
+  'model.count': '{count} models',
+  'model.add': 'Add model photos',
+  'model.searchPlaceholder': 'Search name, skin tone, hair, pose or tags',
+  'model.filter.allFramings': 'All framings',
+  'model.filter.allRights': 'All rights statuses',
+  'model.filter.allTags': 'All tags',
+  'model.empty': 'The model library is empty. Add licensed model photos you use often to pick them directly later.',
+  'model.noMatches': 'No models match.',
+  'model.inUse': 'In use',
+  'model.edit': 'Edit attributes',
+  'model.showUsage': 'Show only batches using this model in the results',
+  'model.usage': '{count} batches',
+  'model.use': 'Use',
+
+  // Preset editor
+  'mode.try-on': 'Try-on',
+  'mode.scene': 'Scene',
+  'common.moveUp': 'Move up',
+  'common.moveDown': 'Move down',
+  'presetEditor.title': 'Shot presets',
+  'presetEditor.deleteConfirm': 'Delete preset "{name}"?',
+  'presetEditor.wrongMode': 'This preset is for {mode} mode. Switch to that tab to import it.',
+  'presetEditor.importFailed': 'Import failed',
+  'presetEditor.newPresetName': 'New preset',
+  'presetEditor.newPreset': 'New preset',
+  'presetEditor.importJson': 'Import JSON',
+  'presetEditor.duplicate': 'Duplicate as new preset',
+  'presetEditor.exportJson': 'Export JSON',
+  'presetEditor.delete': 'Delete preset',
+  'presetEditor.readOnlyHint': 'Built-in presets are read-only. Duplicate one to edit it.',
+  'presetEditor.followsCategoryHint': 'Shots follow the jewelry category; showing the recommended shots for "{category}".',
+  'presetEditor.sceneHint': '{placeholder} in a shot description is replaced with the scene description from the form.',
+  'presetEditor.enabled': 'Enabled',
+  'presetEditor.shotName': 'Shot name',
+  'presetEditor.aspectRatio': 'Aspect ratio',
+  'presetEditor.aspectFromForm': 'Ratio from form',
+  'presetEditor.resolution': 'Resolution',
+  'presetEditor.deleteShot': 'Delete shot',
+  'presetEditor.shotPromptPlaceholder': 'Camera angle / pose description (English works best)',
+  'presetEditor.addShot': 'Add shot',
+
+  // Set pieces editor
+  'dimensions.width': 'W',
+  'dimensions.height': 'H',
+  'set.title': 'Set styling',
+  'set.addPiece': 'Add piece',
+  'set.emptyHint': 'Add more pieces to have the model wear the whole set in one image.',
+  'set.mainPieceHint': 'The form above is piece 1 ({category}).',
+  'set.piece': 'Piece {index}',
+  'set.removePiece': 'Remove piece',
+  'set.productImages': 'Product photos (required)',
+  'set.referenceImages': 'Worn photos (recommended)',
+  'set.referenceHint': 'Used to judge the piece\'s real size',
+
+  // Product library
+  'common.edit': 'Edit',
+  'product.noDimensions': 'No dimensions',
+  'product.field.name': 'Name',
+  'product.field.instructions': 'Precautions',
+  'product.field.materialNotes': 'Material notes, e.g. 18K yellow gold, pavé diamonds, brushed finish',
+  'product.overwriteConfirm': 'SKU {sku} already exists. Overwrite it with the current form?',
+  'product.deleteConfirm': 'Delete SKU {sku}? Generated batches are not affected.',
+  'product.title': 'Product library',
+  'product.count': '{count} SKUs',
+  'product.field.sku': 'SKU',
+  'product.field.nameOptional': 'Name (optional)',
+  'product.field.materialNotesOptional': 'Material notes (optional)',
+  'product.saveForm': 'Save current form',
+  'product.saveFormHint': 'Saves the form\'s product photos, worn photos, category, dimensions and precautions.',
+  'product.saveFormDisabled': 'Upload product photos in the form before saving a SKU.',
+  'product.searchPlaceholder': 'Search SKU, name or materials',
+  'product.filter.allCategories': 'All categories',
+  'product.empty': 'The product library is empty. Fill in the form and save it as a SKU above to load it in one click next time.',
+  'product.noMatches': 'No SKUs match.',
+  'product.loaded': 'Loaded',
+  'product.imageCounts': '{product} product photos · {reference} worn photos',
+  'product.materialNotes': 'Materials: {notes}',
+  'product.instructions': 'Precautions: {instructions}',
+  'product.showUsage': 'Show only this SKU\'s batches in the results',
+  'product.replaceImagesHint': 'Replace with the product and worn photos currently in the form',
+  'product.replaceImages': 'Update photos',
+  'product.load': 'Load into form',
+
+  // Selection tools
+  'selection.tool.rect': 'Rectangle',
+  'selection.tool.lasso': 'Lasso',
+  'selection.tool.polygon': 'Polygon',
+  'selection.tool.brush': 'Brush',
+  'selection.tool.eraser': 'Eraser',
+  'selection.undo': 'Undo last stroke',
+  'selection.brushSize': 'Brush size',
+  'selection.polygonHint': 'Click to add points; double-click or click the first point to close.',
+  'selection.instructionPlaceholder': 'Instructions for region {index} (optional)',
+  'selection.removeRegion': 'Remove region',
+  'selection.addRegion': 'New region',
+
+  // Scale calibrator
+  'scale.title': 'Scale calibration',
+  'scale.image': 'Calibration photo',
+  'scale.feature': 'Feature of known length',
+  'scale.length': 'Real length (mm)',
+  'scale.tolerance': 'Tolerance',
+  'scale.clickHint': 'Click the two ends of the feature on the photo.',
+  'scale.ratio': 'Scale: {ratio}',
+  'scale.invalidLength': 'Enter a valid length',
+  'scale.expectedSize': 'Product long side {mm}mm, about {px} px on this photo',
+  'scale.needDimensions': 'Enter the product dimensions to estimate its size.',
+
+  // Catalog panel
+  'catalog.readFailed': 'Could not read the manifest',
+  'catalog.title': 'Catalog batch',
+  'catalog.counts': '{done} done · {failed} failed · {pending} pending',
+  'catalog.invalidCount': '{count} invalid',
+  'catalog.pause': 'Pause',
+  'catalog.pausing': 'Pausing...',
+  'catalog.resume': 'Resume',
+  'catalog.start': 'Start',
+  'catalog.clear': 'Clear catalog',
+  'catalog.chooseManifest': 'Choose manifest (CSV / JSON)',
+  'catalog.folder': 'Image folder ({count} images)',
+  'catalog.chooseFolder': 'Choose image folder',
+  'catalog.pausingHint': 'Pauses after the current SKU finishes.',
+  'catalog.retry': 'Queue again',
+
+  // File upload
+  'upload.duplicatesSkipped': 'Skipped {count} duplicate images',
+  'upload.compare': 'Compare original and processed',
+  'upload.primary': 'Primary',
+  'upload.makePrimary': 'Make primary',
+  'upload.promptMultiple': 'Click, drop or paste to upload images',
+  'upload.prompt': 'Click, drop or paste to upload an image',
+  'upload.formats': 'JPG, PNG, WebP and more; orientation is corrected automatically',
+  'upload.reorderHint': 'Drag thumbnails to reorder',
+  'upload.reorderPrimaryHint': 'Drag thumbnails to reorder; the first one is the primary view',
+
+  // Result gallery
+  'inputs.noSnapshot': 'This record predates input snapshots; its inputs were not saved.',
+  'inputs.pieceReference': 'Piece {index} worn photos',
+  'inputs.model': 'Model',
+  'inputs.productImages': 'Product photos',
+  'inputs.referenceImages': 'Worn photos',
+  'inputs.category': 'Category',
+  'inputs.aspectRatio': 'Aspect ratio',
+  'inputs.dimensions': 'Dimensions',
+  'inputs.calibration': 'Scale',
+  'inputs.instructions': 'Precautions',
+  'inputs.shot': 'Shot',
+  'inputs.scene': 'Scene',
+  'inputs.template': 'Prompt template',
+  'scale.badge.expected': 'Expected {mm}mm',
+  'scale.badge.unmeasuredHint': '{expected}; the calibration feature or product could not be located in the image',
+  'scale.badge.unmeasured': 'Not measured',
+  'scale.badge.measuredHint': '{expected}, measured {mm}mm (tolerance ±{tolerance}%)',
+  'scale.badge.ok': 'Size OK',
+  'scale.badge.deviation': 'Size off by {percent}%',
+  'fidelity.defect.metal-color': 'Metal color',
+  'fidelity.defect.stone-count': 'Stone count',
+  'fidelity.defect.stone-shape': 'Stone shape',
+  'fidelity.defect.proportions': 'Proportions',
+  'fidelity.defect.extra-jewelry': 'Extra jewelry',
+  'fidelity.defect.missing-part': 'Missing part',
+  'fidelity.defect.deformed-hands': 'Deformed hands',
+  'fidelity.defect.other': 'Other',
+  'fidelity.noDefects': 'No obvious problems found',
+  'fidelity.attempts': 'Rendered {count} times automatically; kept the highest-scoring one',
+  'card.adjusting': 'AI is adjusting...',
+  'card.rendering': 'Rendering ({resolution})',
+  'card.dragHint': 'Drag to the left to use as a model or worn photo',
+  'card.deselect': 'Deselect',
+  'card.selectForExport': 'Select for export',
+  'card.viewLarge': 'View full size',
+  'card.download': 'Download image',
+  'card.download2k': 'Download 2K (original)',
+  'card.download4k': 'Download 4K (ultra HD)',
+  'card.previewingVersion': 'Previewing earlier version',
+  'card.selectionHint': 'Draw a box, lasso or brush over the area to change',
+  'card.failed': 'Generation failed',
+  'card.retry': 'Try again',
+  'card.fidelity': 'Product fidelity check',
+  'card.inputs': 'View generation inputs',
+  'card.versions': 'Version history',
+  'card.adjust': 'Adjust',
+  'card.verifying': 'AI is comparing and confirming...',
+  'card.editIntent': 'Edit',
+  'card.confirmAndGenerate': 'Confirm and generate',
+  'card.target': 'Edit target',
+  'card.targetWholeSet': 'Whole set',
+  'card.targetPiece': 'Only piece {index} · {category}',
+  'card.feedbackPlaceholder': 'Describe what to change...',
+  'card.selectRegions': 'Select areas to change',
+  'card.finishSelection': 'Done selecting',
+  'card.selectRegion': 'Select area',
+  'card.regionCount': '{count} areas selected',
+  'card.uploadReference': 'Upload reference images for comparison',
+  'card.verifyIntent': 'Confirm intent',
+  'compare.currentVersion': 'Current version',
+  'compare.group.versions': 'Versions of this image',
+  'compare.group.products': 'Original product photos',
+  'compare.productImage': 'Product photo {index}',
+  'compare.sameBatch': 'same batch',
+  'compare.currentImage': 'Current image',
+  'compare.open': 'Compare',
+  'gallery.exportSelected': 'Export selected ({count})',
+  'gallery.clearSelection': 'Clear selection',
+  'gallery.importZip': 'Import ZIP',
+  'gallery.clearHistory': 'Clear history',
+  'gallery.latest': 'Latest',
+  'gallery.history': 'History',
+  'gallery.filterSku': 'Show only this SKU\'s batches',
+  'gallery.model': 'Model {name}',
+  'gallery.exportBatch': 'Export this batch (ZIP)',
+  'gallery.deleteBatch': 'Delete this batch',
+
+  // App
+  'app.loading': 'Loading...',
+  'app.useMock': 'Use offline mock mode',
+  'app.provider': 'Generation service',
+  'app.language': 'Language',
+  'app.tab.try-on': 'Virtual try-on',
+  'app.tab.scene': 'Product scenes',
+  'scene.defaultPrompt': 'On a black marble surface with scattered rose petals, soft side lighting, a luxurious mood.',
+  'storage.loadFailed': 'Could not read the local history; results from this session will not be saved.',
+  'storage.quotaExceeded': 'Local storage is full and the latest results were not saved. Delete some history and try again.',
+  'storage.saveFailed': 'Saving history failed; the latest results may be lost when the page is refreshed.',
+  'dimensions.standard': 'standard jewelry size',
+  'generate.cancelled': 'Cancelled',
+  'generate.jobRegenerate': 'Regenerate',
+  'generate.error.noSnapshot': 'The original inputs are missing (this record predates input snapshots). Upload them again and generate.',
+  'generate.error.missingTryOnInputs': 'The original inputs are missing. Upload the worn photos and model photo again, then generate.',
+  'generate.error.catalogTryOnInputs': 'Missing worn photos or a model photo (a shared model photo can be uploaded in the form)',
+  'generate.error.noShots': 'The selected shot preset has no enabled shots',
+  'generate.error.allShotsFailed': 'Every shot failed to generate',
+  'generate.error.regenerateFailed': 'Regeneration failed: {message}',
+  'generate.error.upscaleFailed': 'High-res render failed: {message}',
+  'history.clearConfirm': 'Clear the entire generation history? This cannot be undone.',
+  'history.exportFailed': 'Export failed. Please try again.',
+  'history.imported': 'Imported {count} batches.',
+  'history.importedSkipped': 'Imported {count} batches; skipped {skipped} that already exist.',
+  'history.importFailedReason': 'Import failed: {message}',
+  'history.importFailed': 'Import failed; the file may be damaged.',
+  'history.filterSku': 'Filter results by SKU',
+  'history.allSkus': 'All SKUs',
+  'history.modelFilter': 'Showing only the {count} batches using model "{name}"',
+  'history.showAll': 'Show all',
+  'history.empty': 'No generations yet',
+  'history.emptyTryOn': 'Upload photos to generate try-on images ({shots})',
+  'history.emptyScene': 'Upload product photos and describe a scene to generate commercial images',
+  'model.defaultName': 'Model {index}',
+  'compare.originalImage': 'Image {index} · original',
+  'compare.processedImage': 'Image {index} · processed',
+  'form.modelImageShort': 'Model photo',
+  'form.referenceImageN': 'Worn photo {index}',
+  'form.pickFromModelLibrary': 'Pick from model library',
+  'form.saveToModelLibrary': 'Save to model library',
+  'form.rightsExpired': 'This model\'s image rights expired on {date}.',
+  'form.rightsExpiring': 'This model\'s image rights expire on {date}.',
+  'form.productInfo': 'Product',
+  'form.loadFromProductLibrary': 'Load from product library',
+  'form.materialNotes': 'Material notes: {notes}',
+  'form.category': 'Jewelry category',
+  'form.instructions': 'Precautions (notes for the AI)',
+  'form.instructionsPlaceholder': 'e.g. the piece is very small; small diamonds at the pendant bail; keep the metal shine...',
+  'form.productImages': 'Product photos on white (required)',
+  'form.referenceImages': 'Photos of the piece being worn (required)',
+  'form.referenceImagesHint': 'Several allowed; the AI compares against them closely',
+  'form.modelImage': 'Model photo (required)',
+  'form.modelImageHint': 'Must clearly show the {anchor}',
+  'form.checkingModel': 'Checking the model photo...',
+  'form.modelCheckWarning': 'The model photo may not clearly show the {anchor}, so the {category} may not sit accurately. {reason}',
+  'form.dimensions': 'Real dimensions (for reference)',
+  'form.calibrate': 'Calibrate scale',
+  'form.calibrationTitle': '{feature} {mm}mm, tolerance ±{tolerance}%',
+  'form.expectedSize': 'product about {px} px',
+  'form.clearCalibration': 'Clear calibration',
+  'form.calibrationHint': 'Mark a known length on the model or worn photo to check rendered sizes',
+  'form.sceneReferenceImages': 'Worn photos (optional)',
+  'form.sceneReferenceHint': 'For materials and size',
+  'form.sceneModelImage': 'Specific model (optional)',
+  'form.sceneModelHint': 'Without one, an AI model or still life is generated',
+  'form.scenePrompt': 'Scene description',
+  'form.scenePromptPlaceholder': 'Describe the background, lighting and mood you want...',
+  'form.uploadLimits': 'Upload limits',
+  'form.maxEdgeHint': 'Images with a longer long edge are scaled down automatically',
+  'form.maxEdge': 'px long edge',
+  'form.output': 'Output',
+  'form.editPresets': 'Edit shot presets',
+  'form.noEnabledShots': 'This preset has no enabled shots',
+  'form.fidelityCheck': 'Check product fidelity after generating',
+  'form.fidelityBelow': 'Below',
+  'form.fidelityRetry': 'points, re-render automatically, up to',
+  'form.fidelityTimes': 'times',
+  'form.preprocessing': 'Preprocessing product photos...',
+  'form.enqueue': 'Add to queue ({count} images)',
+  'form.generate': 'Generate ({count} images)',
+
+  // Usage dashboard
+  'usage.title': 'Usage & cost',
+  'usage.button': 'Usage · today {amount}',
+  'usage.exportCsv': 'Export CSV',
+  'usage.clear': 'Clear ledger',
+  'usage.clearConfirm': 'Clear all {count} recorded calls? This cannot be undone.',
+  'usage.today': 'Spent today',
+  'usage.thisMonth': 'Spent this month',
+  'usage.budget': 'Budget caps',
+  'usage.dailyCap': 'Daily cap ({currency})',
+  'usage.monthlyCap': 'Monthly cap ({currency})',
+  'usage.noCap': 'No cap',
+  'usage.action.warn': 'Warn when exceeded',
+  'usage.action.block': 'Block generation when exceeded',
+  'usage.breakdown': 'Breakdown',
+  'usage.groupBy.day': 'Day',
+  'usage.groupBy.month': 'Month',
+  'usage.groupBy.sku': 'SKU',
+  'usage.groupBy.batch': 'Batch',
+  'usage.groupBy.operation': 'Operation',
+  'usage.groupBy.model': 'Model',
+  'usage.deletedBatch': 'Deleted batch {id}',
+  'usage.empty': 'No calls recorded yet',
+  'usage.col.calls': 'Calls',
+  'usage.col.failures': 'Failed',
+  'usage.col.images': 'Images',
+  'usage.col.inputTokens': 'Input tokens',
+  'usage.col.outputTokens': 'Output tokens',
+  'usage.col.avgLatency': 'Avg latency',
+  'usage.col.cost': 'Cost',
+  'usage.col.time': 'Time',
+  'usage.col.attempts': 'Attempts',
+  'usage.col.latency': 'Latency',
+  'usage.col.tokens': 'Tokens (in / out)',
+  'usage.prices': 'Unit prices',
+  'usage.currency': 'Currency',
+  'usage.pricesHint': 'Token prices are per million; the per-image price is added for every successful image, on top of token costs. Changing a price re-costs the whole history.',
+  'usage.price.input': 'Input / 1M tokens',
+  'usage.price.output': 'Output / 1M tokens',
+  'usage.price.perImage': 'Per {resolution} image',
+  'usage.unpriced': 'Unpriced',
+  'usage.recent': 'Last {count} calls',
+  'usage.failed': 'failed',
+  'usage.operation.try-on': 'Try-on',
+  'usage.operation.set-try-on': 'Set try-on',
+  'usage.operation.scene': 'Scene',
+  'usage.operation.region-edit': 'Region edit',
+  'usage.operation.piece-edit': 'Piece edit',
+  'usage.operation.intent': 'Feedback intent',
+  'usage.operation.model-check': 'Model photo check',
+  'usage.operation.scale-check': 'Scale measurement',
+  'usage.operation.fidelity-check': 'Fidelity check',
+  'usage.budget.daily': '{spent} spent today plus an estimated {estimate} exceeds the daily cap of {cap}',
+  'usage.budget.monthly': '{spent} spent this month plus an estimated {estimate} exceeds the monthly cap of {cap}',
+  'usage.budget.blocked': 'Over budget, nothing was started: {details}. Caps can be changed under Usage & cost.',
+  'usage.budget.confirm': '{details}. Continue anyway?',
+
+  // Candidates
+  'candidates.title': 'Candidates ({count}) · click to use',
+  'candidates.label': 'Candidate {index}',
+  'candidates.pick': 'Use candidate {index}',
+  'candidates.chosen': 'Candidate {index} in use',
+  'card.renderingCandidates': 'Candidates {done}/{total}',
+  'compare.group.candidates': 'Candidates of this shot',
+  'version.seed': 'Seed {seed}',
+  'presetEditor.candidates': 'Candidates: renders per shot to pick from',
+  'presetEditor.candidateCount': '{count} candidates',
+  'presetEditor.singleCandidate': 'Single',
+
+  // Retry settings
+  'retry.title': 'Retry policy',
+  'retry.operation.image': 'Image renders',
+  'retry.operation.intent': 'Text checks (intent, QA, scale)',
+  'retry.attempts': 'Total attempts',
+  'retry.jitter': 'Jitter %',
+  'retry.baseDelay': 'First wait (s)',
+  'retry.maxDelay': 'Longest wait (s)',
+  'retry.honorRetryAfter': 'Wait at least as long as the server asks (Retry-After)',
+  'retry.reset': 'Restore defaults',
+
+  // High-res from edited versions
+  'generate.confirm.upscaleDropsEdits': 'The {resolution} render is made from the original inputs, so it reproduces the initial render: region edits, piece edits and feedback re-renders made since are not included, and it is filed under the initial version. Continue?',
+
+  // Compare diff errors
+  'compare.diffFailed': 'Could not compute the diff heatmap for these two images',
+
+  // Export manifest validation
+  'export.error.invalidField': 'manifest.json has a missing or invalid {field}',
+};
@@ -0,0 +1,621 @@
+// Source catalog: keys added here must also be translated in every other locale.
+// Placeholders use {name}; see i18n.t.
+
+export const zhCN = {
+  // Categories
+  'category.brooch': '胸针',
+  'category.brooch.anchor': '胸前/翻领',
+  'category.necklace': '项链',
+  'category.necklace.anchor': '颈部/锁骨',
+  'category.earring': '耳环/耳坠',
+  'category.earring.anchor': '耳垂',
+  'category.ring': '戒指',
+  'category.ring.anchor': '手指',
+  'category.bracelet': '手链',
+  'category.bracelet.anchor': '手腕',
+  'category.brooch.shot1': '细节特写',
+  'category.brooch.shot2': '半身正面',
+  'category.brooch.shot3': '近景侧面',
+  'category.brooch.shot4': '整理衣领',
+  'category.necklace.shot1': '细节特写',
+  'category.necklace.shot2': '近景正面',
+  'category.necklace.shot3': '近景侧面',
+  'category.necklace.shot4': '手部互动',
+  'category.earring.shot1': '耳部特写',
+  'category.earring.shot2': '侧脸轮廓',
+  'category.earring.shot3': '正面对称',
+  'category.earring.shot4': '撩发互动',
+  'category.ring.shot1': '手部特写',
+  'category.ring.shot2': '手背平视',
+  'category.ring.shot3': '侧面角度',
+  'category.ring.shot4': '手托下巴',
+  'category.bracelet.shot1': '腕部特写',
+  'category.bracelet.shot2': '手腕平放',
+  'category.bracelet.shot3': '抬手姿态',
+  'category.bracelet.shot4': '手部互动',
+
+  // Shot presets
+  'preset.builtin.tryOn': '按类别推荐',
+  'preset.builtin.scene': '标准场景 (3 张)',
+  'preset.builtin.sceneShot': '场景展示 {index}',
+  'preset.newShot': '新镜头',
+  'preset.copyName': '{name} 副本',
+  'preset.importedName': '导入的预设',
+  'preset.error.unrecognized': '无法识别的预设文件',
+  'preset.error.json': 'JSON 格式错误',
+  'preset.error.mode': '预设缺少有效的模式 (try-on / scene)',
+
+  // Generation errors
+  'error.rate-limit': '请求过于频繁，已自动重试仍失败。请稍等一分钟，或在队列中调低并发数。',
+  'error.quota': 'API 配额已用尽。请在 Google AI Studio 检查额度/账单，或更换 API Key。',
+  'error.region-blocked': '所在地区暂不支持该服务。请检查网络/VPN 出口地区后重试。',
+  'error.safety-block': '内容被安全策略拦截。请调整注意事项或修改意见中的措辞，避免敏感描述后重试。',
+  'error.timeout': '生成超时。4K 请求耗时较长，请稍后重试或先生成 2K。',
+  'error.bad-input': '输入无效。请检查上传图片的格式与大小，或简化提示内容后重试。',
+  'error.no-image': 'AI 未返回图片。请补充更明确的修改意见后重绘。',
+  'error.server-busy': '服务器繁忙，请稍后重试。',
+  'error.network': '网络连接中断。请检查网络后重试。',
+  'error.unknown': '生成失败，请重试。',
+
+  // Uploads
+  'upload.error.unreadable': '无法读取该图片',
+  'upload.error.convert': '图片转换失败',
+  'upload.error.tooLarge': '文件超过 {mb}MB 上限',
+  'upload.error.heic': '这张 HEIC 照片无法转换，请先导出为 JPG 再上传',
+  'upload.error.format': '无法识别的图片格式',
+  'upload.error.readFailed': '读取失败',
+  'upload.error.fileItem': '{name}：{message}',
+
+  // Catalog import
+  'catalog.error.category': 'SKU {sku}: 无法识别的类别 "{value}"',
+  'catalog.error.missingSku': '第 {row} 行缺少 SKU',
+  'catalog.error.noProductImages': 'SKU {sku}: 缺少产品图',
+  'catalog.error.json': 'JSON 格式错误，无法解析清单',
+  'catalog.error.jsonShape': 'JSON 清单应为数组，或包含 items 数组的对象',
+  'catalog.error.empty': '清单为空',
+  'catalog.error.duplicateSku': 'SKU {sku} 重复出现',
+  'catalog.error.missingImages': '找不到图片：{files}',
+
+  // Batch export
+  'export.error.noManifest': '压缩包中缺少 manifest.json',
+  'export.error.manifestJson': 'manifest.json 格式错误',
+  'export.error.notLuxeFit': '不是 LuxeFit 导出的压缩包',
+  'export.error.newerVersion': '导出文件来自更新版本的应用，请升级后再导入',
+  'export.error.missingImage': '压缩包中缺少图片：{path}',
+
+  // ZIP
+  'zip.error.unrecognized': '无法识别的 ZIP 文件',
+  'zip.error.method': '不支持的压缩方式 ({method})：{name}',
+
+  // Queue
+  'queue.error.cancelled': '任务已取消',
+
+  // Storage
+  'storage.error.quota': '本地存储空间不足',
+  'storage.interrupted': '生成被中断 (页面已刷新)，请重绘。',
+
+  // Product library
+  'product.materialNotesLine': '材质说明：{notes}',
+
+  // Prompt templates
+  'template.problem.unknownVariable': '未知变量 {{{name}}}',
+  'template.problem.unopened': '区块 {{/{name}}} 没有对应的开始标记',
+  'template.problem.unclosed': '区块 {{#{name}}} 没有结束标记',
+
+  // Prompt templates
+  'template.try-on': '模特佩戴',
+  'template.set-try-on': '套装佩戴',
+  'template.scene': '场景展示',
+  'template.region-edit': '局部修改',
+  'template.piece-edit': '套装单品修改',
+  'template.intent': '修改意图确认',
+  'template.var.feedback': '修改意见',
+  'template.var.hasFeedbackReferences': '是否附带新的参考图',
+  'template.var.primaryViewRule': '多张白底图时的主图规则',
+  'template.var.category': '珠宝类别',
+  'template.var.productCount': '白底图数量',
+  'template.var.referenceCount': '实拍参考图数量',
+  'template.var.dimensionsText': '尺寸描述',
+  'template.var.instructions': '注意事项',
+  'template.var.placementAnchor': '佩戴部位',
+  'template.var.placementRules': '佩戴规则，每行一条',
+  'template.var.scaleHint': '比例尺标定说明',
+  'template.var.viewpoint': '镜头/姿势要求',
+  'template.var.pieceCount': '单品数量',
+  'template.var.pieceList': '各单品的图片数量与尺寸，每行一条',
+  'template.var.placement': '佩戴规则',
+  'template.var.lead': '主单品 (单品 1)',
+  'template.var.scenePrompt': '场景描述',
+  'template.var.hasReferences': '是否有实拍参考图',
+  'template.var.hasModel': '是否有指定模特图',
+  'template.var.feedbackReferenceCount': '新参考图数量',
+  'template.var.targetPiece': '套装中要修改的单品',
+  'template.var.regions': '框选区域说明',
+  'template.var.target': '要修改的单品',
+  'template.var.others': '其余单品',
+  'template.var.originalPrompt': '原始镜头要求',
+  'template.var.regionCount': '框选区域数量',
+  'template.var.hasCurrentImage': '是否附带当前图片',
+  'template.var.language': '回复语言 (随界面语言)',
+  'template.var.confirmPrefix': '确认语开头',
+  'template.var.example': '示例回复',
+
+  // Model library
+  'model.framing.close-up': '面部/颈部特写',
+  'model.framing.half-body': '半身',
+  'model.framing.full-body': '全身',
+  'model.framing.hands': '手部',
+  'model.rights.none': '未设置授权期',
+  'model.rights.valid': '授权有效',
+  'model.rights.expiring': '授权即将到期',
+  'model.rights.expired': '授权已到期',
+
+  // Scale calibration
+  'scale.feature.pupils': '瞳距',
+  'scale.feature.ringFinger': '无名指宽度',
+  'scale.feature.eye': '眼睛宽度',
+  'scale.feature.ruler': '尺子 / 已知长度',
+
+  // Intent confirmation
+  'intent.prefix': '确认您的需求：',
+  'intent.empty': '确认您的修改需求',
+  'intent.example': '确认您的需求：您在左上角框选了吊坠扣头，我将根据参考图调整其镶嵌方式为包镶。',
+
+  // Mock provider
+  'mock.fidelitySummary': '[模拟] 产品还原度检查完成',
+  'mock.fidelityDefect': '[模拟] 主石周围碎钻数量偏少',
+  'mock.modelCheck': '[模拟] 已检测到佩戴部位',
+  'mock.intent': '[模拟] {feedback}',
+  'mock.intentDefault': '按您的描述调整画面',
+
+  // Version history
+  'version.kind.initial': '初始生成',
+  'version.kind.regenerate': '重绘',
+  'version.kind.region-edit': '局部修改',
+  'version.kind.piece-edit': '单品修改',
+  'version.kind.upscale': '高清',
+  'version.restore': '恢复为当前版本',
+  'version.branch': '从此版本继续修改',
+
+  // Queue panel
+  'common.cancel': '取消',
+  'queue.title': '生成队列',
+  'queue.counts': '{running} 运行中 · {queued} 等待中',
+  'queue.concurrency': '并发数',
+  'queue.cancelBatch': '取消整批',
+  'queue.priority': '优先任务',
+  'queue.clearFinished': '清除已完成',
+
+  // Compare view
+  'compare.mode.slider': '滑块',
+  'compare.mode.side-by-side': '并排',
+  'compare.mode.diff': '差异热图',
+  'compare.zoomHint': '滚轮缩放，拖动平移',
+  'compare.heatmapOpacity': '热图强度',
+  'compare.changedPixels': '变化像素 {percent}%',
+
+  // Preprocess settings
+  'preprocess.title': '白底图预处理',
+  'preprocess.settings': '预处理设置',
+  'preprocess.background': '背景',
+  'preprocess.background.white': '纯白',
+  'preprocess.background.transparent': '透明',
+  'preprocess.background.keep': '保持原样',
+  'preprocess.tolerance': '背景容差',
+  'preprocess.autoCrop': '自动裁剪',
+  'preprocess.padding': '留白',
+  'preprocess.longEdge': '长边',
+  'preprocess.originalSize': '原尺寸',
+
+  // Prompt template editor
+  'common.listSeparator': '；',
+  'templateEditor.title': '提示词模板',
+  'templateEditor.discardConfirm': '放弃未保存的修改？',
+  'templateEditor.builtIn': '内置',
+  'templateEditor.active': '当前使用',
+  'templateEditor.activate': '设为当前',
+  'templateEditor.recordHint': '生成的图片会记录所用模板版本，如 {version}',
+  'templateEditor.syntaxHint': '{{变量}} 插入变量；{{#变量}}…{{/变量}} 仅在变量有值时保留；{{^变量}}…{{/变量}} 仅在无值时保留。',
+  'templateEditor.notePlaceholder': '版本说明 (可选)',
+  'templateEditor.save': '保存为新版本',
+  'templateEditor.preview': '预览 (示例变量)',
+  'templateEditor.variables': '变量',
+  'templateEditor.samplePlaceholder': '留空 = 未设置',
+
+  // Model library
+  'common.save': '保存',
+  'common.delete': '删除',
+  'model.field.name': '名称',
+  'model.field.skinTone': '肤色',
+  'model.field.hair': '发型/发色',
+  'model.field.pose': '姿势',
+  'model.field.rightsExpiry': '授权截止',
+  'model.field.tags': '标签，用逗号分隔',
+  'model.duplicates': '{count} 张已在模特库中',
+  'model.deleteConfirmUsed': '删除模特「{name}」？已有 {count} 个批次使用该模特，记录中仍会保留其名称。',
+  'model.deleteConfirm': '删除模特「{name}」？',
+  'model.title': '模特库',
+  'model.count': '{count} 位',
+  'model.add': '添加模特图',
+  'model.searchPlaceholder': '搜索名称、肤色、发型、姿势或标签',
+  'model.filter.allFramings': '全部取景',
+  'model.filter.allRights': '全部授权状态',
+  'model.filter.allTags': '全部标签',
+  'model.empty': '模特库为空。添加常用的授权模特照片，之后可直接选用。',
+  'model.noMatches': '没有符合条件的模特。',
+  'model.inUse': '当前使用',
+  'model.edit': '编辑属性',
+  'model.showUsage': '在结果中只显示使用该模特的批次',
+  'model.usage': '{count} 个批次',
+  'model.use': '使用',
+
+  // Preset editor
+  'mode.try-on': '模特佩戴',
+  'mode.scene': '场景展示',
+  'common.moveUp': '上移',
+  'common.moveDown': '下移',
+  'presetEditor.title': '镜头预设',
+  'presetEditor.deleteConfirm': '删除预设「{name}」？',
+  'presetEditor.wrongMode': '该预设用于{mode}模式，请切换到对应标签后导入。',
+  'presetEditor.importFailed': '导入失败',
+  'presetEditor.newPresetName': '新预设',
+  'presetEditor.newPreset': '新建预设',
+  'presetEditor.importJson': '导入 JSON',
+  'presetEditor.duplicate': '复制为新预设',
+  'presetEditor.exportJson': '导出 JSON',
+  'presetEditor.delete': '删除预设',
+  'presetEditor.readOnlyHint': '内置预设不可修改，复制后即可编辑。',
+  'presetEditor.followsCategoryHint': '镜头随珠宝类别自动切换，当前显示「{category}」的推荐镜头。',
+  'presetEditor.sceneHint': '镜头描述中的 {placeholder} 会替换为表单中的场景描述。',
+  'presetEditor.enabled': '启用',
+  'presetEditor.shotName': '镜头名称',
+  'presetEditor.aspectRatio': '画面比例',
+  'presetEditor.aspectFromForm': '比例跟随表单',
+  'presetEditor.resolution': '分辨率',
+  'presetEditor.deleteShot': '删除镜头',
+  'presetEditor.shotPromptPlaceholder': '机位/姿势描述 (英文效果更佳)',
+  'presetEditor.addShot': '添加镜头',
+
+  // Set pieces editor
+  'dimensions.width': '宽',
+  'dimensions.height': '高',
+  'set.title': '套装搭配',
+  'set.addPiece': '添加单品',
+  'set.emptyHint': '添加更多单品，可让模特在同一张图中同时佩戴整套首饰。',
+  'set.mainPieceHint': '上方表单为单品 1 ({category})。',
+  'set.piece': '单品 {index}',
+  'set.removePiece': '移除单品',
+  'set.productImages': '白底图 (必填)',
+  'set.referenceImages': '佩戴实拍图 (建议)',
+  'set.referenceHint': '用于判断该单品的真实大小',
+
+  // Product library
+  'common.edit': '编辑',
+  'product.noDimensions': '未填尺寸',
+  'product.field.name': '名称',
+  'product.field.instructions': '注意事项',
+  'product.field.materialNotes': '材质说明，如 18K 黄金、密镶钻石、拉丝表面',
+  'product.overwriteConfirm': 'SKU {sku} 已存在，用当前表单覆盖？',
+  'product.deleteConfirm': '删除 SKU {sku}？已生成的批次不受影响。',
+  'product.title': '产品库',
+  'product.count': '{count} 个 SKU',
+  'product.field.sku': 'SKU 编号',
+  'product.field.nameOptional': '名称 (可选)',
+  'product.field.materialNotesOptional': '材质说明 (可选)',
+  'product.saveForm': '保存当前表单',
+  'product.saveFormHint': '保存表单中的白底图、实拍图、类别、尺寸与注意事项。',
+  'product.saveFormDisabled': '先在表单中上传白底图，再保存为 SKU。',
+  'product.searchPlaceholder': '搜索 SKU、名称或材质',
+  'product.filter.allCategories': '全部类别',
+  'product.empty': '产品库为空。填好表单后在上方保存为 SKU，下次可一键载入。',
+  'product.noMatches': '没有符合条件的 SKU。',
+  'product.loaded': '已载入',
+  'product.imageCounts': '白底图 {product} 张 · 实拍图 {reference} 张',
+  'product.materialNotes': '材质：{notes}',
+  'product.instructions': '注意事项：{instructions}',
+  'product.showUsage': '在结果中只显示该 SKU 的批次',
+  'product.replaceImagesHint': '用表单中当前的白底图和实拍图替换',
+  'product.replaceImages': '更新图片',
+  'product.load': '载入表单',
+
+  // Selection tools
+  'selection.tool.rect': '矩形',
+  'selection.tool.lasso': '套索',
+  'selection.tool.polygon': '多边形',
+  'selection.tool.brush': '画笔',
+  'selection.tool.eraser': '橡皮',
+  'selection.undo': '撤销上一笔',
+  'selection.brushSize': '笔刷大小',
+  'selection.polygonHint': '单击添加顶点，双击或点回起点闭合。',
+  'selection.instructionPlaceholder': '区域 {index} 的修改说明 (可选)',
+  'selection.removeRegion': '删除区域',
+  'selection.addRegion': '新建区域',
+
+  // Scale calibrator
+  'scale.title': '比例尺标定',
+  'scale.image': '标定图片',
+  'scale.feature': '已知长度的特征',
+  'scale.length': '实际长度 (mm)',
+  'scale.tolerance': '允许偏差',
+  'scale.clickHint': '在图片上依次点击特征的两个端点。',
+  'scale.ratio': '比例：{ratio}',
+  'scale.invalidLength': '请填写有效长度',
+  'scale.expectedSize': '产品长边 {mm}mm，在此图上应约 {px} px',
+  'scale.needDimensions': '填写产品尺寸后可计算预计大小。',
+
+  // Catalog panel
+  'catalog.readFailed': '无法读取清单',
+  'catalog.title': '批量目录',
+  'catalog.counts': '{done} 完成 · {failed} 失败 · {pending} 待处理',
+  'catalog.invalidCount': '{count} 无效',
+  'catalog.pause': '暂停',
+  'catalog.pausing': '正在暂停...',
+  'catalog.resume': '继续',
+  'catalog.start': '开始',
+  'catalog.clear': '清除目录',
+  'catalog.chooseManifest': '选择清单 (CSV / JSON)',
+  'catalog.folder': '图片文件夹 ({count} 张)',
+  'catalog.chooseFolder': '选择图片文件夹',
+  'catalog.pausingHint': '当前 SKU 完成后暂停。',
+  'catalog.retry': '重新排队',
+
+  // File upload
+  'upload.duplicatesSkipped': '已跳过 {count} 张重复图片',
+  'upload.compare': '对比原图与处理后',
+  'upload.primary': '主图',
+  'upload.makePrimary': '设为主图',
+  'upload.promptMultiple': '点击、拖拽或粘贴上传多张图片',
+  'upload.prompt': '点击、拖拽或粘贴上传图片',
+  'upload.formats': '支持 JPG, PNG, WebP 等格式，自动校正方向',
+  'upload.reorderHint': '拖动缩略图调整顺序',
+  'upload.reorderPrimaryHint': '拖动缩略图调整顺序，第一张为主图',
+
+  // Result gallery
+  'inputs.noSnapshot': '该记录创建较早，未保存输入快照。',
+  'inputs.pieceReference': '单品 {index} 实拍参考',
+  'inputs.model': '模特',
+  'inputs.productImages': '产品图',
+  'inputs.referenceImages': '实拍参考',
+  'inputs.category': '类别',
+  'inputs.aspectRatio': '比例',
+  'inputs.dimensions': '尺寸',
+  'inputs.calibration': '比例尺',
+  'inputs.instructions': '注意事项',
+  'inputs.shot': '镜头',
+  'inputs.scene': '场景',
+  'inputs.template': '提示词模板',
+  'scale.badge.expected': '预计 {mm}mm',
+  'scale.badge.unmeasuredHint': '{expected}，未能在画面中定位标定特征或产品',
+  'scale.badge.unmeasured': '无法测量',
+  'scale.badge.measuredHint': '{expected}，实测 {mm}mm (允许偏差 ±{tolerance}%)',
+  'scale.badge.ok': '尺寸正常',
+  'scale.badge.deviation': '尺寸偏差 {percent}%',
+  'fidelity.defect.metal-color': '金属颜色',
+  'fidelity.defect.stone-count': '宝石数量',
+  'fidelity.defect.stone-shape': '宝石形状',
+  'fidelity.defect.proportions': '比例',
+  'fidelity.defect.extra-jewelry': '多余饰品',
+  'fidelity.defect.missing-part': '缺失部件',
+  'fidelity.defect.deformed-hands': '手部变形',
+  'fidelity.defect.other': '其他',
+  'fidelity.noDefects': '未发现明显问题',
+  'fidelity.attempts': '已自动生成 {count} 次，保留得分最高的一张',
+  'card.adjusting': 'AI 正在调整...',
+  'card.rendering': '渲染中 ({resolution})',
+  'card.dragHint': '可拖到左侧作为模特图或实拍图',
+  'card.deselect': '取消选择',
+  'card.selectForExport': '选择以导出',
+  'card.viewLarge': '查看大图',
+  'card.download': '下载图片',
+  'card.download2k': '下载 2K (原图)',
+  'card.download4k': '下载 4K (超清)',
+  'card.previewingVersion': '预览历史版本',
+  'card.selectionHint': '请框选、圈选或涂抹需要修改的区域',
+  'card.failed': '生成失败',
+  'card.retry': '尝试重绘',
+  'card.fidelity': '产品还原度质检',
+  'card.inputs': '查看生成输入',
+  'card.versions': '版本历史',
+  'card.adjust': '调整',
+  'card.verifying': 'AI 正在比对并确认...',
+  'card.editIntent': '修改',
+  'card.confirmAndGenerate': '确认并生成',
+  'card.target': '修改对象',
+  'card.targetWholeSet': '修改整套',
+  'card.targetPiece': '仅修改单品 {index} · {category}',
+  'card.feedbackPlaceholder': '请输入修改意见...',
+  'card.selectRegions': '选择修改区域',
+  'card.finishSelection': '完成选区',
+  'card.selectRegion': '选择区域',
+  'card.regionCount': '已选 {count} 个区域',
+  'card.uploadReference': '上传参考图供对比',
+  'card.verifyIntent': '确认意图',
+  'compare.currentVersion': '当前版本',
+  'compare.group.versions': '此图的版本',
+  'compare.group.products': '原始产品图',
+  'compare.productImage': '产品图 {index}',
+  'compare.sameBatch': '同批次',
+  'compare.currentImage': '当前图片',
+  'compare.open': '对比',
+  'gallery.exportSelected': '导出所选 ({count})',
+  'gallery.clearSelection': '取消选择',
+  'gallery.importZip': '导入 ZIP',
+  'gallery.clearHistory': '清空历史',
+  'gallery.latest': '最新生成',
+  'gallery.history': '历史记录',
+  'gallery.filterSku': '只显示该 SKU 的批次',
+  'gallery.model': '模特 {name}',
+  'gallery.exportBatch': '导出此批次 (ZIP)',
+  'gallery.deleteBatch': '删除此批次',
+
+  // App
+  'app.loading': '加载中...',
+  'app.useMock': '使用离线模拟模式',
+  'app.provider': '生成服务',
+  'app.language': '界面语言',
+  'app.tab.try-on': '模特虚拟佩戴',
+  'app.tab.scene': '产品场景展示',
+  'scene.defaultPrompt': '放置在黑色大理石纹理的台面上，周围有散落的玫瑰花瓣，柔和的侧光，高级感。',
+  'storage.loadFailed': '无法读取本地历史记录，本次生成结果将不会被保存。',
+  'storage.quotaExceeded': '本地存储空间不足，最新结果未能保存。请删除部分历史记录后重试。',
+  'storage.saveFailed': '保存历史记录失败，刷新页面后最新结果可能丢失。',
+  'dimensions.standard': '标准珠宝尺寸',
+  'generate.cancelled': '已取消',
+  'generate.jobRegenerate': '重绘',
+  'generate.error.noSnapshot': '缺少原图信息 (该记录创建于输入快照功能之前)，请重新上传并生成。',
+  'generate.error.missingTryOnInputs': '缺少原图信息，请重新上传实拍图和模特图后生成。',
+  'generate.error.catalogTryOnInputs': '缺少实拍图或模特图 (可在表单中上传统一的模特图)',
+  'generate.error.noShots': '所选镜头预设没有启用的镜头',
+  'generate.error.allShotsFailed': '所有镜头均生成失败',
+  'generate.error.regenerateFailed': '重绘失败：{message}',
+  'generate.error.upscaleFailed': '高清生成失败：{message}',
+  'history.clearConfirm': '确定要清空全部生成记录吗？此操作无法撤销。',
+  'history.exportFailed': '导出失败，请重试。',
+  'history.imported': '已导入 {count} 个批次。',
+  'history.importedSkipped': '已导入 {count} 个批次，跳过 {skipped} 个已存在的批次。',
+  'history.importFailedReason': '导入失败：{message}',
+  'history.importFailed': '导入失败，文件可能已损坏。',
+  'history.filterSku': '按 SKU 筛选结果',
+  'history.allSkus': '全部 SKU',
+  'history.modelFilter': '仅显示使用模特「{name}」的 {count} 个批次',
+  'history.showAll': '显示全部',
+  'history.empty': '暂无生成记录',
+  'history.emptyTryOn': '上传图片以生成模特佩戴效果 ({shots})',
+  'history.emptyScene': '上传产品图并描述场景以生成商业展示图',
+  'model.defaultName': '模特 {index}',
+  'compare.originalImage': '图 {index} · 原图',
+  'compare.processedImage': '图 {index} · 处理后',
+  'form.modelImageShort': '模特图',
+  'form.referenceImageN': '实拍图 {index}',
+  'form.pickFromModelLibrary': '从模特库选择',
+  'form.saveToModelLibrary': '存入模特库',
+  'form.rightsExpired': '该模特肖像授权已于 {date} 到期。',
+  'form.rightsExpiring': '该模特肖像授权将于 {date} 到期。',
+  'form.productInfo': '产品信息',
+  'form.loadFromProductLibrary': '从产品库载入',
+  'form.materialNotes': '材质说明：{notes}',
+  'form.category': '珠宝类别',
+  'form.instructions': '注意事项 (给 AI 的提示)',
+  'form.instructionsPlaceholder': '例如：产品实际尺寸很小；吊坠连接处有碎钻；保持金属光泽...',
+  'form.productImages': '珠宝白底图 (必填)',
+  'form.referenceImages': '真人佩戴实拍图 (必填)',
+  'form.referenceImagesHint': '支持多张，AI 将严格对比',
+  'form.modelImage': '目标模特图 (必填)',
+  'form.modelImageHint': '需清晰显示{anchor}',
+  'form.checkingModel': '正在检查模特图...',
+  'form.modelCheckWarning': '模特图可能未清晰显示{anchor}，{category}佩戴效果可能不准确。{reason}',
+  'form.dimensions': '实际尺寸 (辅助参考)',
+  'form.calibrate': '标定比例尺',
+  'form.calibrationTitle': '{feature} {mm}mm，允许偏差 ±{tolerance}%',
+  'form.expectedSize': '产品约 {px} px',
+  'form.clearCalibration': '清除标定',
+  'form.calibrationHint': '在模特图或实拍图上标记已知长度，用于校验生成尺寸',
+  'form.sceneReferenceImages': '实拍参考 (可选)',
+  'form.sceneReferenceHint': '参考材质/大小',
+  'form.sceneModelImage': '特定模特 (可选)',
+  'form.sceneModelHint': '如果不传则生成AI模特或静物',
+  'form.scenePrompt': '场景描述',
+  'form.scenePromptPlaceholder': '描述你想要的背景、光线、氛围...',
+  'form.uploadLimits': '上传限制',
+  'form.maxEdgeHint': '超过该长边的图片会自动缩小',
+  'form.maxEdge': 'px 长边',
+  'form.output': '输出规格',
+  'form.editPresets': '编辑镜头预设',
+  'form.noEnabledShots': '该预设没有启用的镜头',
+  'form.fidelityCheck': '生成后自动质检产品还原度',
+  'form.fidelityBelow': '低于',
+  'form.fidelityRetry': '分自动重绘，最多生成',
+  'form.fidelityTimes': '次',
+  'form.preprocessing': '正在预处理产品图...',
+  'form.enqueue': '加入生成队列 ({count}张)',
+  'form.generate': '开始生成 ({count}张)',
+
+  // Usage dashboard
+  'usage.title': '用量与成本',
+  'usage.button': '用量 · 今日 {amount}',
+  'usage.exportCsv': '导出 CSV',
+  'usage.clear': '清空记录',
+  'usage.clearConfirm': '清空全部 {count} 条调用记录？此操作不可撤销。',
+  'usage.today': '今日花费',
+  'usage.thisMonth': '本月花费',
+  'usage.budget': '预算上限',
+  'usage.dailyCap': '每日上限（{currency}）',
+  'usage.monthlyCap': '每月上限（{currency}）',
+  'usage.noCap': '不限',
+  'usage.action.warn': '超出时提醒',
+  'usage.action.block': '超出时禁止生成',
+  'usage.breakdown': '明细',
+  'usage.groupBy.day': '日期',
+  'usage.groupBy.month': '月份',
+  'usage.groupBy.sku': 'SKU',
+  'usage.groupBy.batch': '批次',
+  'usage.groupBy.operation': '调用类型',
+  'usage.groupBy.model': '模型',
+  'usage.deletedBatch': '已删除批次 {id}',
+  'usage.empty': '暂无调用记录',
+  'usage.col.calls': '调用',
+  'usage.col.failures': '失败',
+  'usage.col.images': '出图',
+  'usage.col.inputTokens': '输入 Token',
+  'usage.col.outputTokens': '输出 Token',
+  'usage.col.avgLatency': '平均耗时',
+  'usage.col.cost': '费用',
+  'usage.col.time': '时间',
+  'usage.col.attempts': '尝试次数',
+  'usage.col.latency': '耗时',
+  'usage.col.tokens': 'Token（入 / 出）',
+  'usage.prices': '单价',
+  'usage.currency': '币种',
+  'usage.pricesHint': 'Token 单价按每百万计；单张图片价格在每次成功出图时计入，另加 Token 费用。修改单价会重新计算全部历史费用。',
+  'usage.price.input': '输入 / 百万 Token',
+  'usage.price.output': '输出 / 百万 Token',
+  'usage.price.perImage': '每张 {resolution}',
+  'usage.unpriced': '未定价',
+  'usage.recent': '最近 {count} 次调用',
+  'usage.failed': '失败',
+  'usage.operation.try-on': '试戴',
+  'usage.operation.set-try-on': '套装试戴',
+  'usage.operation.scene': '场景图',
+  'usage.operation.region-edit': '局部重绘',
+  'usage.operation.piece-edit': '单件修改',
+  'usage.operation.intent': '意见理解',
+  'usage.operation.model-check': '模特照检查',
+  'usage.operation.scale-check': '尺寸测量',
+  'usage.operation.fidelity-check': '还原度检查',
+  'usage.budget.daily': '今日已花 {spent}，本次预计 {estimate}，超出每日上限 {cap}',
+  'usage.budget.monthly': '本月已花 {spent}，本次预计 {estimate}，超出每月上限 {cap}',
+  'usage.budget.blocked': '已超出预算，未开始生成：{details}。可在“用量与成本”中调整上限。',
+  'usage.budget.confirm': '{details}。仍要继续吗？',
+
+  // Candidates
+  'candidates.title': '候选图（{count} 张）· 点击选用',
+  'candidates.label': '候选 {index}',
+  'candidates.pick': '选用候选 {index}',
+  'candidates.chosen': '已选用候选 {index}',
+  'card.renderingCandidates': '候选图 {done}/{total}',
+  'compare.group.candidates': '此镜头的候选图',
+  'version.seed': '种子 {seed}',
+  'presetEditor.candidates': '候选数：每个镜头生成几张供挑选',
+  'presetEditor.candidateCount': '{count} 张候选',
+  'presetEditor.singleCandidate': '单张',
+
+  // Retry settings
+  'retry.title': '失败重试策略',
+  'retry.operation.image': '出图',
+  'retry.operation.intent': '文字检查（意图、质检、比例）',
+  'retry.attempts': '总尝试次数',
+  'retry.jitter': '随机抖动 %',
+  'retry.baseDelay': '首次等待（秒）',
+  'retry.maxDelay': '最长等待（秒）',
+  'retry.honorRetryAfter': '至少等待服务端要求的时间（Retry-After）',
+  'retry.reset': '恢复默认',
+
+  // High-res from edited versions
+  'generate.confirm.upscaleDropsEdits': '{resolution} 图会按原始输入从最初的渲染重新生成，之后的局部修改、部件修改和反馈重绘都不会包含在内，并记在最初那一版下面。继续？',
+
+  // Compare diff errors
+  'compare.diffFailed': '无法计算这两张图的差异热力图',
+
+  // Export manifest validation
+  'export.error.invalidField': 'manifest.json 中的 {field} 缺失或格式不对',
+};
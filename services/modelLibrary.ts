@@ -0,0 +1,76 @@
+import { GenerationBatch, LibraryModel, ModelFraming, ModelProfile, UploadedFile } from "../types";
+import type { MessageKey } from "./i18n";
+
+// Reusable model photos with the attributes used to find them again, and the usage-rights
+// expiry that decides when the images featuring a model have to be taken down.
+
+export const MODEL_FRAMINGS: Record<ModelFraming, MessageKey> = {
+  'close-up': 'model.framing.close-up',
+  'half-body': 'model.framing.half-body',
+  'full-body': 'model.framing.full-body',
+  'hands': 'model.framing.hands',
+};
+
+// Rights ending within this many days are flagged
+const EXPIRING_DAYS = 30;
+
+export type RightsStatus = 'none' | 'valid' | 'expiring' | 'expired';
+
+export const RIGHTS_LABELS: Record<RightsStatus, MessageKey> = {
+  none: 'model.rights.none',
+  valid: 'model.rights.valid',
+  expiring: 'model.rights.expiring',
+  expired: 'model.rights.expired',
+};
+
+export const createModelProfile = (image: UploadedFile, name: string): ModelProfile => ({
+  id: `model-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  skinTone: '',
+  hair: '',
+  pose: '',
+  framing: 'half-body',
+  tags: [],
+  imageHash: image.hash,
+  createdAt: Date.now(),
+});
+
+// The expiry date is inclusive: rights ending today are still valid today
+export const getRightsStatus = (profile: ModelProfile, now = Date.now()): RightsStatus => {
+  if (!profile.rightsExpiry) return 'none';
+  const end = new Date(`${profile.rightsExpiry}T23:59:59`).getTime();
+  if (Number.isNaN(end)) return 'none';
+  if (end < now) return 'expired';
+  return end - now <= EXPIRING_DAYS * 24 * 60 * 60 * 1000 ? 'expiring' : 'valid';
+};
+
+export interface ModelFilter {
+  query: string; // Matches name, attributes and tags
+  framing: ModelFraming | 'all';
+  rights: RightsStatus | 'all';
+  tag: string; // '' for any
+}
+
+export const EMPTY_MODEL_FILTER: ModelFilter = { query: '', framing: 'all', rights: 'all', tag: '' };
+
+export const filterModels = (models: LibraryModel[], filter: ModelFilter): LibraryModel[] => {
+  const query = filter.query.trim().toLowerCase();
+  return models.filter(({ profile }) => {
+    if (filter.framing !== 'all' && profile.framing !== filter.framing) return false;
+    if (filter.rights !== 'all' && getRightsStatus(profile) !== filter.rights) return false;
+    if (filter.tag && !profile.tags.includes(filter.tag)) return false;
+    if (!query) return true;
+    return [profile.name, profile.skinTone, profile.hair, profile.pose, ...profile.tags]
+      .some(text => text.toLowerCase().includes(query));
+  });
+};
+
+export const getModelTags = (models: LibraryModel[]) =>
+  Array.from(new Set(models.flatMap(m => m.profile.tags))).sort();
+
+// "a, b，c" -> ['a', 'b', 'c']
+export const parseTags = (text: string) =>
+  Array.from(new Set(text.split(/[,，]/).map(t => t.trim()).filter(Boolean)));
+
+export const getBatchesUsingModel = (history: GenerationBatch[], modelId: string) =>
+  history.filter(batch => batch.inputs?.modelId === modelId);
@@ -0,0 +1,45 @@
+import { Dimensions, GenerationBatch, JewelryCategory, LibraryProduct, ProductProfile, UploadedFile } from "../types";
+import { t } from "./i18n";
+
+// Saved SKUs: product and reference photos plus the text inputs that go with them, so a
+// product is set up once and loaded into the form with one click.
+
+export const createProductProfile = (
+  sku: string,
+  name: string,
+  form: { category: JewelryCategory; dimensions: Dimensions; instructions: string },
+  materialNotes: string
+): ProductProfile => ({
+  sku,
+  name,
+  category: form.category,
+  dimensions: { ...form.dimensions },
+  instructions: form.instructions,
+  materialNotes,
+  updatedAt: Date.now(),
+});
+
+// The library entry whose product photos are exactly the form's, in any order
+export const matchLibraryProduct = (products: LibraryProduct[], productImages: UploadedFile[]) => {
+  if (productImages.length === 0) return undefined;
+  const hashes = new Set(productImages.map(f => f.hash));
+  return products.find(p => p.productImages.length === hashes.size && p.productImages.every(f => hashes.has(f.hash)));
+};
+
+export const filterProducts = (products: LibraryProduct[], query: string, category: JewelryCategory | 'all') => {
+  const q = query.trim().toLowerCase();
+  return products.filter(({ profile }) =>
+    (category === 'all' || profile.category === category)
+    && (!q || [profile.sku, profile.name, profile.materialNotes].some(text => text.toLowerCase().includes(q)))
+  );
+};
+
+// Instructions sent with a loaded SKU: the form's precautions plus the SKU's material notes
+export const withMaterialNotes = (instructions: string, product?: LibraryProduct) => {
+  const notes = product?.profile.materialNotes.trim();
+  return notes ? [instructions.trim(), t('product.materialNotesLine', { notes })].filter(Boolean).join('\n') : instructions;
+};
+
+// Every SKU that appears in history, for the gallery filter
+export const getHistorySkus = (history: GenerationBatch[]) =>
+  Array.from(new Set(history.flatMap(b => b.sku ? [b.sku] : []))).sort();
@@ -0,0 +1,276 @@
+// Built-in prompt templates (version 1 of each). Syntax: {{name}} inserts a variable,
+// {{#name}}...{{/name}} keeps its content only when the variable is set, {{^name}}...{{/name}}
+// only when it is not. Edited copies are saved as new versions, these stay untouched.
+
+import type { MessageKey } from "./i18n";
+
+export type PromptTemplateId = 'try-on' | 'set-try-on' | 'scene' | 'region-edit' | 'piece-edit' | 'intent';
+
+export interface TemplateVariable {
+  name: string;
+  description: MessageKey;
+  sample: string; // Used by the editor preview; '' previews the variable as unset
+}
+
+export interface PromptTemplateDefinition {
+  id: PromptTemplateId;
+  label: MessageKey;
+  variables: TemplateVariable[];
+  body: string;
+}
+
+const FEEDBACK_VARIABLES: TemplateVariable[] = [
+  { name: 'feedback', description: 'template.var.feedback', sample: '吊坠再小一点' },
+  { name: 'hasFeedbackReferences', description: 'template.var.hasFeedbackReferences', sample: '' },
+];
+
+const PRIMARY_VIEW_VARIABLE: TemplateVariable = {
+  name: 'primaryViewRule',
+  description: 'template.var.primaryViewRule',
+  sample: "Product views are numbered in the user's order. VIEW 1 is the PRIMARY, canonical view: where views disagree (angle, colour, details), follow VIEW 1.",
+};
+
+const TRY_ON: PromptTemplateDefinition = {
+  id: 'try-on',
+  label: 'template.try-on',
+  variables: [
+    { name: 'category', description: 'template.var.category', sample: 'necklace' },
+    { name: 'productCount', description: 'template.var.productCount', sample: '2' },
+    { name: 'referenceCount', description: 'template.var.referenceCount', sample: '1' },
+    { name: 'dimensionsText', description: 'template.var.dimensionsText', sample: '18mm x 25mm' },
+    { name: 'instructions', description: 'template.var.instructions', sample: '吊坠连接处有碎钻' },
+    { name: 'placementAnchor', description: 'template.var.placementAnchor', sample: "the neck and upper chest (décolletage)" },
+    { name: 'placementRules', description: 'template.var.placementRules', sample: '- The chain follows the curve of the neck.' },
+    { name: 'scaleHint', description: 'template.var.scaleHint', sample: '' },
+    { name: 'viewpoint', description: 'template.var.viewpoint', sample: 'Front view, upper body' },
+    PRIMARY_VIEW_VARIABLE,
+    ...FEEDBACK_VARIABLES,
+  ],
+  body: `You are a professional high-end jewelry photographer and retoucher.
+Category: {{category}}.
+Task: Create a photorealistic image of the MODEL wearing the JEWELRY PRODUCT.
+
+Inputs provided:
+1. {{productCount}} Image(s) of the JEWELRY PRODUCT (White background). Analyze 3D structure/clasp.
+2. {{referenceCount}} Real Life Reference Image(s): **CRITICAL FOR SCALING**. Use these images to determine the EXACT physical size of the jewelry. Do NOT make the jewelry appear larger or smaller than it looks in these reference photos relative to a human.
+3. Image of the TARGET MODEL.
+
+Context/Precautions:
+Dimensions: {{dimensionsText}}.
+{{#instructions}}**USER PRECAUTIONS**: {{instructions}}{{/instructions}}
+{{#placementRules}}
+**PLACEMENT** (worn on {{placementAnchor}}):
+{{placementRules}}
+{{/placementRules}}
+
+Instructions:
+- Synthesize the jewelry onto the target model naturally.
+- Match lighting/skin tone.
+- **SCALE CHECK**: Ensure the jewelry size is realistic based on the 'Real Life Reference'.
+{{#scaleHint}}- **SCALE CALIBRATION**: {{scaleHint}}{{/scaleHint}}
+- Viewpoint/Pose Requirement: {{viewpoint}}.
+- Quality: High resolution, photorealistic, sharp focus.
+{{#primaryViewRule}}- {{primaryViewRule}}{{/primaryViewRule}}
+{{#feedback}}
+
+**CORRECTION REQUEST**:
+The user requires changes to a previous version.
+Strictly adhere to: "{{feedback}}".
+{{#hasFeedbackReferences}}Refer to the NEWLY provided reference images for the specific look/size required.{{/hasFeedbackReferences}}
+{{/feedback}}`,
+};
+
+const SET_TRY_ON: PromptTemplateDefinition = {
+  id: 'set-try-on',
+  label: 'template.set-try-on',
+  variables: [
+    { name: 'pieceCount', description: 'template.var.pieceCount', sample: '2' },
+    { name: 'pieceList', description: 'template.var.pieceList', sample: '- PIECE 1 (necklace): 1 product image(s) (white background), 1 real-life reference image(s). Dimensions: 18mm x 25mm.\n- PIECE 2 (earring): 1 product image(s) (white background), 0 real-life reference image(s). Dimensions: standard jewelry size.' },
+    { name: 'instructions', description: 'template.var.instructions', sample: '' },
+    { name: 'placement', description: 'template.var.placement', sample: 'PIECE 1 (necklace) is worn on the neck:\n- The chain follows the curve of the neck.' },
+    { name: 'lead', description: 'template.var.lead', sample: 'PIECE 1 (necklace)' },
+    { name: 'scaleHint', description: 'template.var.scaleHint', sample: '' },
+    { name: 'viewpoint', description: 'template.var.viewpoint', sample: 'Front view, upper body' },
+    PRIMARY_VIEW_VARIABLE,
+    ...FEEDBACK_VARIABLES,
+  ],
+  body: `You are a professional high-end jewelry photographer and retoucher.
+Task: Create a photorealistic image of the MODEL wearing a JEWELRY SET of {{pieceCount}} pieces at the same time.
+
+Inputs provided (each image group follows its label):
+{{pieceList}}
+- Image of the TARGET MODEL.
+
+{{#instructions}}**USER PRECAUTIONS**: {{instructions}}{{/instructions}}
+
+**PLACEMENT**:
+{{placement}}
+
+Instructions:
+- Every piece is worn at its own position. Never merge, swap or restyle pieces.
+- **SCALE CHECK**: Size each piece from its own reference images and dimensions, and keep the pieces in proportion to each other.
+{{#scaleHint}}- **SCALE CALIBRATION** ({{lead}}): {{scaleHint}}{{/scaleHint}}
+- Match lighting/skin tone.
+{{#primaryViewRule}}- {{primaryViewRule}}{{/primaryViewRule}}
+- Viewpoint/Pose Requirement: {{viewpoint}}. If the framing cannot show every piece, keep {{lead}} in frame and show the others only where they naturally fall.
+- Quality: High resolution, photorealistic, sharp focus.
+{{#feedback}}
+
+**CORRECTION REQUEST**:
+The user requires changes to a previous version.
+Strictly adhere to: "{{feedback}}".
+{{#hasFeedbackReferences}}Refer to the NEWLY provided reference images for the specific look/size required.{{/hasFeedbackReferences}}
+{{/feedback}}`,
+};
+
+const SCENE: PromptTemplateDefinition = {
+  id: 'scene',
+  label: 'template.scene',
+  variables: [
+    { name: 'category', description: 'template.var.category', sample: 'ring' },
+    { name: 'scenePrompt', description: 'template.var.scenePrompt', sample: '放置在黑色大理石纹理的台面上' },
+    { name: 'hasReferences', description: 'template.var.hasReferences', sample: 'yes' },
+    { name: 'hasModel', description: 'template.var.hasModel', sample: '' },
+    { name: 'instructions', description: 'template.var.instructions', sample: '' },
+    PRIMARY_VIEW_VARIABLE,
+    { name: 'feedback', description: 'template.var.feedback', sample: '' },
+  ],
+  body: `You are a luxury product photographer.
+Category: {{category}}.
+Task: Create a creative commercial scene for the JEWELRY PRODUCT.
+
+Scene Description: {{scenePrompt}}
+
+Inputs:
+1. Product Image(s).
+{{#hasReferences}}2. Real Reference (for scale/material context).{{/hasReferences}}
+{{#hasModel}}3. Specific Model (to be placed in scene).{{/hasModel}}
+
+{{#instructions}}**USER PRECAUTIONS**: {{instructions}}{{/instructions}}
+
+Instructions:
+- If a model is requested in the prompt but no model image provided, generate a suitable AI model.
+- If no model is requested, focus on a still-life product shot in the described environment.
+- Lighting: Commercial high-end luxury lighting.
+{{#primaryViewRule}}- {{primaryViewRule}}{{/primaryViewRule}}
+{{#feedback}}
+**CORRECTION REQUEST**: {{feedback}}
+{{/feedback}}`,
+};
+
+const REGION_EDIT: PromptTemplateDefinition = {
+  id: 'region-edit',
+  label: 'template.region-edit',
+  variables: [
+    { name: 'category', description: 'template.var.category', sample: 'necklace' },
+    { name: 'productCount', description: 'template.var.productCount', sample: '1' },
+    { name: 'feedbackReferenceCount', description: 'template.var.feedbackReferenceCount', sample: '' },
+    { name: 'instructions', description: 'template.var.instructions', sample: '' },
+    { name: 'feedback', description: 'template.var.feedback', sample: '扣头改为包镶' },
+    { name: 'targetPiece', description: 'template.var.targetPiece', sample: '' },
+    { name: 'regions', description: 'template.var.regions', sample: 'Region 1 (rectangle), bounding box in percentages:\nTop: 40%, Left: 45%, Width: 10%, Height: 8%\nNo region-specific instruction; apply the general feedback.' },
+    PRIMARY_VIEW_VARIABLE,
+  ],
+  body: `You are a professional high-end jewelry retoucher.
+Category: {{category}}.
+Task: Edit ONLY the masked area of the CURRENT IMAGE.
+
+Inputs provided:
+1. The CURRENT IMAGE to edit.
+2. A black/white MASK of the same size. White = area to modify, black = must stay pixel-identical.
+3. {{productCount}} Image(s) of the JEWELRY PRODUCT (White background) as ground truth for shape, metal and stones.
+{{#feedbackReferenceCount}}4. {{feedbackReferenceCount}} NEW reference image(s) showing the required look/size.{{/feedbackReferenceCount}}
+
+{{#instructions}}**USER PRECAUTIONS**: {{instructions}}{{/instructions}}
+
+{{#feedback}}**CORRECTION REQUEST**: "{{feedback}}"{{/feedback}}
+{{#targetPiece}}**TARGET PIECE**: The image shows a jewelry set. Only {{targetPiece}} may change; the product images show that piece.{{/targetPiece}}
+
+**MASKED REGIONS**:
+{{regions}}
+
+Instructions:
+- Keep composition, framing, lighting and everything outside the mask unchanged.
+- Blend the edit seamlessly into the surrounding pixels.
+- Return the full image at the same framing.
+{{#primaryViewRule}}- {{primaryViewRule}}{{/primaryViewRule}}`,
+};
+
+const PIECE_EDIT: PromptTemplateDefinition = {
+  id: 'piece-edit',
+  label: 'template.piece-edit',
+  variables: [
+    { name: 'pieceCount', description: 'template.var.pieceCount', sample: '2' },
+    { name: 'target', description: 'template.var.target', sample: 'PIECE 2 (earring)' },
+    { name: 'dimensionsText', description: 'template.var.dimensionsText', sample: '8mm x 12mm' },
+    { name: 'feedbackReferenceCount', description: 'template.var.feedbackReferenceCount', sample: '' },
+    { name: 'instructions', description: 'template.var.instructions', sample: '' },
+    { name: 'feedback', description: 'template.var.feedback', sample: '耳坠再长一些' },
+    { name: 'placement', description: 'template.var.placement', sample: 'PIECE 2 (earring) is worn on the earlobes:\n- Hangs straight down from the lobe.' },
+    { name: 'others', description: 'template.var.others', sample: 'PIECE 1 (necklace)' },
+    PRIMARY_VIEW_VARIABLE,
+  ],
+  body: `You are a professional high-end jewelry retoucher.
+Task: Edit ONLY {{target}} in the CURRENT IMAGE, which shows the model wearing a {{pieceCount}}-piece jewelry set.
+
+Inputs provided (each image group follows its label):
+1. The CURRENT IMAGE to edit.
+2. Product and real-life reference image(s) of {{target}} as ground truth for shape, metal, stones and scale. Dimensions: {{dimensionsText}}.
+{{#feedbackReferenceCount}}3. {{feedbackReferenceCount}} NEW reference image(s) showing the required look/size.{{/feedbackReferenceCount}}
+
+{{#instructions}}**USER PRECAUTIONS**: {{instructions}}{{/instructions}}
+
+**CORRECTION REQUEST** for {{target}}: "{{feedback}}"
+
+**PLACEMENT**:
+{{placement}}
+
+Instructions:
+- {{others}} and everything else in the image must stay unchanged.
+{{#primaryViewRule}}- {{primaryViewRule}}{{/primaryViewRule}}
+- Keep composition, framing, lighting and the model's pose unchanged.
+- Return the full image at the same framing.`,
+};
+
+const INTENT: PromptTemplateDefinition = {
+  id: 'intent',
+  label: 'template.intent',
+  variables: [
+    { name: 'originalPrompt', description: 'template.var.originalPrompt', sample: 'Front view, upper body' },
+    { name: 'feedback', description: 'template.var.feedback', sample: '扣头改为包镶' },
+    { name: 'regionCount', description: 'template.var.regionCount', sample: '1' },
+    { name: 'regions', description: 'template.var.regions', sample: 'Region 1 (rectangle), bounding box in percentages:\nTop: 40%, Left: 45%, Width: 10%, Height: 8%\nNo region-specific instruction; apply the general feedback.' },
+    { name: 'targetPiece', description: 'template.var.targetPiece', sample: '' },
+    { name: 'hasCurrentImage', description: 'template.var.hasCurrentImage', sample: 'yes' },
+    { name: 'hasFeedbackReferences', description: 'template.var.hasFeedbackReferences', sample: '' },
+    { name: 'language', description: 'template.var.language', sample: 'Simplified Chinese' },
+    { name: 'confirmPrefix', description: 'template.var.confirmPrefix', sample: '确认您的需求：' },
+    { name: 'example', description: 'template.var.example', sample: '确认您的需求：您在左上角框选了吊坠扣头，我将根据参考图调整其镶嵌方式为包镶。' },
+  ],
+  body: `Role: Professional Jewelry QA Specialist.
+Task: Analyze the User's Feedback and confirm the modification direction.
+
+Context:
+- The user is modifying a previously generated jewelry image.
+- Original Requirement: {{originalPrompt}}
+- User Feedback: "{{feedback}}"
+{{#regions}}
+- **Target Regions Specified**: The user has marked {{regionCount}} area(s) on the image (boxes, freeform outlines or painted strokes), each possibly with its own instruction.
+{{regions}}
+Interpreting these regions is crucial.
+{{/regions}}
+{{#targetPiece}}- **Target Piece**: The image shows a multi-piece jewelry set. The feedback applies ONLY to {{targetPiece}}; every other piece stays unchanged.{{/targetPiece}}
+{{#hasCurrentImage}}- Attached is the 'Current Generated Image'.{{/hasCurrentImage}}
+{{#hasFeedbackReferences}}- Attached are 'New Reference Images' provided by the user. Compare these with the 'Current Generated Image' to understand the specific visual discrepancies (e.g. size, texture, setting style) mentioned in the feedback.{{/hasFeedbackReferences}}
+
+Instruction:
+1. Analyze the problem based on feedback, optional regions, and reference images.
+2. Formulate a polite confirmation sentence in {{language}}.
+3. Format: "{{confirmPrefix}}[Analysis of the problem] -> [Proposed Fix]"
+{{#regions}}- Explicitly mention that you will only modify the selected area(s), and summarize the change for each region.{{/regions}}
+{{#targetPiece}}- Name the piece being modified ({{targetPiece}}) and state that the other pieces of the set stay as they are.{{/targetPiece}}
+
+Example: "{{example}}"`,
+};
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplateDefinition[] = [TRY_ON, SET_TRY_ON, SCENE, REGION_EDIT, PIECE_EDIT, INTENT];
@@ -0,0 +1,131 @@
+import { DEFAULT_PROMPT_TEMPLATES, PromptTemplateDefinition, PromptTemplateId } from "./promptTemplateDefaults";
+import { t } from "./i18n";
+
+export * from "./promptTemplateDefaults";
+
+// --- Versioned Prompt Templates ---
+// Version 1 of every template is built in. Edits are saved as new versions (never in place),
+// so the version id recorded on a render always names the exact text that produced it.
+
+const STORAGE_KEY = 'luxefit.promptTemplates';
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  note: string; // What changed, shown in the editor
+  createdAt: number; // 0 for the built-in version
+}
+
+interface TemplateStore {
+  versions: Partial<Record<PromptTemplateId, PromptTemplateVersion[]>>; // Saved versions, 2 and up
+  active: Partial<Record<PromptTemplateId, number>>; // Missing = version 1
+}
+
+export type TemplateValues = Record<string, string | number | boolean | undefined>;
+
+// e.g. "try-on@v3"
+export const formatTemplateVersion = (id: PromptTemplateId, version: number) => `${id}@v${version}`;
+
+export const getTemplateDefinition = (id: PromptTemplateId): PromptTemplateDefinition =>
+  DEFAULT_PROMPT_TEMPLATES.find(t => t.id === id)!;
+
+const readStore = (): TemplateStore => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored && typeof stored === 'object') return { versions: stored.versions ?? {}, active: stored.active ?? {} };
+  } catch {
+    // Unavailable or corrupt storage; fall back to the built-in templates
+  }
+  return { versions: {}, active: {} };
+};
+
+let store = readStore();
+
+const persist = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch {
+    // Versions still apply for this session
+  }
+};
+
+export const listTemplateVersions = (id: PromptTemplateId): PromptTemplateVersion[] => [
+  { version: 1, body: getTemplateDefinition(id).body, note: '', createdAt: 0 },
+  ...(store.versions[id] ?? []),
+];
+
+export const getActiveTemplateVersion = (id: PromptTemplateId): PromptTemplateVersion => {
+  const versions = listTemplateVersions(id);
+  return versions.find(v => v.version === store.active[id]) ?? versions[0];
+};
+
+export const setActiveTemplateVersion = (id: PromptTemplateId, version: number) => {
+  if (!listTemplateVersions(id).some(v => v.version === version)) throw new Error(`Unknown template version: ${formatTemplateVersion(id, version)}`);
+  store = { ...store, active: { ...store.active, [id]: version } };
+  persist();
+};
+
+// Saves the body as the next version and makes it active
+export const saveTemplateVersion = (id: PromptTemplateId, body: string, note: string): PromptTemplateVersion => {
+  const versions = listTemplateVersions(id);
+  const version: PromptTemplateVersion = { version: versions[versions.length - 1].version + 1, body, note, createdAt: Date.now() };
+  store = {
+    versions: { ...store.versions, [id]: [...(store.versions[id] ?? []), version] },
+    active: { ...store.active, [id]: version.version },
+  };
+  persist();
+  return version;
+};
+
+// --- Rendering ---
+
+const isSet = (value: TemplateValues[string]) => value !== undefined && value !== false && value !== '' && value !== 0;
+
+// Marks a section that rendered to nothing, so the line it sat on can be dropped
+const EMPTY = '\u0000';
+const SECTION = /\{\{([#^])(\w+)\}\}((?:(?!\{\{[#^]\w+\}\})[\s\S])*?)\{\{\/\2\}\}/;
+
+export const renderTemplate = (body: string, values: TemplateValues): string => {
+  // Section tags alone on a line take the line with them
+  let text = body.replace(/^[ \t]*(\{\{[#^/]\w+\}\})[ \t]*\r?\n/gm, '$1');
+  // Innermost sections first, so nesting resolves from the inside out
+  for (let match = text.match(SECTION); match; match = text.match(SECTION)) {
+    const [whole, kind, name, content] = match;
+    const keep = (kind === '#') === isSet(values[name]);
+    text = text.replace(whole, () => keep ? content : EMPTY);
+  }
+  text = text.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    const value = values[name];
+    return value === undefined || value === false ? '' : String(value);
+  });
+  return text
+    .split('\n')
+    .filter(line => !(line.includes(EMPTY) && !line.replaceAll(EMPTY, '').trim()))
+    .join('\n')
+    .replaceAll(EMPTY, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// Renders the active version of a template and reports which version it was
+export const renderPrompt = (id: PromptTemplateId, values: TemplateValues) => {
+  const active = getActiveTemplateVersion(id);
+  return { text: renderTemplate(active.body, values), templateVersion: formatTemplateVersion(id, active.version) };
+};
+
+// Problems that would make a template render wrongly: unknown variables and unbalanced sections
+export const validateTemplate = (body: string, definition: PromptTemplateDefinition): string[] => {
+  const known = new Set(definition.variables.map(v => v.name));
+  const problems: string[] = [];
+  const open: string[] = [];
+  for (const [, kind, name] of body.matchAll(/\{\{([#^/]?)(\w*)\}\}/g)) {
+    if (!known.has(name)) problems.push(t('template.problem.unknownVariable', { name }));
+    if (kind === '#' || kind === '^') open.push(name);
+    else if (kind === '/') {
+      if (open[open.length - 1] === name) open.pop();
+      else problems.push(t('template.problem.unopened', { name }));
+    }
+  }
+  open.forEach(name => problems.push(t('template.problem.unclosed', { name })));
+  return Array.from(new Set(problems));
+};
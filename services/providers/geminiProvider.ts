@@ -0,0 +1,154 @@
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { ImageProvider, ProviderPart, ImageGenerateRequest, TokenUsage } from "./types";
+import {
+  GenerationError, RateLimitError, QuotaExhaustedError, RegionBlockedError, SafetyBlockError,
+  RequestTimeoutError, BadInputError, NoImageReturnedError, ServerBusyError, NetworkError, isAbortError
+} from "../errors";
+import { parseDataUrl } from "../imageFiles";
+
+const TEXT_MODEL = 'gemini-3-flash-preview';
+const IMAGE_MODEL = 'gemini-3-pro-image-preview';
+
+// Created per call so a key selected mid-session is picked up
+const createClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+// Parses google.rpc.RetryInfo ("retryDelay": "30s") or a Retry-After value out of the error body
+const parseRetryAfterMs = (message: string): number | undefined => {
+  const retryDelay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (retryDelay) return Math.round(parseFloat(retryDelay[1]) * 1000);
+  const retryAfter = message.match(/Retry-After:?\s*(\d+)/i);
+  if (retryAfter) return parseInt(retryAfter[1], 10) * 1000;
+  return undefined;
+};
+
+const readStatus = (value: unknown): number | undefined =>
+  value && typeof value === 'object' && 'status' in value && typeof value.status === 'number' ? value.status : undefined;
+
+// HTTP status from the SDK error, or from the response it wraps
+const getErrorStatus = (error: unknown): number | undefined =>
+  readStatus(error) ?? (error && typeof error === 'object' && 'response' in error ? readStatus(error.response) : undefined);
+
+// Maps any failure from the SDK onto the shared error taxonomy
+const mapGeminiError = (error: unknown): unknown => {
+  if (error instanceof GenerationError || isAbortError(error)) return error;
+
+  const status = getErrorStatus(error);
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (message.includes('User location is not supported')) return new RegionBlockedError(message, error);
+  if (status === 429 || message.includes('RESOURCE_EXHAUSTED')) {
+    // Daily/billing quota will not recover by waiting a few seconds
+    if (/quota/i.test(message) && /per ?day|billing|exceeded your current quota/i.test(message)) {
+      return new QuotaExhaustedError(message, error);
+    }
+    return new RateLimitError(message, parseRetryAfterMs(message), error);
+  }
+  if (status === 504 || message.includes('DEADLINE_EXCEEDED') || message.includes('Deadline expired')) {
+    return new RequestTimeoutError(message, error);
+  }
+  if (status === 500 || status === 503 || message.includes('Overloaded') || message.includes('UNAVAILABLE') || message.includes('Internal Server Error')) {
+    return new ServerBusyError(message, parseRetryAfterMs(message), error);
+  }
+  if (status === 400 || message.includes('INVALID_ARGUMENT')) return new BadInputError(message, error);
+  if (
+    message.includes('network') ||
+    message.includes('fetch') ||
+    message.includes('Unexpected end of JSON input') ||
+    message.includes("Failed to construct 'Response'") ||
+    message.includes('Response body object should not be disturbed') ||
+    message.includes('ReadableStreamDefaultController')
+  ) {
+    return new NetworkError(message, error);
+  }
+  return new GenerationError('unknown', message, { cause: error });
+};
+
+// Reported even when the response is then rejected (no image, safety block), since those are billed too
+const reportUsage = (response: GenerateContentResponse, onUsage?: (usage: TokenUsage) => void) => {
+  const usage = response.usageMetadata;
+  if (!usage || !onUsage) return;
+  onUsage({
+    inputTokens: usage.promptTokenCount ?? 0,
+    outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+  });
+};
+
+const extractImage = (response: GenerateContentResponse): string => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) {
+      return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+    }
+  }
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+    throw new SafetyBlockError(`Blocked by safety filters: ${blockReason || finishReason}`, blockReason || finishReason);
+  }
+  throw new NoImageReturnedError();
+};
+
+const runImageModel = async (parts: ProviderPart[], request: ImageGenerateRequest): Promise<string> => {
+  let response: GenerateContentResponse;
+  try {
+    response = await createClient().models.generateContent({
+      model: IMAGE_MODEL,
+      contents: { parts },
+      config: {
+        abortSignal: request.signal,
+        seed: request.seed,
+        imageConfig: {
+          aspectRatio: request.aspectRatio,
+          imageSize: request.resolution // '2K' or '4K'
+        }
+      }
+    });
+  } catch (error) {
+    throw mapGeminiError(error);
+  }
+  reportUsage(response, request.onUsage);
+  return extractImage(response);
+};
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  requiresApiKey: true,
+  supportsSeed: true,
+  capabilities: ['text-intent', 'image-generate', 'image-edit'],
+  models: {
+    'text-intent': TEXT_MODEL,
+    'image-generate': IMAGE_MODEL,
+    'image-edit': IMAGE_MODEL,
+  },
+
+  async generateText(request) {
+    try {
+      const response = await createClient().models.generateContent({
+        model: TEXT_MODEL,
+        contents: { parts: request.parts },
+        config: { abortSignal: request.signal },
+      });
+      reportUsage(response, request.onUsage);
+      return response.text?.trim() || '';
+    } catch (error) {
+      throw mapGeminiError(error);
+    }
+  },
+
+  generateImage(request) {
+    return runImageModel(request.parts, request);
+  },
+
+  // Gemini has no dedicated inpainting endpoint: the image (and mask) go in as leading parts
+  editImage(request) {
+    const parts: ProviderPart[] = [
+      { inlineData: parseDataUrl(request.baseImage) },
+    ];
+    if (request.mask) {
+      parts.push({ inlineData: parseDataUrl(request.mask) });
+    }
+    return runImageModel([...parts, ...request.parts], request);
+  },
+};
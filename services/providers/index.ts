@@ -0,0 +1,58 @@
+import { ImageProvider, ProviderCapability } from "./types";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+
+export * from "./types";
+
+// --- Registry ---
+// Active provider resolution order: explicit selection (persisted in localStorage),
+// then the IMAGE_PROVIDER env var, then Gemini.
+
+const STORAGE_KEY = 'luxefit.provider';
+const DEFAULT_PROVIDER_ID = 'gemini';
+
+const providers = new Map<string, ImageProvider>();
+
+export const registerProvider = (provider: ImageProvider) => {
+  providers.set(provider.id, provider);
+};
+
+registerProvider(geminiProvider);
+registerProvider(mockProvider);
+
+export const listProviders = (): ImageProvider[] => Array.from(providers.values());
+
+const readConfiguredId = (): string => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored && providers.has(stored)) return stored;
+  } catch {
+    // localStorage unavailable (private mode etc.)
+  }
+  const fromEnv = process.env.IMAGE_PROVIDER;
+  if (fromEnv && providers.has(fromEnv)) return fromEnv;
+  return DEFAULT_PROVIDER_ID;
+};
+
+let activeProviderId = readConfiguredId();
+
+export const getActiveProvider = (): ImageProvider => providers.get(activeProviderId)!;
+
+export const setActiveProvider = (id: string) => {
+  if (!providers.has(id)) throw new Error(`Unknown image provider: ${id}`);
+  activeProviderId = id;
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch {
+    // Selection still applies for this session
+  }
+};
+
+// Resolves the provider for a capability, failing loudly instead of silently falling back
+export const getProviderFor = (capability: ProviderCapability): ImageProvider => {
+  const provider = getActiveProvider();
+  if (!provider.capabilities.includes(capability)) {
+    throw new Error(`Provider "${provider.label}" does not support ${capability}`);
+  }
+  return provider;
+};
@@ -0,0 +1,167 @@
+import { AspectRatio } from "../../types";
+import { ImageProvider, ProviderPart, TokenUsage } from "./types";
+import { loadImage, buildAlphaMask } from "../imageMask";
+import { t } from "../i18n";
+
+// Offline provider for development and tests. Output is a pure function of the request:
+// the same parts always produce the same image, with no network and no API key.
+
+const MOCK_LATENCY_MS = 800;
+const MOCK_LONG_EDGE = 1024; // Synthetic images are kept small regardless of 2K/4K
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// FNV-1a, good enough to derive stable colours from prompt text
+const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const hashParts = (parts: ProviderPart[]): number =>
+  hashString(parts.map(p => 'text' in p ? p.text : `${p.inlineData.mimeType}:${p.inlineData.data.length}:${p.inlineData.data.slice(-64)}`).join('|'));
+
+const promptText = (parts: ProviderPart[]) =>
+  parts.filter((p): p is { text: string } => 'text' in p).map(p => p.text).join('\n');
+
+// Rough token counts (4 characters per text token, a flat rate per image) so the usage
+// dashboard has numbers to show offline
+const MOCK_TOKENS_PER_IMAGE = 258;
+const mockUsage = (parts: ProviderPart[], outputTokens: number): TokenUsage => ({
+  inputTokens: Math.ceil(promptText(parts).length / 4) + parts.filter(p => 'inlineData' in p).length * MOCK_TOKENS_PER_IMAGE,
+  outputTokens,
+});
+
+const canvasSize = (aspectRatio: AspectRatio) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w >= h
+    ? { width: MOCK_LONG_EDGE, height: Math.round(MOCK_LONG_EDGE * h / w) }
+    : { width: Math.round(MOCK_LONG_EDGE * w / h), height: MOCK_LONG_EDGE };
+};
+
+const drawContained = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, x: number, y: number, w: number, h: number) => {
+  const scale = Math.min(w / img.width, h / img.height);
+  const dw = img.width * scale;
+  const dh = img.height * scale;
+  ctx.drawImage(img, x + (w - dw) / 2, y + (h - dh) / 2, dw, dh);
+};
+
+const renderSynthetic = async (parts: ProviderPart[], aspectRatio: AspectRatio, label: string, seed = 0): Promise<string> => {
+  const { width, height } = canvasSize(aspectRatio);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  const hash = (hashParts(parts) ^ Math.imul(seed, 0x9e3779b1)) >>> 0; // Seeds vary the colours like a real sampler would
+  const hue = hash % 360;
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 35%, 22%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 40) % 360}, 45%, 8%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // Show the first input image (usually the product) so flows are recognisable
+  const firstImage = parts.find((p): p is { inlineData: { mimeType: string; data: string } } => 'inlineData' in p);
+  if (firstImage) {
+    try {
+      const img = await loadImage(`data:${firstImage.inlineData.mimeType};base64,${firstImage.inlineData.data}`);
+      drawContained(ctx, img, width * 0.2, height * 0.2, width * 0.6, height * 0.5);
+    } catch {
+      // Undecodable input: background alone is still a valid result
+    }
+  }
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(0, height - 120, width, 120);
+  ctx.fillStyle = '#D4AF37';
+  ctx.font = 'bold 28px sans-serif';
+  ctx.fillText(`MOCK · ${label}`, 24, height - 76);
+  ctx.fillStyle = '#e5e7eb';
+  ctx.font = '18px monospace';
+  ctx.fillText(`${aspectRatio} · #${hash.toString(16).padStart(8, '0')}`, 24, height - 40);
+
+  return canvas.toDataURL('image/png');
+};
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  requiresApiKey: false,
+  supportsSeed: true,
+  capabilities: ['text-intent', 'image-generate', 'image-edit'],
+  models: {
+    'text-intent': 'mock-text',
+    'image-generate': 'mock-image',
+    'image-edit': 'mock-image',
+  },
+
+  async generateText(request) {
+    await sleep(MOCK_LATENCY_MS / 2, request.signal);
+    request.onUsage?.(mockUsage(request.parts, 60));
+    if (promptText(request.parts).includes('"score"')) {
+      // Spread scores over 60-100 so the auto-regenerate policy can be exercised offline
+      const score = 60 + hashParts(request.parts) % 41;
+      return JSON.stringify({
+        score,
+        summary: t('mock.fidelitySummary'),
+        defects: score < 80 ? [{ kind: 'stone-count', detail: t('mock.fidelityDefect') }] : [],
+      });
+    }
+    if (promptText(request.parts).includes('"jewelry"')) {
+      return '{"feature": [42, 40, 58, 40], "jewelry": [44, 55, 12, 9]}';
+    }
+    if (promptText(request.parts).includes('Respond ONLY with JSON')) {
+      return JSON.stringify({ visible: true, reason: t('mock.modelCheck') });
+    }
+    const feedback = promptText(request.parts).match(/User Feedback: "([^"]*)"/)?.[1];
+    return `${t('intent.prefix')}${t('mock.intent', { feedback: feedback || t('mock.intentDefault') })}`;
+  },
+
+  async generateImage(request) {
+    await sleep(MOCK_LATENCY_MS, request.signal);
+    request.onUsage?.(mockUsage(request.parts, MOCK_TOKENS_PER_IMAGE));
+    return renderSynthetic(request.parts, request.aspectRatio, request.resolution, request.seed);
+  },
+
+  async editImage(request) {
+    await sleep(MOCK_LATENCY_MS, request.signal);
+    request.onUsage?.(mockUsage(request.parts, MOCK_TOKENS_PER_IMAGE));
+    const base = await loadImage(request.baseImage);
+    const canvas = document.createElement('canvas');
+    canvas.width = base.width;
+    canvas.height = base.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(base, 0, 0);
+
+    // Tint the editable area with a prompt-derived colour so edits are visible
+    const hue = hashParts(request.parts) % 360;
+    const tint = document.createElement('canvas');
+    tint.width = base.width;
+    tint.height = base.height;
+    const tintCtx = tint.getContext('2d')!;
+    tintCtx.fillStyle = `hsla(${hue}, 70%, 55%, 0.35)`;
+    tintCtx.fillRect(0, 0, base.width, base.height);
+    if (request.mask) {
+      // Keep the tint only where the mask is white
+      tintCtx.globalCompositeOperation = 'destination-in';
+      tintCtx.drawImage(await buildAlphaMask(request.mask, base.width, base.height, 0), 0, 0);
+    }
+    ctx.drawImage(tint, 0, 0);
+    return canvas.toDataURL('image/png');
+  },
+};
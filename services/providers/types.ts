@@ -0,0 +1,47 @@
+import { AspectRatio, ImageResolution } from "../../types";
+
+// Provider-neutral request parts. Shaped like Gemini's `Part` so prompt builders stay simple.
+export type ProviderPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }; // data: raw base64, no data URL header
+
+export type ProviderCapability = 'text-intent' | 'image-generate' | 'image-edit';
+
+// Token counts from a response's usage metadata
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface TextIntentRequest {
+  parts: ProviderPart[];
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void; // Called for each response that reports usage
+}
+
+export interface ImageGenerateRequest {
+  parts: ProviderPart[];
+  aspectRatio: AspectRatio;
+  resolution: ImageResolution;
+  seed?: number; // Ignored by providers without seed support
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface ImageEditRequest extends ImageGenerateRequest {
+  baseImage: string; // data URL of the image being edited
+  mask?: string; // data URL, white = editable area
+}
+
+export interface ImageProvider {
+  id: string;
+  label: string;
+  requiresApiKey: boolean;
+  supportsSeed: boolean; // The same seed and request reproduce the same image
+  capabilities: ProviderCapability[];
+  // Model names used for each capability, recorded for reporting
+  models: Partial<Record<ProviderCapability, string>>;
+  generateText(request: TextIntentRequest): Promise<string>;
+  generateImage(request: ImageGenerateRequest): Promise<string>; // Resolves to a data URL
+  editImage(request: ImageEditRequest): Promise<string>;
+}
@@ -0,0 +1,81 @@
+import { Dimensions, GenerationInputSnapshot, Point, ScaleCalibration, ScaleMeasurement } from "../types";
+import { getImageSize } from "./imageMask";
+import { locateScaleLandmarks } from "./geminiService";
+import type { MessageKey } from "./i18n";
+import type { UsageTag } from "./usageLedger";
+
+// Physical scale calibration. The user marks a feature of known length on the model or a
+// reference photo; that gives the photo a pixels-per-mm scale, from which the piece's
+// expected on-image size follows. Renders are measured against the same feature afterwards.
+
+export interface ScaleFeature {
+  label: MessageKey;
+  prompt: string;
+  lengthMm?: number; // Typical adult value; the user can always override it
+}
+
+export const SCALE_FEATURES: ScaleFeature[] = [
+  { label: 'scale.feature.pupils', prompt: 'distance between the centres of the two pupils', lengthMm: 63 },
+  { label: 'scale.feature.ringFinger', prompt: 'width of the ring finger at its base', lengthMm: 17 },
+  { label: 'scale.feature.eye', prompt: 'width of one eye, from inner to outer corner', lengthMm: 30 },
+  { label: 'scale.feature.ruler', prompt: 'marked ruler segment' },
+];
+
+export const DEFAULT_SCALE_TOLERANCE = 0.2;
+
+const UNIT_MM: Record<Dimensions['unit'], number> = { mm: 1, cm: 10, in: 25.4 };
+
+// Longest side of the piece in mm, or null when the dimensions are incomplete
+export const getLongestSideMm = (d: Dimensions): number | null => {
+  const sides = [parseFloat(d.width), parseFloat(d.height)].filter(v => v > 0);
+  return sides.length > 0 ? Math.max(...sides) * UNIT_MM[d.unit] : null;
+};
+
+const pixelDistance = (a: Point, b: Point, width: number, height: number) =>
+  Math.hypot((b.x - a.x) / 100 * width, (b.y - a.y) / 100 * height);
+
+export const computePxPerMm = (start: Point, end: Point, lengthMm: number, size: { width: number; height: number }) =>
+  lengthMm > 0 ? pixelDistance(start, end, size.width, size.height) / lengthMm : 0;
+
+// Expected on-image size of the piece in the calibrated photo
+export const getExpectedSize = (calibration: ScaleCalibration, d: Dimensions): { mm: number; px: number } | null => {
+  const mm = getLongestSideMm(d);
+  return mm ? { mm, px: mm * calibration.pxPerMm } : null;
+};
+
+// Scale instruction for the generation prompt. Stated relative to the feature, since the
+// render's framing differs from the calibrated photo.
+export const describeCalibration = (calibration: ScaleCalibration, d: Dimensions): string | undefined => {
+  const expected = getExpectedSize(calibration, d);
+  if (!expected) return undefined;
+  const photo = calibration.source === 'model' ? 'TARGET MODEL photo' : `real-life reference image ${calibration.imageIndex + 1}`;
+  const ratio = expected.mm / calibration.lengthMm;
+  return `On the ${photo}, the ${calibration.featurePrompt} measures ${calibration.lengthMm} mm (${Math.round(calibration.lengthMm * calibration.pxPerMm)} px). ` +
+    `The piece's longest side is ${Math.round(expected.mm * 10) / 10} mm, so it would span about ${Math.round(expected.px)} px on that photo. ` +
+    `In the render, the piece's longest side must be ${ratio.toFixed(2)}x the ${calibration.featurePrompt} wherever both are visible.`;
+};
+
+// Measures the piece in a rendered image using the calibration feature as the ruler.
+// Resolves to undefined when the batch has nothing to measure against.
+export const measureRenderedScale = async (
+  imageUrl: string,
+  inputs: GenerationInputSnapshot,
+  signal?: AbortSignal,
+  usage?: UsageTag
+): Promise<ScaleMeasurement | undefined> => {
+  const calibration = inputs.calibration;
+  const expectedMm = getLongestSideMm(inputs.dimensions);
+  if (!calibration || !expectedMm) return undefined;
+
+  const unmeasured: ScaleMeasurement = { expectedMm, tolerance: calibration.tolerance };
+  const landmarks = await locateScaleLandmarks(imageUrl, inputs.category, calibration.featurePrompt, signal, usage);
+  if (!landmarks?.feature || !landmarks.jewelry) return unmeasured;
+
+  const { width, height } = await getImageSize(imageUrl);
+  const featurePx = pixelDistance(landmarks.feature[0], landmarks.feature[1], width, height);
+  if (featurePx <= 0) return unmeasured;
+  const jewelryPx = Math.max(landmarks.jewelry.width / 100 * width, landmarks.jewelry.height / 100 * height);
+  const measuredMm = jewelryPx / featurePx * calibration.lengthMm;
+  const deviation = measuredMm / expectedMm - 1;
+  return { expectedMm, measuredMm, deviation, withinTolerance: Math.abs(deviation) <= calibration.tolerance, tolerance: calibration.tolerance };
+};
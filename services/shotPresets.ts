@@ -0,0 +1,191 @@
+import { AppMode, AspectRatio, ImageResolution, JewelryCategory, ShotDefinition, ShotPreset } from "../types";
+import { getCategoryDefinition } from "./categories";
+import { MAX_CANDIDATES } from "./candidates";
+import { MessageKey, t } from "./i18n";
+
+// Shot preset library. The built-in try-on preset follows the category's default shot plan,
+// the built-in scene preset reproduces the original variations; user presets are kept in
+// localStorage and can be shared as JSON files. Built-in names and labels are localized
+// when read (getPresetName, getPresetShots), so the stored copies stay language-neutral.
+
+const PRESETS_KEY = 'luxefit.presets';
+const SELECTION_KEY = 'luxefit.presets.selected';
+const PRESET_FILE_FORMAT = 'luxefit-shot-preset';
+
+export const SCENE_PLACEHOLDER = '{scene}';
+
+export const MODE_LABELS: Record<AppMode, MessageKey> = {
+  'try-on': 'mode.try-on',
+  'scene': 'mode.scene',
+};
+
+export class PresetFormatError extends Error {
+  constructor(message = t('preset.error.unrecognized')) {
+    super(message);
+    this.name = 'PresetFormatError';
+  }
+}
+
+const createId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const BUILT_IN_PRESETS: ShotPreset[] = [
+  {
+    id: 'builtin-try-on',
+    name: 'By category',
+    mode: 'try-on',
+    builtIn: true,
+    followsCategory: true,
+    shots: [],
+  },
+  {
+    id: 'builtin-scene',
+    name: 'Standard scenes (3)',
+    mode: 'scene',
+    builtIn: true,
+    shots: [
+      { id: 'builtin-scene-0', label: 'Scene 1', enabled: true, prompt: SCENE_PLACEHOLDER },
+      { id: 'builtin-scene-1', label: 'Scene 2', enabled: true, prompt: `${SCENE_PLACEHOLDER} (Variation in angle)` },
+      { id: 'builtin-scene-2', label: 'Scene 3', enabled: true, prompt: `${SCENE_PLACEHOLDER} (Variation in lighting)` },
+    ],
+  },
+];
+
+const DEFAULT_SELECTION: Record<AppMode, string> = { 'try-on': 'builtin-try-on', 'scene': 'builtin-scene' };
+
+export const getPresetName = (preset: ShotPreset) => {
+  if (preset.id === 'builtin-try-on') return t('preset.builtin.tryOn');
+  if (preset.id === 'builtin-scene') return t('preset.builtin.scene');
+  return preset.name;
+};
+
+// --- Persistence ---
+
+export const loadPresets = (): ShotPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+    if (Array.isArray(stored)) return [...BUILT_IN_PRESETS, ...stored];
+  } catch {
+    // Corrupt or unavailable storage falls back to the built-ins
+  }
+  return [...BUILT_IN_PRESETS];
+};
+
+export const savePresets = (presets: ShotPreset[]) => {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets.filter(p => !p.builtIn)));
+  } catch {
+    // Presets still apply for this session
+  }
+};
+
+export const loadPresetSelection = (): Record<AppMode, string> => {
+  try {
+    return { ...DEFAULT_SELECTION, ...JSON.parse(localStorage.getItem(SELECTION_KEY) || '{}') };
+  } catch {
+    return { ...DEFAULT_SELECTION };
+  }
+};
+
+export const savePresetSelection = (selection: Record<AppMode, string>) => {
+  try {
+    localStorage.setItem(SELECTION_KEY, JSON.stringify(selection));
+  } catch {
+    // Selection still applies for this session
+  }
+};
+
+// Falls back to the built-in preset when the selected one was deleted
+export const getSelectedPreset = (presets: ShotPreset[], selection: Record<AppMode, string>, mode: AppMode): ShotPreset =>
+  presets.find(p => p.id === selection[mode] && p.mode === mode) ?? presets.find(p => p.id === DEFAULT_SELECTION[mode])!;
+
+// --- Editing ---
+
+export const createShot = (): ShotDefinition => ({ id: createId('shot'), label: t('preset.newShot'), prompt: '', enabled: true });
+
+export const createPreset = (mode: AppMode, name: string): ShotPreset => ({
+  id: createId('preset'),
+  name,
+  mode,
+  shots: [createShot()],
+});
+
+// Category-following presets resolve to that category's plan; ids are stable per category
+export const getPresetShots = (preset: ShotPreset, category: JewelryCategory): ShotDefinition[] => {
+  if (preset.followsCategory) {
+    return getCategoryDefinition(category).defaultShots.map(({ labelKey, ...shot }, i) => ({
+      ...shot,
+      id: `${preset.id}-${category}-${i}`,
+      label: t(labelKey),
+      enabled: true,
+    }));
+  }
+  if (preset.builtIn) return preset.shots.map((shot, i) => ({ ...shot, label: t('preset.builtin.sceneShot', { index: i + 1 }) }));
+  return preset.shots;
+};
+
+export const getEnabledShots = (preset: ShotPreset, category: JewelryCategory) =>
+  getPresetShots(preset, category).filter(s => s.enabled);
+
+export const duplicatePreset = (preset: ShotPreset, category: JewelryCategory, name = t('preset.copyName', { name: getPresetName(preset) })): ShotPreset => ({
+  id: createId('preset'),
+  name,
+  mode: preset.mode,
+  shots: getPresetShots(preset, category).map(shot => ({ ...shot, id: createId('shot') })),
+});
+
+// Scene shots are templates over the form's scene description
+export const resolveShotPrompt = (shot: ShotDefinition, mode: AppMode, scenePrompt: string) =>
+  mode === 'scene' ? shot.prompt.split(SCENE_PLACEHOLDER).join(scenePrompt) : shot.prompt;
+
+// --- Sharing ---
+
+export const serializePreset = (preset: ShotPreset, category: JewelryCategory): string => JSON.stringify({
+  format: PRESET_FILE_FORMAT,
+  version: 1,
+  name: getPresetName(preset),
+  mode: preset.mode,
+  shots: getPresetShots(preset, category).map(({ id, ...shot }) => shot),
+}, null, 2);
+
+const ASPECT_RATIOS: AspectRatio[] = ['3:4', '9:16', '1:1'];
+const RESOLUTIONS: ImageResolution[] = ['2K', '4K'];
+
+// Fields of a parsed JSON object; anything that is not an object has none
+const asFields = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+const asText = (value: unknown) => typeof value === 'string' ? value : '';
+
+const parseShot = (value: unknown): ShotDefinition => {
+  const shot = asFields(value);
+  const { candidates } = shot;
+  return {
+    id: createId('shot'),
+    label: asText(shot.label),
+    prompt: asText(shot.prompt),
+    enabled: shot.enabled !== false,
+    aspectRatio: ASPECT_RATIOS.find(ratio => ratio === shot.aspectRatio),
+    resolution: RESOLUTIONS.find(resolution => resolution === shot.resolution),
+    candidates: typeof candidates === 'number' && Number.isInteger(candidates) && candidates > 1 && candidates <= MAX_CANDIDATES ? candidates : undefined,
+  };
+};
+
+// Imported presets always get fresh ids so they never clash with existing ones
+export const parsePreset = (text: string): ShotPreset => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new PresetFormatError(t('preset.error.json'));
+  }
+  const data = asFields(parsed);
+  if (data.format !== PRESET_FILE_FORMAT || !Array.isArray(data.shots)) throw new PresetFormatError();
+  if (data.mode !== 'try-on' && data.mode !== 'scene') throw new PresetFormatError(t('preset.error.mode'));
+
+  return {
+    id: createId('preset'),
+    name: asText(data.name) || t('preset.importedName'),
+    mode: data.mode,
+    shots: data.shots.map(parseShot),
+  };
+};
@@ -0,0 +1,457 @@
+import { GenerationBatch, LibraryModel, LibraryProduct, ModelProfile, ProductProfile, UploadedFile, UsageEntry } from "../types";
+import { normalizeCategory } from "./categories";
+import { t } from "./i18n";
+
+// IndexedDB-backed persistence for history and form inputs.
+// Images are never stored as base64 strings: every data URL found inside a batch
+// is extracted into a Blob in the `blobs` store and replaced by a reference.
+
+const DB_NAME = 'luxefit-ai';
+const DB_VERSION = 4;
+
+const BATCH_STORE = 'batches';
+const BLOB_STORE = 'blobs';
+const INPUT_STORE = 'inputs';
+const MODEL_STORE = 'models';
+const PRODUCT_STORE = 'products';
+const USAGE_STORE = 'usage';
+
+export type InputSlot = 'productImages' | 'referenceImages' | 'modelImage';
+
+export class StorageQuotaError extends Error {
+  constructor(message = t('storage.error.quota')) {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+interface BlobRef {
+  __blobRef: string;
+}
+
+interface StoredBatch {
+  id: string;
+  timestamp: number;
+  blobKeys: string[];
+  data: unknown; // Batch with every data URL replaced by a BlobRef
+}
+
+interface StoredInput {
+  name: string;
+  type: string;
+  lastModified: number;
+  blob: Blob;
+}
+
+// The library keeps the already-normalized upload, so loading needs no decode or hashing
+interface StoredModel {
+  profile: ModelProfile;
+  name: string;
+  width: number;
+  height: number;
+  blob: Blob;
+}
+
+// A normalized upload, see imageFiles.readUploadedFile
+interface StoredImage {
+  name: string;
+  width: number;
+  height: number;
+  hash: string;
+  blob: Blob;
+}
+
+interface StoredProduct {
+  profile: ProductProfile;
+  productImages: StoredImage[];
+  referenceImages: StoredImage[];
+}
+
+// --- Connection ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(BATCH_STORE)) db.createObjectStore(BATCH_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(BLOB_STORE)) db.createObjectStore(BLOB_STORE);
+      if (!db.objectStoreNames.contains(INPUT_STORE)) db.createObjectStore(INPUT_STORE);
+      if (!db.objectStoreNames.contains(MODEL_STORE)) db.createObjectStore(MODEL_STORE, { keyPath: 'profile.id' });
+      if (!db.objectStoreNames.contains(PRODUCT_STORE)) db.createObjectStore(PRODUCT_STORE, { keyPath: 'profile.sku' });
+      if (!db.objectStoreNames.contains(USAGE_STORE)) db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+
+// Runs `work` inside a transaction and resolves when it commits
+const runTransaction = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => T
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    let result: T;
+    let tx: IDBTransaction;
+    try {
+      tx = db.transaction(storeNames, mode);
+      result = work(tx);
+    } catch (error) {
+      reject(isQuotaError(error) ? new StorageQuotaError() : error);
+      return;
+    }
+    tx.oncomplete = () => resolve(result);
+    tx.onabort = () => reject(isQuotaError(tx.error) ? new StorageQuotaError() : tx.error);
+    tx.onerror = () => reject(isQuotaError(tx.error) ? new StorageQuotaError() : tx.error);
+  });
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// --- Data URL <-> Blob ---
+
+const isDataUrl = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith('data:') && value.includes(';base64,');
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Replaces every data URL in `value` with a BlobRef to the key `keyOf` gives it
+const dehydrate = (value: unknown, keyOf: (dataUrl: string) => string): unknown => {
+  if (isDataUrl(value)) return { __blobRef: keyOf(value) } as BlobRef;
+  if (Array.isArray(value)) return value.map(v => dehydrate(v, keyOf));
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    Object.entries(value).forEach(([k, v]) => {
+      if (v !== undefined) out[k] = dehydrate(v, keyOf);
+    });
+    return out;
+  }
+  return value;
+};
+
+const isBlobRef = (value: unknown): value is BlobRef =>
+  !!value && typeof value === 'object' && typeof (value as BlobRef).__blobRef === 'string';
+
+const hydrate = (value: unknown, blobs: Map<string, string>): unknown => {
+  if (isBlobRef(value)) return blobs.get(value.__blobRef);
+  if (Array.isArray(value)) return value.map(v => hydrate(v, blobs));
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    Object.entries(value).forEach(([k, v]) => { out[k] = hydrate(v, blobs); });
+    return out;
+  }
+  return value;
+};
+
+// In-flight UI flags make no sense after a reload; categories saved as Chinese names become ids
+const normalizeLoadedBatch = (batch: GenerationBatch): GenerationBatch => ({
+  ...batch,
+  inputs: batch.inputs && {
+    ...batch.inputs,
+    category: normalizeCategory(batch.inputs.category),
+    pieces: batch.inputs.pieces?.map(piece => ({ ...piece, category: normalizeCategory(piece.category) })),
+  },
+  assets: batch.assets.map(asset => ({
+    ...asset,
+    isVerifyingFeedback: false,
+    candidates: asset.candidates?.map(candidate => candidate.isLoading
+      ? { ...candidate, isLoading: false, error: t('storage.interrupted') }
+      : candidate),
+    ...(asset.isImageLoading
+      ? { isImageLoading: false, error: asset.imageUrl ? undefined : t('storage.interrupted') }
+      : {})
+  }))
+});
+
+// --- History ---
+
+// Blob key of every image already in the blob store, by data URL, per batch. Batches are saved
+// on every asset update (a picked candidate, a restored version), so a save only writes the
+// images that are new since the last one and deletes the ones no longer referenced.
+const storedBlobKeys = new Map<string, Map<string, string>>();
+// Last save of each batch still in flight; saves of one batch run one after another
+const pendingSaves = new Map<string, Promise<void>>();
+let blobCounter = 0;
+
+const writeBatch = async (batch: GenerationBatch): Promise<void> => {
+  const previous = storedBlobKeys.get(batch.id);
+  const current = new Map<string, string>();
+  const added = new Map<string, Blob>();
+  const data = dehydrate(batch, dataUrl => {
+    // The same image is frequently referenced several times (e.g. feedback references)
+    let key = current.get(dataUrl) ?? previous?.get(dataUrl);
+    if (!key) {
+      key = `${batch.id}/${Date.now().toString(36)}-${blobCounter++}`;
+      added.set(key, dataUrlToBlob(dataUrl));
+    }
+    current.set(dataUrl, key);
+    return key;
+  });
+  const keys = new Set(current.values());
+  const removed = previous ? Array.from(previous.values()).filter(key => !keys.has(key)) : [];
+  const record: StoredBatch = { id: batch.id, timestamp: batch.timestamp, blobKeys: Array.from(keys), data };
+
+  try {
+    await runTransaction([BATCH_STORE, BLOB_STORE], 'readwrite', tx => {
+      const blobStore = tx.objectStore(BLOB_STORE);
+      // Without a known previous save every blob is new; clear whatever an earlier session left
+      if (!previous) blobStore.delete(IDBKeyRange.bound(`${batch.id}/`, `${batch.id}/\uffff`));
+      removed.forEach(key => blobStore.delete(key));
+      added.forEach((blob, key) => blobStore.put(blob, key));
+      tx.objectStore(BATCH_STORE).put(record);
+    });
+  } catch (error) {
+    // The store may no longer match the last recorded save; the next save rewrites the batch
+    storedBlobKeys.delete(batch.id);
+    throw error;
+  }
+  storedBlobKeys.set(batch.id, current);
+};
+
+// Each save starts once the previous save of the same batch has settled, so it diffs against
+// blobs that are known to be written
+export const saveBatch = (batch: GenerationBatch): Promise<void> => {
+  const save = (pendingSaves.get(batch.id) ?? Promise.resolve())
+    .catch(() => undefined) // That save's own caller handles its failure
+    .then(() => writeBatch(batch));
+  pendingSaves.set(batch.id, save);
+  const forget = () => {
+    if (pendingSaves.get(batch.id) === save) pendingSaves.delete(batch.id);
+  };
+  save.then(forget, forget);
+  return save;
+};
+
+export const loadHistory = async (): Promise<GenerationBatch[]> => {
+  const records = await runTransaction([BATCH_STORE], 'readonly', tx =>
+    requestToPromise(tx.objectStore(BATCH_STORE).getAll() as IDBRequest<StoredBatch[]>)
+  );
+
+  const batches: GenerationBatch[] = [];
+  for (const record of records) {
+    const blobUrls = new Map<string, string>();
+    const blobs = await runTransaction([BLOB_STORE], 'readonly', tx => {
+      const store = tx.objectStore(BLOB_STORE);
+      return Promise.all(record.blobKeys.map(key =>
+        requestToPromise(store.get(key) as IDBRequest<Blob | undefined>).then(blob => [key, blob] as const)
+      ));
+    });
+    const known = new Map<string, string>();
+    for (const [key, blob] of blobs) {
+      if (!blob) continue;
+      const dataUrl = await blobToDataUrl(blob);
+      blobUrls.set(key, dataUrl);
+      known.set(dataUrl, key);
+    }
+    storedBlobKeys.set(record.id, known);
+    batches.push(normalizeLoadedBatch(hydrate(record.data, blobUrls) as GenerationBatch));
+  }
+
+  return batches.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const deleteBatch = async (batchId: string): Promise<void> => {
+  storedBlobKeys.delete(batchId);
+  await runTransaction([BATCH_STORE, BLOB_STORE], 'readwrite', tx => {
+    tx.objectStore(BLOB_STORE).delete(IDBKeyRange.bound(`${batchId}/`, `${batchId}/\uffff`));
+    tx.objectStore(BATCH_STORE).delete(batchId);
+  });
+};
+
+// Inputs live in their own store and survive a history wipe
+export const clearHistory = async (): Promise<void> => {
+  storedBlobKeys.clear();
+  await runTransaction([BATCH_STORE, BLOB_STORE], 'readwrite', tx => {
+    tx.objectStore(BATCH_STORE).clear();
+    tx.objectStore(BLOB_STORE).clear();
+  });
+};
+
+// --- Form Inputs ---
+
+export const saveInputFiles = async (slot: InputSlot, files: UploadedFile[]): Promise<void> => {
+  const records: StoredInput[] = files.map(f => ({
+    name: f.file.name,
+    type: f.file.type,
+    lastModified: f.file.lastModified,
+    blob: f.file,
+  }));
+  await runTransaction([INPUT_STORE], 'readwrite', tx => {
+    tx.objectStore(INPUT_STORE).put(records, slot);
+  });
+};
+
+// Returns the original files; callers run them through the upload pipeline again
+export const loadInputFiles = async (slot: InputSlot): Promise<File[]> => {
+  const records = await runTransaction([INPUT_STORE], 'readonly', tx =>
+    requestToPromise(tx.objectStore(INPUT_STORE).get(slot) as IDBRequest<StoredInput[] | undefined>)
+  );
+  if (!records) return [];
+  return records.map(r => new File([r.blob], r.name, { type: r.type, lastModified: r.lastModified }));
+};
+
+// --- Model Library ---
+
+export const loadModels = async (): Promise<LibraryModel[]> => {
+  const records = await runTransaction([MODEL_STORE], 'readonly', tx =>
+    requestToPromise(tx.objectStore(MODEL_STORE).getAll() as IDBRequest<StoredModel[]>)
+  );
+  const models = await Promise.all(records.map(async (r): Promise<LibraryModel> => ({
+    profile: r.profile,
+    image: {
+      file: new File([r.blob], r.name, { type: r.blob.type }),
+      previewUrl: URL.createObjectURL(r.blob),
+      base64: await blobToDataUrl(r.blob),
+      mimeType: r.blob.type,
+      width: r.width,
+      height: r.height,
+      hash: r.profile.imageHash,
+    },
+  })));
+  return models.sort((a, b) => b.profile.createdAt - a.profile.createdAt);
+};
+
+export const saveModel = async (model: LibraryModel): Promise<void> => {
+  const record: StoredModel = {
+    profile: model.profile,
+    name: model.image.file.name,
+    width: model.image.width,
+    height: model.image.height,
+    blob: dataUrlToBlob(model.image.base64),
+  };
+  await runTransaction([MODEL_STORE], 'readwrite', tx => {
+    tx.objectStore(MODEL_STORE).put(record);
+  });
+};
+
+export const deleteModel = async (modelId: string): Promise<void> => {
+  await runTransaction([MODEL_STORE], 'readwrite', tx => {
+    tx.objectStore(MODEL_STORE).delete(modelId);
+  });
+};
+
+// --- Product Library ---
+
+const toStoredImage = (file: UploadedFile): StoredImage => ({
+  name: file.file.name,
+  width: file.width,
+  height: file.height,
+  hash: file.hash,
+  blob: dataUrlToBlob(file.base64),
+});
+
+const fromStoredImage = async (image: StoredImage): Promise<UploadedFile> => ({
+  file: new File([image.blob], image.name, { type: image.blob.type }),
+  previewUrl: URL.createObjectURL(image.blob),
+  base64: await blobToDataUrl(image.blob),
+  mimeType: image.blob.type,
+  width: image.width,
+  height: image.height,
+  hash: image.hash,
+});
+
+export const loadProducts = async (): Promise<LibraryProduct[]> => {
+  const records = await runTransaction([PRODUCT_STORE], 'readonly', tx =>
+    requestToPromise(tx.objectStore(PRODUCT_STORE).getAll() as IDBRequest<StoredProduct[]>)
+  );
+  const products = await Promise.all(records.map(async (r): Promise<LibraryProduct> => ({
+    profile: { ...r.profile, category: normalizeCategory(r.profile.category) },
+    productImages: await Promise.all(r.productImages.map(fromStoredImage)),
+    referenceImages: await Promise.all(r.referenceImages.map(fromStoredImage)),
+  })));
+  return products.sort((a, b) => a.profile.sku.localeCompare(b.profile.sku));
+};
+
+export const saveProduct = async (product: LibraryProduct): Promise<void> => {
+  const record: StoredProduct = {
+    profile: product.profile,
+    productImages: product.productImages.map(toStoredImage),
+    referenceImages: product.referenceImages.map(toStoredImage),
+  };
+  await runTransaction([PRODUCT_STORE], 'readwrite', tx => {
+    tx.objectStore(PRODUCT_STORE).put(record);
+  });
+};
+
+export const deleteProduct = async (sku: string): Promise<void> => {
+  await runTransaction([PRODUCT_STORE], 'readwrite', tx => {
+    tx.objectStore(PRODUCT_STORE).delete(sku);
+  });
+};
+
+// --- Usage Ledger ---
+
+export const loadUsageEntries = async (): Promise<UsageEntry[]> => {
+  const entries = await runTransaction([USAGE_STORE], 'readonly', tx =>
+    requestToPromise(tx.objectStore(USAGE_STORE).getAll() as IDBRequest<UsageEntry[]>)
+  );
+  return entries.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const saveUsageEntry = async (entry: UsageEntry): Promise<void> => {
+  await runTransaction([USAGE_STORE], 'readwrite', tx => {
+    tx.objectStore(USAGE_STORE).put(entry);
+  });
+};
+
+export const clearUsageEntries = async (): Promise<void> => {
+  await runTransaction([USAGE_STORE], 'readwrite', tx => {
+    tx.objectStore(USAGE_STORE).clear();
+  });
+};
+
+// --- Quota ---
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// Ask the browser not to evict our data under storage pressure
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+};
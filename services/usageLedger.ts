@@ -0,0 +1,255 @@
+import { ImageResolution, UsageEntry, UsageOperation } from "../types";
+import { clearUsageEntries, loadUsageEntries, saveUsageEntry } from "./storageService";
+import type { MessageKey } from "./i18n";
+
+// Usage and cost ledger. Every model call is recorded once, retries included, and costed
+// at read time with the current unit prices, so editing a price re-costs the whole history.
+
+const PRICING_KEY = 'luxefit.usagePricing';
+const BUDGET_KEY = 'luxefit.usageBudget';
+
+export const USAGE_OPERATION_LABELS: Record<UsageOperation, MessageKey> = {
+  'try-on': 'usage.operation.try-on',
+  'set-try-on': 'usage.operation.set-try-on',
+  'scene': 'usage.operation.scene',
+  'region-edit': 'usage.operation.region-edit',
+  'piece-edit': 'usage.operation.piece-edit',
+  'intent': 'usage.operation.intent',
+  'model-check': 'usage.operation.model-check',
+  'scale-check': 'usage.operation.scale-check',
+  'fidelity-check': 'usage.operation.fidelity-check',
+};
+
+// Batch and SKU a call is made for, so spend can be broken down by them
+export interface UsageTag {
+  batchId?: string;
+  sku?: string;
+}
+
+export interface ModelPrice {
+  inputPerMTokens: number; // Per million input tokens
+  outputPerMTokens: number;
+  perImage: Record<ImageResolution, number>; // Per successful image call, on top of tokens
+}
+
+export interface UsagePricing {
+  currency: string;
+  models: Record<string, ModelPrice>; // By model name; unpriced models cost nothing
+}
+
+// List prices when this was written. Image output is billed per image, so the image
+// model's output-token price stays 0 to avoid counting it twice.
+export const DEFAULT_USAGE_PRICING: UsagePricing = {
+  currency: 'USD',
+  models: {
+    'gemini-3-pro-image-preview': { inputPerMTokens: 2, outputPerMTokens: 0, perImage: { '2K': 0.134, '4K': 0.24 } },
+    'gemini-3-flash-preview': { inputPerMTokens: 0.5, outputPerMTokens: 3, perImage: { '2K': 0, '4K': 0 } },
+  },
+};
+
+export type BudgetAction = 'warn' | 'block';
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface UsageBudget {
+  dailyCap?: number; // In the pricing currency; missing = no cap
+  monthlyCap?: number;
+  action: BudgetAction; // What happens when a new batch would cross a cap
+}
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = { action: 'warn' };
+
+export const loadUsagePricing = (): UsagePricing => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRICING_KEY) || '{}');
+    return { ...DEFAULT_USAGE_PRICING, ...stored, models: { ...DEFAULT_USAGE_PRICING.models, ...stored.models } };
+  } catch {
+    return { ...DEFAULT_USAGE_PRICING };
+  }
+};
+
+export const saveUsagePricing = (pricing: UsagePricing) => {
+  try {
+    localStorage.setItem(PRICING_KEY, JSON.stringify(pricing));
+  } catch {
+    // Prices still apply for this session
+  }
+};
+
+export const loadUsageBudget = (): UsageBudget => {
+  try {
+    return { ...DEFAULT_USAGE_BUDGET, ...JSON.parse(localStorage.getItem(BUDGET_KEY) || '{}') };
+  } catch {
+    return { ...DEFAULT_USAGE_BUDGET };
+  }
+};
+
+export const saveUsageBudget = (budget: UsageBudget) => {
+  try {
+    localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+  } catch {
+    // Budget still applies for this session
+  }
+};
+
+// --- Ledger ---
+
+let entries: UsageEntry[] = [];
+const listeners = new Set<(entries: UsageEntry[]) => void>();
+
+const notify = () => listeners.forEach(listener => listener(entries));
+
+export const getUsageEntries = (): UsageEntry[] => entries;
+
+export const subscribeUsage = (listener: (entries: UsageEntry[]) => void): (() => void) => {
+  listeners.add(listener);
+  listener(entries);
+  return () => { listeners.delete(listener); };
+};
+
+// Merges the stored ledger under anything recorded before it finished loading
+export const loadUsageLedger = async (): Promise<void> => {
+  const stored = await loadUsageEntries();
+  const storedIds = new Set(stored.map(e => e.id));
+  entries = [...stored, ...entries.filter(e => !storedIds.has(e.id))];
+  notify();
+};
+
+export const recordUsage = (entry: Omit<UsageEntry, 'id'>): UsageEntry => {
+  const recorded: UsageEntry = { id: `usage-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, ...entry };
+  entries = [...entries, recorded];
+  notify();
+  saveUsageEntry(recorded).catch(error => console.warn('Failed to save usage entry', error));
+  return recorded;
+};
+
+export const clearUsageLedger = async (): Promise<void> => {
+  await clearUsageEntries();
+  entries = [];
+  notify();
+};
+
+// --- Costing ---
+
+export const getEntryCost = (entry: UsageEntry, pricing: UsagePricing): number => {
+  const price = pricing.models[entry.model];
+  if (!price) return 0;
+  const tokens = ((entry.inputTokens ?? 0) * price.inputPerMTokens + (entry.outputTokens ?? 0) * price.outputPerMTokens) / 1_000_000;
+  return tokens + (entry.success && entry.resolution ? price.perImage[entry.resolution] : 0);
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Local calendar day and month, e.g. "2026-03-08" and "2026-03"
+export const getDayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+export const getMonthKey = (timestamp: number) => getDayKey(timestamp).slice(0, 7);
+
+export interface UsageTotals {
+  calls: number;
+  failures: number;
+  images: number; // Successful image calls
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number; // Summed; divide by calls for the average
+  cost: number;
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, failures: 0, images: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, cost: 0 });
+
+// Totals per group, in first-seen order. Entries whose key is undefined are left out.
+export const summarizeUsage = (
+  list: UsageEntry[],
+  pricing: UsagePricing,
+  keyOf: (entry: UsageEntry) => string | undefined
+): Map<string, UsageTotals> => {
+  const groups = new Map<string, UsageTotals>();
+  list.forEach(entry => {
+    const key = keyOf(entry);
+    if (key === undefined) return;
+    const totals = groups.get(key) ?? emptyTotals();
+    totals.calls++;
+    if (!entry.success) totals.failures++;
+    if (entry.success && entry.resolution) totals.images++;
+    totals.inputTokens += entry.inputTokens ?? 0;
+    totals.outputTokens += entry.outputTokens ?? 0;
+    totals.latencyMs += entry.latencyMs;
+    totals.cost += getEntryCost(entry, pricing);
+    groups.set(key, totals);
+  });
+  return groups;
+};
+
+// Small amounts keep enough digits to tell single calls apart
+export const formatCost = (amount: number, currency: string) =>
+  `${amount.toFixed(amount > 0 && amount < 1 ? 3 : 2)} ${currency}`;
+
+export const sumCost = (list: UsageEntry[], pricing: UsagePricing) =>
+  list.reduce((sum, entry) => sum + getEntryCost(entry, pricing), 0);
+
+// --- Budget ---
+
+const RECENT_RENDERS = 20;
+
+// Expected cost of one render: the average of recent successful renders of the same model and
+// resolution (which includes their prompt tokens), or the per-image price when there are none
+export const estimateRenderCost = (model: string, resolution: ImageResolution, pricing: UsagePricing): number => {
+  const recent = entries.filter(e => e.success && e.model === model && e.resolution === resolution).slice(-RECENT_RENDERS);
+  if (recent.length) return sumCost(recent, pricing) / recent.length;
+  return pricing.models[model]?.perImage[resolution] ?? 0;
+};
+
+// Rough size of a QA or scale check (a render plus product photos in, a short JSON answer out),
+// used until the ledger has real calls of that kind to average
+const TYPICAL_CHECK_TOKENS = { inputTokens: 4000, outputTokens: 500 };
+
+// Expected cost of one text check, averaged like estimateRenderCost
+export const estimateCheckCost = (model: string, operation: UsageOperation, pricing: UsagePricing): number => {
+  const recent = entries.filter(e => e.success && e.model === model && e.operation === operation).slice(-RECENT_RENDERS);
+  if (recent.length) return sumCost(recent, pricing) / recent.length;
+  const price = pricing.models[model];
+  if (!price) return 0;
+  return (TYPICAL_CHECK_TOKENS.inputTokens * price.inputPerMTokens + TYPICAL_CHECK_TOKENS.outputTokens * price.outputPerMTokens) / 1_000_000;
+};
+
+export interface BudgetOverrun {
+  period: BudgetPeriod;
+  cap: number;
+  spent: number; // So far in the current day or month
+  estimate: number; // Of the work about to start
+}
+
+// Caps that spending `estimate` now would cross, daily first
+export const checkBudget = (estimate: number, budget: UsageBudget, pricing: UsagePricing, now = Date.now()): BudgetOverrun[] => {
+  const caps: [BudgetPeriod, number | undefined, (ts: number) => string][] = [
+    ['daily', budget.dailyCap, getDayKey],
+    ['monthly', budget.monthlyCap, getMonthKey],
+  ];
+  return caps.flatMap(([period, cap, keyOf]) => {
+    if (cap === undefined) return [];
+    const spent = sumCost(entries.filter(e => keyOf(e.timestamp) === keyOf(now)), pricing);
+    return spent + estimate > cap ? [{ period, cap, spent, estimate }] : [];
+  });
+};
+
+// --- CSV Export ---
+
+const CSV_COLUMNS = [
+  'timestamp', 'day', 'provider', 'model', 'operation', 'resolution', 'attempts', 'latency_ms',
+  'input_tokens', 'output_tokens', 'success', 'error', 'batch_id', 'sku',
+];
+
+const csvCell = (value: string | number | boolean | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per call; the BOM makes Excel read it as UTF-8
+export const toUsageCsv = (list: UsageEntry[], pricing: UsagePricing): string => {
+  const rows = list.map(e => [
+    new Date(e.timestamp).toISOString(), getDayKey(e.timestamp), e.provider, e.model, e.operation, e.resolution, e.attempts,
+    e.latencyMs, e.inputTokens, e.outputTokens, e.success, e.errorKind, e.batchId, e.sku, getEntryCost(e, pricing).toFixed(6),
+  ].map(csvCell).join(','));
+  return `\uFEFF${[[...CSV_COLUMNS, `cost_${pricing.currency}`].join(','), ...rows].join('\r\n')}`;
+};
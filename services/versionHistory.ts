@@ -0,0 +1,101 @@
+import { AssetVersion, GeneratedAsset } from "../types";
+
+// Pure helpers for the per-asset version tree. Versions are stored as a flat list
+// linked by `parentId`; the asset's `imageUrl` always mirrors the current version.
+
+const createVersionId = () => `v-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Assets rendered before version history existed get their current image as the root
+const withSeededRoot = (asset: GeneratedAsset): AssetVersion[] => {
+  if (asset.versions?.length) return asset.versions;
+  if (!asset.imageUrl) return [];
+  return [{
+    id: createVersionId(),
+    kind: 'initial',
+    imageUrl: asset.imageUrl,
+    resolution: asset.resolution,
+    createdAt: Date.now(),
+  }];
+};
+
+const appendVersion = (
+  versions: AssetVersion[],
+  details: Omit<AssetVersion, 'id' | 'parentId' | 'createdAt'>,
+  parentId: string | undefined
+): Partial<GeneratedAsset> => {
+  const version: AssetVersion = { ...details, id: createVersionId(), parentId, createdAt: Date.now() };
+  return {
+    versions: [...versions, version],
+    currentVersionId: version.id,
+    imageUrl: version.imageUrl,
+    resolution: version.resolution,
+    templateVersion: version.templateVersion,
+  };
+};
+
+// Records a new render as a child of the current version and makes it current
+export const addVersion = (
+  asset: GeneratedAsset,
+  details: Omit<AssetVersion, 'id' | 'parentId' | 'createdAt'>
+): Partial<GeneratedAsset> => {
+  const versions = withSeededRoot(asset);
+  return appendVersion(versions, details, asset.currentVersionId ?? versions[versions.length - 1]?.id);
+};
+
+// Records an alternative first render (e.g. a picked candidate) as a new root and makes it current
+export const addRootVersion = (
+  asset: GeneratedAsset,
+  details: Omit<AssetVersion, 'id' | 'parentId' | 'createdAt'>
+): Partial<GeneratedAsset> => appendVersion(withSeededRoot(asset), details, undefined);
+
+// Records a new render as a child of a given version and makes it current
+export const addVersionUnder = (
+  asset: GeneratedAsset,
+  parentId: string,
+  details: Omit<AssetVersion, 'id' | 'parentId' | 'createdAt'>
+): Partial<GeneratedAsset> => appendVersion(withSeededRoot(asset), details, parentId);
+
+// The version a fresh render from the batch snapshot reproduces: the nearest initial render
+// the current version descends from. `edited` is set when edits made since would be lost.
+export const getRenderSource = (asset: GeneratedAsset): { version: AssetVersion, edited: boolean } | undefined => {
+  const byId = new Map((asset.versions ?? []).map(v => [v.id, v]));
+  let edited = false;
+  for (let version = byId.get(asset.currentVersionId ?? ''); version; version = byId.get(version.parentId ?? '')) {
+    if (version.kind === 'initial') return { version, edited };
+    if (version.kind !== 'upscale') edited = true;
+  }
+  return undefined;
+};
+
+// Makes an earlier version current; the next edit branches from it
+export const restoreVersion = (asset: GeneratedAsset, versionId: string): Partial<GeneratedAsset> => {
+  const version = asset.versions?.find(v => v.id === versionId);
+  if (!version) return {};
+  return { currentVersionId: version.id, imageUrl: version.imageUrl, resolution: version.resolution, templateVersion: version.templateVersion };
+};
+
+export interface VersionNode {
+  version: AssetVersion;
+  depth: number;
+  label: string; // v1, v2... in creation order
+}
+
+// Depth-first flattening for rendering the tree as an indented list
+export const flattenVersionTree = (versions: AssetVersion[]): VersionNode[] => {
+  const labels = new Map(versions.map((v, i) => [v.id, `v${i + 1}`]));
+  const children = new Map<string | undefined, AssetVersion[]>();
+  versions.forEach(v => {
+    const key = v.parentId && labels.has(v.parentId) ? v.parentId : undefined;
+    children.set(key, [...(children.get(key) || []), v]);
+  });
+
+  const nodes: VersionNode[] = [];
+  const visit = (parentId: string | undefined, depth: number) => {
+    (children.get(parentId) || []).forEach(version => {
+      nodes.push({ version, depth, label: labels.get(version.id)! });
+      visit(version.id, depth + 1);
+    });
+  };
+  visit(undefined, 0);
+  return nodes;
+};
@@ -1,8 +1,13 @@
-
 export interface UploadedFile {
   file: File;
   previewUrl: string;
-  base64: string;
+  base64: string; // Upright, within the upload limits, in a format the model accepts
+  mimeType: string; // Of `base64`
+  width: number;
+  height: number;
+  hash: string; // SHA-256 of the original file, used to skip duplicate uploads
+  processed?: string; // Preprocessed product image (data URL), sent instead of `base64`
+  processedKey?: string; // Options `processed` was made with, see getPreprocessKey
 }
 
 export interface Dimensions {
@@ -14,10 +19,43 @@ export interface Dimensions {
 export type AspectRatio = '3:4' | '9:16' | '1:1';
 export type ImageResolution = '2K' | '4K';
 
-export type JewelryCategory = '胸针' | '项链' | '耳环/耳坠' | '戒指' | '手链';
+// Stable ids; display names come from the locale catalogs, see categories.getCategoryLabel
+export type JewelryCategory = 'brooch' | 'necklace' | 'earring' | 'ring' | 'bracelet';
 
 export type AppMode = 'try-on' | 'scene';
 
+// One shot in a preset. Scene prompts may use {scene} for the form's scene description.
+export interface ShotDefinition {
+  id: string;
+  label: string;
+  prompt: string;
+  enabled: boolean;
+  aspectRatio?: AspectRatio; // Defaults to the form's aspect ratio
+  resolution?: ImageResolution; // Defaults to 2K
+  candidates?: number; // Renders to pick the best from, 1-4; defaults to 1
+}
+
+export interface ShotPreset {
+  id: string;
+  name: string;
+  mode: AppMode;
+  shots: ShotDefinition[];
+  builtIn?: boolean; // Shipped defaults are read-only; duplicate them to customise
+  followsCategory?: boolean; // Shots come from the selected category's default plan
+}
+
+export type GenerationErrorKind =
+  | 'rate-limit'
+  | 'quota'
+  | 'region-blocked'
+  | 'safety-block'
+  | 'timeout'
+  | 'bad-input'
+  | 'no-image'
+  | 'server-busy'
+  | 'network'
+  | 'unknown';
+
 export interface Region {
   x: number; // percentage 0-100
   y: number; // percentage 0-100
@@ -25,12 +63,158 @@ export interface Region {
   height: number; // percentage 0-100
 }
 
+export interface Point {
+  x: number; // percentage 0-100
+  y: number; // percentage 0-100
+}
+
+export type SelectionTool = 'rect' | 'lasso' | 'polygon' | 'brush' | 'eraser';
+
+export type SelectionShape =
+  | { type: 'rect'; rect: Region }
+  | { type: 'polygon'; points: Point[] } // Closed; produced by both the polygon and lasso tools
+  | { type: 'brush'; points: Point[]; size: number; erase: boolean }; // size: percentage of image width
+
+// One area of an edit with its own instruction. An edit can carry several.
+export interface SelectionRegion {
+  id: string;
+  shapes: SelectionShape[];
+  instruction: string;
+}
+
+// A known-length feature marked on an input photo, giving that photo a pixels-per-mm scale
+export interface ScaleCalibration {
+  source: 'model' | 'reference';
+  imageIndex: number; // Into the reference images when source is 'reference'
+  featureLabel: string; // Shown to the user, e.g. "瞳距"
+  featurePrompt: string; // The same feature as described to the model
+  lengthMm: number;
+  start: Point; // Segment end points, percentages of the photo
+  end: Point;
+  pxPerMm: number; // In the photo's natural pixels
+  tolerance: number; // Allowed relative deviation of the rendered size, e.g. 0.2
+}
+
+// Rendered size of the piece's longest side versus the size the calibration predicts
+export interface ScaleMeasurement {
+  expectedMm: number;
+  measuredMm?: number; // Missing when the feature or piece could not be located in the render
+  deviation?: number; // measured / expected - 1
+  withinTolerance?: boolean;
+  tolerance: number;
+}
+
+export type FidelityDefectKind =
+  | 'metal-color'
+  | 'stone-count'
+  | 'stone-shape'
+  | 'proportions'
+  | 'extra-jewelry'
+  | 'missing-part'
+  | 'deformed-hands'
+  | 'other';
+
+export interface FidelityDefect {
+  kind: FidelityDefectKind;
+  detail: string; // Short description in the UI language
+}
+
+// Result of the product-fidelity QA pass on one render
+export interface FidelityReport {
+  score: number; // 0-100, 100 = indistinguishable from the product photos
+  summary: string;
+  defects: FidelityDefect[];
+}
+
+// One extra piece of a try-on set, as edited in the form
+export interface SetPiece {
+  id: string;
+  category: JewelryCategory;
+  productImages: UploadedFile[];
+  referenceImages: UploadedFile[];
+  dimensions: Dimensions;
+}
+
+// Frozen copy of a set piece inside a batch snapshot
+export interface SetPieceSnapshot {
+  readonly id: string;
+  readonly category: JewelryCategory;
+  readonly productImages: readonly string[];
+  readonly referenceImages: readonly string[];
+  readonly dimensions: Readonly<Dimensions>;
+  readonly dimensionsText: string;
+}
+
+// Immutable record of everything a batch was generated from. Regenerate and
+// high-res downloads replay from this, never from the current form state.
+export interface GenerationInputSnapshot {
+  readonly productImages: readonly string[]; // base64 data URLs
+  readonly referenceImages: readonly string[];
+  readonly modelImage?: string;
+  readonly category: JewelryCategory;
+  readonly instructions: string;
+  readonly scenePrompt?: string; // Scene mode only
+  readonly dimensions: Readonly<Dimensions>;
+  readonly dimensionsText: string;
+  readonly aspectRatio: AspectRatio;
+  // Set styling (try-on only): every piece in render order. The first mirrors the
+  // top-level product fields, so single-piece code paths keep working.
+  readonly pieces?: readonly SetPieceSnapshot[];
+  readonly calibration?: Readonly<ScaleCalibration>; // Try-on only
+  readonly modelId?: string; // Model library entry the model image came from
+  readonly modelName?: string; // Kept so the batch stays readable after the entry is deleted
+}
+
+export type VersionKind = 'initial' | 'regenerate' | 'region-edit' | 'piece-edit' | 'upscale';
+
+// One node in an asset's version tree. `parentId` points at the version the edit started from.
+export interface AssetVersion {
+  id: string;
+  parentId?: string;
+  kind: VersionKind;
+  imageUrl: string;
+  resolution: ImageResolution;
+  createdAt: number;
+  model?: string; // Image model that rendered this version
+  prompt?: string; // Full prompt text sent to the model
+  feedback?: string;
+  interpretation?: string;
+  regions?: SelectionRegion[];
+  referenceImages?: string[];
+  pieceId?: string; // Set piece a piece edit was limited to
+  scale?: ScaleMeasurement; // Set once the render has been measured
+  fidelity?: FidelityReport; // Missing when QA was off or could not run
+  attempts?: number; // Renders made under the auto-regenerate policy; the best one was kept
+  templateVersion?: string; // Prompt template that produced the prompt, e.g. "try-on@v2"
+  seed?: number; // Set when the provider supports seeds; the same seed and inputs reproduce the render
+  candidateId?: string; // Candidate this version was picked from
+}
+
+// One of several renders of a shot. The picked one becomes the asset's image; the rest stay
+// on the asset for reference.
+export interface AssetCandidate {
+  id: string;
+  imageUrl?: string; // Missing while rendering or after a failure
+  isLoading?: boolean;
+  error?: string;
+  resolution: ImageResolution;
+  createdAt: number;
+  model?: string;
+  prompt?: string;
+  templateVersion?: string;
+  seed?: number;
+  fidelity?: FidelityReport;
+  attempts?: number;
+}
+
 export interface GeneratedAsset {
   id: string;
   imageUrl?: string;
-  imagePrompt: string;
+  imagePrompt: string; // Display label of the shot
+  shotPrompt?: string; // Viewpoint / scene prompt sent to the model for this shot
   isImageLoading: boolean;
-  error?: string;
+  error?: string; // User-facing, actionable message
+  errorKind?: GenerationErrorKind;
   aspectRatio: AspectRatio;
   resolution: ImageResolution;
   // Feedback Verification State
@@ -38,16 +222,97 @@ export interface GeneratedAsset {
   isVerifyingFeedback?: boolean;
   feedbackInterpretation?: string; // What the AI thinks the user wants
   feedbackReferenceImages?: string[]; // Store base64s of images uploaded during feedback
-  feedbackRegion?: Region; // Store the selected region
+  feedbackRegions?: SelectionRegion[]; // Store the selected regions
+  feedbackPieceId?: string; // Set piece the feedback is limited to
+  // Version tree; `imageUrl`/`resolution`/`templateVersion` always mirror the current version
+  versions?: AssetVersion[];
+  currentVersionId?: string;
+  templateVersion?: string;
+  // Pick-the-best strip, for shots rendered with more than one candidate
+  candidates?: AssetCandidate[];
+  chosenCandidateId?: string;
+}
+
+// --- Model Library ---
+
+export type ModelFraming = 'close-up' | 'half-body' | 'full-body' | 'hands';
+
+export interface ModelProfile {
+  id: string;
+  name: string;
+  skinTone: string;
+  hair: string;
+  pose: string;
+  framing: ModelFraming;
+  rightsExpiry?: string; // Last day of the usage rights, YYYY-MM-DD
+  tags: string[];
+  imageHash: string; // UploadedFile.hash of the photo; matches the form's model image to its entry
+  createdAt: number;
+}
+
+export interface LibraryModel {
+  profile: ModelProfile;
+  image: UploadedFile;
+}
+
+// --- Product Library ---
+
+export interface ProductProfile {
+  sku: string; // Unique; also tags the batches generated from this product
+  name: string;
+  category: JewelryCategory;
+  dimensions: Dimensions;
+  instructions: string; // Standing precautions, loaded into the form
+  materialNotes: string; // Metal, stones and finish; added to the prompt while the SKU is loaded
+  updatedAt: number;
+}
+
+export interface LibraryProduct {
+  profile: ProductProfile;
+  productImages: UploadedFile[];
+  referenceImages: UploadedFile[];
 }
 
 export interface GenerationBatch {
   id: string;
   timestamp: number;
   mode: AppMode; // Track if this was try-on or scene
+  sku?: string; // Set for batches produced by a catalog import or from a product library SKU
+  inputs?: GenerationInputSnapshot; // Missing on batches created before snapshots existed
   assets: GeneratedAsset[];
 }
 
+// --- Usage Ledger ---
+
+export type UsageOperation =
+  | 'try-on'
+  | 'set-try-on'
+  | 'scene'
+  | 'region-edit'
+  | 'piece-edit'
+  | 'intent'
+  | 'model-check'
+  | 'scale-check'
+  | 'fidelity-check';
+
+// One model call, including all of its retries
+export interface UsageEntry {
+  id: string;
+  timestamp: number; // When the first attempt started
+  provider: string;
+  model: string;
+  operation: UsageOperation;
+  resolution?: ImageResolution; // Image calls only
+  attempts: number;
+  latencyMs: number; // First attempt to final outcome, retry waits included
+  inputTokens?: number; // Summed over attempts; missing when no response reported usage
+  outputTokens?: number;
+  success: boolean;
+  errorKind?: GenerationErrorKind | 'cancelled';
+  batchId?: string;
+  sku?: string;
+}
+
 export interface AppState {
   productImages: UploadedFile[];
   referenceImages: UploadedFile[];